@@ -0,0 +1,24 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class SklearnModelSigningApi implements ICredentialType {
+  name = 'sklearnModelSigningApi';
+
+  displayName = 'Sklearn Model Signing';
+
+  documentationUrl = 'https://github.com/arturovaine/n8n-nodes-sklearn#model-signing';
+
+  properties: INodeProperties[] = [
+    {
+      displayName: 'Signing Key',
+      name: 'signingKey',
+      type: 'string',
+      typeOptions: {
+        password: true,
+      },
+      required: true,
+      default: '',
+      description:
+        'Secret used to sign models with HMAC-SHA256. Every n8n instance loading the models needs the same key.',
+    },
+  ];
+}
@@ -0,0 +1,83 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class SklearnPythonEnvironmentApi implements ICredentialType {
+  name = 'sklearnPythonEnvironmentApi';
+
+  displayName = 'Sklearn Python Environment';
+
+  documentationUrl = 'https://github.com/arturovaine/n8n-nodes-sklearn#python-environment-credential';
+
+  properties: INodeProperties[] = [
+    {
+      displayName: 'Environment Type',
+      name: 'environmentType',
+      type: 'options',
+      options: [
+        {
+          name: 'System Python',
+          value: 'system',
+        },
+        {
+          name: 'Virtualenv',
+          value: 'virtualenv',
+        },
+        {
+          name: 'Conda',
+          value: 'conda',
+        },
+      ],
+      default: 'system',
+    },
+    {
+      displayName: 'Python Path',
+      name: 'pythonPath',
+      type: 'string',
+      displayOptions: {
+        show: {
+          environmentType: ['system'],
+        },
+      },
+      default: 'python3',
+      description: 'Path to Python executable with scikit-learn installed',
+    },
+    {
+      displayName: 'Environment Path',
+      name: 'environmentPath',
+      type: 'string',
+      displayOptions: {
+        show: {
+          environmentType: ['virtualenv', 'conda'],
+        },
+      },
+      default: '',
+      placeholder: '/opt/venvs/sklearn',
+      description: 'Root directory of the virtualenv or conda environment',
+    },
+    {
+      displayName: 'Extra PYTHONPATH',
+      name: 'extraPythonPath',
+      type: 'string',
+      default: '',
+      placeholder: '/opt/ml/lib:/opt/ml/plugins',
+      description: 'Directories prepended to PYTHONPATH, separated by the platform path delimiter',
+    },
+    {
+      displayName: 'Environment Variables',
+      name: 'environmentVariables',
+      type: 'json',
+      default: '{}',
+      description: 'JSON object of additional environment variables for the Python process',
+    },
+    {
+      displayName: 'Thread Limit',
+      name: 'threadLimit',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 0,
+      description:
+        'Maximum number of threads used by numerical libraries (OpenMP, OpenBLAS, MKL). 0 means no limit.',
+    },
+  ];
+}
@@ -3,9 +3,22 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const LINKAGES = ['ward', 'complete', 'average', 'single'] as const;
+const METRICS = ['euclidean', 'manhattan', 'cosine'] as const;
+
 export class SklearnAgglomerativeClustering implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Agglomerative Clustering',
@@ -20,6 +33,7 @@ export class SklearnAgglomerativeClustering implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Feature Columns',
@@ -27,7 +41,8 @@ export class SklearnAgglomerativeClustering implements INodeType {
         type: 'string',
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -67,62 +82,60 @@ export class SklearnAgglomerativeClustering implements INodeType {
         default: 'euclidean',
         description: 'Distance metric (ward linkage only supports euclidean)',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties(),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
 
     const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
     const nClusters = this.getNodeParameter('nClusters', 0) as number;
-    const linkage = this.getNodeParameter('linkage', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const linkage = assertAllowed(this.getNode(), 'linkage', this.getNodeParameter('linkage', 0), LINKAGES);
+    const runtime = await getPythonRuntime.call(this);
 
     let metric = 'euclidean';
     if (linkage !== 'ward') {
-      metric = this.getNodeParameter('metric', 0) as string;
+      metric = assertAllowed(this.getNode(), 'metric', this.getNodeParameter('metric', 0), METRICS);
     }
 
-    const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
     try {
-      const data = items.map((item, idx) => {
-        return featureColumns.map((col) => {
-          const value = item.json[col];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
-        });
-      });
+      const featureColumns = selectColumns.call(this, featureColumnsStr, items);
+
+      const featureRows = extractFeatureRows.call(
+        this,
+        { items, itemIndexes: items.map((_, idx) => idx) },
+        featureColumns,
+      );
+      const data = featureRows.rows;
 
       const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.cluster import AgglomerativeClustering
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
+params = payload['params']
 
 clustering = AgglomerativeClustering(
-    n_clusters=${nClusters},
-    linkage='${linkage}',
-    metric='${metric}'
+    n_clusters=params['n_clusters'],
+    linkage=params['linkage'],
+    metric=params['metric']
 )
 
 labels = clustering.fit_predict(X)
 
 result = {
     'labels': labels.tolist(),
-    'n_clusters': ${nClusters},
+    'n_clusters': params['n_clusters'],
     'n_leaves': int(clustering.n_leaves_),
     'n_connected_components': int(clustering.n_connected_components_)
 }
@@ -130,27 +143,17 @@ result = {
 print(json.dumps(result))
 `;
 
-      const { spawn } = require('child_process');
-      const resultData = await new Promise<string>((resolve, reject) => {
-        const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-        let output = '';
-        let errorOutput = '';
-
-        python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-        python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-        python.on('close', (code: number) => {
-          if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-          else resolve(output.trim());
-        });
+      const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+        data,
+        params: { n_clusters: nClusters, linkage, metric },
       });
 
       const result = JSON.parse(resultData);
 
-      for (let i = 0; i < items.length; i++) {
+      for (let i = 0; i < featureRows.items.length; i++) {
         returnData.push({
           json: {
-            ...items[i].json,
+            ...featureRows.items[i].json,
             cluster: result.labels[i],
             n_clusters: result.n_clusters,
             n_leaves: result.n_leaves,
@@ -3,9 +3,18 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnBinarizer implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Binarizer',
@@ -20,6 +29,7 @@ export class SklearnBinarizer implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Feature Columns',
@@ -27,7 +37,8 @@ export class SklearnBinarizer implements INodeType {
         type: 'string',
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -37,75 +48,59 @@ export class SklearnBinarizer implements INodeType {
         default: 0.0,
         description: 'Values <= threshold become 0, values > threshold become 1',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties(),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
 
     const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
     const threshold = this.getNodeParameter('threshold', 0) as number;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
-
-    const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
+    const runtime = await getPythonRuntime.call(this);
 
     try {
-      const data = items.map((item, idx) => {
-        return featureColumns.map((col) => {
-          const value = item.json[col];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
-        });
-      });
+      const featureColumns = selectColumns.call(this, featureColumnsStr, items);
+
+      const featureRows = extractFeatureRows.call(
+        this,
+        { items, itemIndexes: items.map((_, idx) => idx) },
+        featureColumns,
+      );
+      const data = featureRows.rows;
 
       const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import Binarizer
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
 
-binarizer = Binarizer(threshold=${threshold})
+binarizer = Binarizer(threshold=payload['threshold'])
 binarized = binarizer.fit_transform(X)
 
 result = {
     'binarized': binarized.tolist(),
-    'threshold': ${threshold}
+    'threshold': payload['threshold']
 }
 
 print(json.dumps(result))
 `;
 
-      const { spawn } = require('child_process');
-      const resultData = await new Promise<string>((resolve, reject) => {
-        const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-        let output = '';
-        let errorOutput = '';
-
-        python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-        python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-        python.on('close', (code: number) => {
-          if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-          else resolve(output.trim());
-        });
-      });
+      const resultData = await runPythonScript.call(this, runtime, pythonScript, { data, threshold });
 
       const result = JSON.parse(resultData);
 
-      for (let i = 0; i < items.length; i++) {
-        const newJson: any = { ...items[i].json };
+      for (let i = 0; i < featureRows.items.length; i++) {
+        const newJson: any = { ...featureRows.items[i].json };
 
         featureColumns.forEach((col, idx) => {
           newJson[`${col}_binary`] = result.binarized[i][idx];
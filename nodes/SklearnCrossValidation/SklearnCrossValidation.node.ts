@@ -6,6 +6,51 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import { pythonClassRegistry } from '../shared/Estimators';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { getScoringMetrics, SCORING_SCRIPT, scoringProperties } from '../shared/Scoring';
+import { assertAllowed } from '../shared/Validation';
+
+const MODEL_TYPES = [
+  'LinearRegression',
+  'LogisticRegression',
+  'DecisionTreeClassifier',
+  'DecisionTreeRegressor',
+  'RandomForestClassifier',
+  'RandomForestRegressor',
+  'SVC',
+  'SVR',
+  'KNeighborsClassifier',
+  'KNeighborsRegressor',
+  'GradientBoostingClassifier',
+  'GradientBoostingRegressor',
+  'GaussianNB',
+] as const;
+const OPERATIONS = ['evaluate', 'predictOutOfFold'] as const;
+const CV_METHODS = ['kfold', 'stratified', 'loo', 'shuffle'] as const;
+
+/**
+ * Python helper creating the splitter of the CV Method parameter.
+ */
+const CV_SPLITTER_SCRIPT = `from sklearn.model_selection import KFold, LeaveOneOut, ShuffleSplit, StratifiedKFold
+
+def cv_splitter(method, folds, random_state):
+    if method == 'stratified':
+        return StratifiedKFold(n_splits=folds, shuffle=True, random_state=random_state)
+    if method == 'loo':
+        return LeaveOneOut()
+    if method == 'shuffle':
+        return ShuffleSplit(n_splits=folds, test_size=0.2, random_state=random_state)
+    return KFold(n_splits=folds, shuffle=True, random_state=random_state)`;
+
 export class SklearnCrossValidation implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Cross Validation',
@@ -20,7 +65,29 @@ export class SklearnCrossValidation implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'Evaluate',
+            value: 'evaluate',
+            description: 'Score the model on every fold',
+            action: 'Evaluate a model with cross validation',
+          },
+          {
+            name: 'Predict Out of Fold',
+            value: 'predictOutOfFold',
+            description: 'Predict every item with the model trained on the folds leaving it out',
+            action: 'Predict items out of fold',
+          },
+        ],
+        default: 'evaluate',
+      },
       {
         displayName: 'Model Type',
         name: 'modelType',
@@ -52,7 +119,11 @@ export class SklearnCrossValidation implements INodeType {
           { name: 'K-Fold', value: 'kfold', description: 'Standard K-Fold cross-validation' },
           { name: 'Stratified K-Fold', value: 'stratified', description: 'Preserves class distribution (classification only)' },
           { name: 'Leave One Out', value: 'loo', description: 'Each sample is used once as test set' },
-          { name: 'Shuffle Split', value: 'shuffle', description: 'Random permutation cross-validation' },
+          {
+            name: 'Shuffle Split',
+            value: 'shuffle',
+            description: 'Random permutation cross-validation (evaluation only)',
+          },
         ],
         default: 'kfold',
       },
@@ -74,7 +145,8 @@ export class SklearnCrossValidation implements INodeType {
         type: 'string',
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -86,23 +158,7 @@ export class SklearnCrossValidation implements INodeType {
         description: 'Name of the target column',
         required: true,
       },
-      {
-        displayName: 'Scoring Metric',
-        name: 'scoring',
-        type: 'options',
-        options: [
-          { name: 'Accuracy (Classification)', value: 'accuracy' },
-          { name: 'F1 Score', value: 'f1_weighted' },
-          { name: 'Precision', value: 'precision_weighted' },
-          { name: 'Recall', value: 'recall_weighted' },
-          { name: 'ROC AUC', value: 'roc_auc' },
-          { name: 'R² Score (Regression)', value: 'r2' },
-          { name: 'Negative MSE', value: 'neg_mean_squared_error' },
-          { name: 'Negative MAE', value: 'neg_mean_absolute_error' },
-        ],
-        default: 'accuracy',
-        description: 'Scoring metric for cross-validation',
-      },
+      ...scoringProperties('Scoring metric for cross-validation', { operation: ['evaluate'] }),
       {
         displayName: 'Random State',
         name: 'randomState',
@@ -110,154 +166,218 @@ export class SklearnCrossValidation implements INodeType {
         default: 42,
         description: 'Random seed for reproducibility',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties(),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
 
-    const modelType = this.getNodeParameter('modelType', 0) as string;
-    const cvMethod = this.getNodeParameter('cvMethod', 0) as string;
+    const operation = assertAllowed(
+      this.getNode(),
+      'operation',
+      this.getNodeParameter('operation', 0, 'evaluate'),
+      OPERATIONS,
+    );
+    const modelType = assertAllowed(this.getNode(), 'modelType', this.getNodeParameter('modelType', 0), MODEL_TYPES);
+    const cvMethod = assertAllowed(this.getNode(), 'cvMethod', this.getNodeParameter('cvMethod', 0), CV_METHODS);
     const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
     const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-    const scoring = this.getNodeParameter('scoring', 0) as string;
     const randomState = this.getNodeParameter('randomState', 0) as number;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
 
     let folds = 5;
     if (cvMethod !== 'loo') {
       folds = this.getNodeParameter('folds', 0) as number;
     }
 
-    const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
     try {
-      const isRegressor = ['LinearRegression', 'DecisionTreeRegressor', 'RandomForestRegressor', 'SVR', 'KNeighborsRegressor', 'GradientBoostingRegressor'].includes(modelType);
-
-      const data = items.map((item, idx) => {
-        const features = featureColumns.map((col) => {
-          const value = item.json[col];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
+      if (operation === 'predictOutOfFold' && cvMethod === 'shuffle') {
+        throw new NodeOperationError(this.getNode(), 'Out-of-fold predictions need folds that partition the items', {
+          description: 'Choose K-Fold, Stratified K-Fold or Leave One Out',
         });
+      }
+      const featureColumns = selectColumns.call(this, featureColumnsStr, items, { exclude: [targetColumn] });
+
+      const isRegressor = ['LinearRegression', 'DecisionTreeRegressor', 'RandomForestRegressor', 'SVR', 'KNeighborsRegressor', 'GradientBoostingRegressor'].includes(modelType);
 
-        const target = item.json[targetColumn];
+      const featureRows = extractFeatureRows.call(this, { items, itemIndexes: items.map((_, idx) => idx) }, featureColumns);
+      const data = featureRows.items.map((item, idx) => {
+        const target = columnValue(item.json, targetColumn);
         if (target === undefined || target === null) {
-          throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
+          throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: featureRows.itemIndexes[idx] });
         }
 
-        return { features, target: isRegressor ? parseFloat(String(target)) : target };
+        return { features: featureRows.rows[idx], target: isRegressor ? parseFloat(String(target)) : target };
       });
 
-      const modelImports: Record<string, string> = {
-        LinearRegression: 'from sklearn.linear_model import LinearRegression',
-        LogisticRegression: 'from sklearn.linear_model import LogisticRegression',
-        DecisionTreeClassifier: 'from sklearn.tree import DecisionTreeClassifier',
-        DecisionTreeRegressor: 'from sklearn.tree import DecisionTreeRegressor',
-        RandomForestClassifier: 'from sklearn.ensemble import RandomForestClassifier',
-        RandomForestRegressor: 'from sklearn.ensemble import RandomForestRegressor',
-        GradientBoostingClassifier: 'from sklearn.ensemble import GradientBoostingClassifier',
-        GradientBoostingRegressor: 'from sklearn.ensemble import GradientBoostingRegressor',
-        SVC: 'from sklearn.svm import SVC',
-        SVR: 'from sklearn.svm import SVR',
-        KNeighborsClassifier: 'from sklearn.neighbors import KNeighborsClassifier',
-        KNeighborsRegressor: 'from sklearn.neighbors import KNeighborsRegressor',
-        GaussianNB: 'from sklearn.naive_bayes import GaussianNB',
-      };
-
-      const cvImports: Record<string, string> = {
-        kfold: 'from sklearn.model_selection import KFold',
-        stratified: 'from sklearn.model_selection import StratifiedKFold',
-        loo: 'from sklearn.model_selection import LeaveOneOut',
-        shuffle: 'from sklearn.model_selection import ShuffleSplit',
-      };
-
-      const cvInit: Record<string, string> = {
-        kfold: `KFold(n_splits=${folds}, shuffle=True, random_state=${randomState})`,
-        stratified: `StratifiedKFold(n_splits=${folds}, shuffle=True, random_state=${randomState})`,
-        loo: 'LeaveOneOut()',
-        shuffle: `ShuffleSplit(n_splits=${folds}, test_size=0.2, random_state=${randomState})`,
-      };
-
-      const pythonScript = `
+      if (operation === 'predictOutOfFold') {
+        const pythonScript = `
 import json
-import sys
 import numpy as np
-from sklearn.model_selection import cross_val_score, cross_validate
-${modelImports[modelType]}
-${cvImports[cvMethod]}
+from sklearn.base import is_classifier
+from sklearn.model_selection import cross_val_predict
+${pythonClassRegistry('MODELS', MODEL_TYPES)}
+${CV_SPLITTER_SCRIPT}
+${SCORING_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
+data = payload['data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
-model = ${modelType}()
-cv = ${cvInit[cvMethod]}
+model = MODELS[params['model_type']]()
+cv = cv_splitter(params['cv_method'], params['folds'], params['random_state'])
+
+folds = np.zeros(len(y), dtype=int)
+for fold, (_, test) in enumerate(cv.split(X, y)):
+    folds[test] = fold
+
+result = {'folds': folds.tolist()}
+if is_classifier(model) and hasattr(model, 'predict_proba'):
+    # Columns follow the sorted classes, so predictions are the most likely class
+    probabilities = cross_val_predict(model, X, y, cv=cv, method='predict_proba')
+    predictions = np.unique(y)[probabilities.argmax(axis=1)]
+    result['probabilities'] = probabilities.tolist()
+else:
+    predictions = cross_val_predict(model, X, y, cv=cv)
+result['predictions'] = predictions.tolist()
+if is_classifier(model):
+    result['misclassified'] = (predictions != y).tolist()
+
+print(json.dumps(finite(result), allow_nan=False))
+`;
+
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          params: {
+            model_type: modelType,
+            cv_method: cvMethod,
+            folds,
+            random_state: randomState,
+          },
+        });
+
+        const result = JSON.parse(resultData);
+        const rows = new Map(featureRows.itemIndexes.map((itemIndex, row) => [itemIndex, row]));
+
+        items.forEach((item, itemIndex) => {
+          const row = rows.get(itemIndex);
+          if (row === undefined) {
+            // Left out by the missing value policy
+            returnData.push({ json: item.json });
+            return;
+          }
+          const outputJson: any = {
+            ...item.json,
+            prediction: result.predictions[row],
+            fold: result.folds[row],
+          };
+
+          if (result.probabilities) {
+            outputJson.probabilities = result.probabilities[row];
+          }
+          if (result.misclassified) {
+            outputJson.misclassified = result.misclassified[row];
+          }
+
+          returnData.push({ json: outputJson });
+        });
+      } else {
+        const metrics = getScoringMetrics.call(this);
+        const pythonScript = `
+import json
+import numpy as np
+from sklearn.model_selection import cross_validate
+${pythonClassRegistry('MODELS', MODEL_TYPES)}
+${CV_SPLITTER_SCRIPT}
+${SCORING_SCRIPT}
+
+data = payload['data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
+y = np.array([d['target'] for d in data])
+
+model = MODELS[params['model_type']]()
+cv = cv_splitter(params['cv_method'], params['folds'], params['random_state'])
 
 # Perform cross-validation
-cv_results = cross_validate(model, X, y, cv=cv, scoring='${scoring}', return_train_score=True)
+metrics = params['metrics']
+cv_results = cross_validate(model, X, y, cv=cv, scoring=scoring_spec(metrics), return_train_score=True)
+
+scores = {}
+for metric in metrics:
+    test = cv_results['test_' + score_key(metrics, metric)]
+    train = cv_results['train_' + score_key(metrics, metric)]
+    scores[metric] = {
+        'mean_test_score': float(test.mean()),
+        'std_test_score': float(test.std()),
+        'mean_train_score': float(train.mean()),
+        'std_train_score': float(train.std()),
+        'test_scores_per_fold': test.tolist(),
+        'train_scores_per_fold': train.tolist(),
+    }
+main = scores[metrics[0]]
 
 result = {
-    'test_scores': cv_results['test_score'].tolist(),
-    'train_scores': cv_results['train_score'].tolist(),
+    'test_scores': main['test_scores_per_fold'],
+    'train_scores': main['train_scores_per_fold'],
     'fit_times': cv_results['fit_time'].tolist(),
     'score_times': cv_results['score_time'].tolist(),
-    'mean_test_score': float(cv_results['test_score'].mean()),
-    'std_test_score': float(cv_results['test_score'].std()),
-    'mean_train_score': float(cv_results['train_score'].mean()),
-    'std_train_score': float(cv_results['train_score'].std()),
-    'n_folds': len(cv_results['test_score']),
-    'scoring': '${scoring}',
-    'model_type': '${modelType}',
-    'cv_method': '${cvMethod}'
+    'mean_test_score': main['mean_test_score'],
+    'std_test_score': main['std_test_score'],
+    'mean_train_score': main['mean_train_score'],
+    'std_train_score': main['std_train_score'],
+    'metrics': scores,
+    'n_folds': len(cv_results['fit_time']),
+    'scoring': metrics[0],
+    'model_type': params['model_type'],
+    'cv_method': params['cv_method']
 }
 
-print(json.dumps(result))
+print(json.dumps(finite(result), allow_nan=False))
 `;
 
-      const { spawn } = require('child_process');
-      const resultData = await new Promise<string>((resolve, reject) => {
-        const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-        let output = '';
-        let errorOutput = '';
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          params: {
+            model_type: modelType,
+            cv_method: cvMethod,
+            folds,
+            metrics,
+            random_state: randomState,
+          },
+        });
 
-        python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-        python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+        const result = JSON.parse(resultData);
 
-        python.on('close', (code: number) => {
-          if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-          else resolve(output.trim());
+        returnData.push({
+          json: {
+            model_type: result.model_type,
+            cv_method: result.cv_method,
+            scoring_metric: result.scoring,
+            n_folds: result.n_folds,
+            mean_test_score: result.mean_test_score,
+            std_test_score: result.std_test_score,
+            mean_train_score: result.mean_train_score,
+            std_train_score: result.std_train_score,
+            test_scores_per_fold: result.test_scores,
+            train_scores_per_fold: result.train_scores,
+            fit_times: result.fit_times,
+            metrics: result.metrics,
+            total_samples: featureRows.items.length,
+            missing_values: featureRows.summary,
+          },
         });
-      });
-
-      const result = JSON.parse(resultData);
-
-      returnData.push({
-        json: {
-          model_type: result.model_type,
-          cv_method: result.cv_method,
-          scoring_metric: result.scoring,
-          n_folds: result.n_folds,
-          mean_test_score: result.mean_test_score,
-          std_test_score: result.std_test_score,
-          mean_train_score: result.mean_train_score,
-          std_train_score: result.std_train_score,
-          test_scores_per_fold: result.test_scores,
-          train_scores_per_fold: result.train_scores,
-          fit_times: result.fit_times,
-          total_samples: items.length,
-        },
-      });
+      }
 
     } catch (error) {
       if (this.continueOnFail()) {
@@ -1,4 +1,5 @@
 import {
+  IDataObject,
   IExecuteFunctions,
   INodeExecutionData,
   INodeType,
@@ -6,6 +7,25 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const DATASETS = [
+  'iris',
+  'diabetes',
+  'wine',
+  'boston',
+  'breast_cancer',
+  'make_regression',
+  'make_classification',
+] as const;
+
 export class SklearnDatasets implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Datasets',
@@ -20,6 +40,7 @@ export class SklearnDatasets implements INodeType {
     },
     inputs: [],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Dataset',
@@ -128,136 +149,107 @@ export class SklearnDatasets implements INodeType {
         default: 'rows',
         description: 'How to format the output data',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const returnData: INodeExecutionData[] = [];
-    const dataset = this.getNodeParameter('dataset', 0) as string;
+    const dataset = assertAllowed(this.getNode(), 'dataset', this.getNodeParameter('dataset', 0), DATASETS);
     const includeTarget = this.getNodeParameter('includeTarget', 0) as boolean;
     const outputFormat = this.getNodeParameter('outputFormat', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
 
     try {
-      let pythonScript = '';
-
+      let params: IDataObject = { dataset };
       if (dataset === 'make_regression' || dataset === 'make_classification') {
-        const nSamples = this.getNodeParameter('nSamples', 0) as number;
-        const nFeatures = this.getNodeParameter('nFeatures', 0) as number;
-        const randomState = this.getNodeParameter('randomState', 0) as number;
-
-        // Different parameters for regression vs classification
-        const extraParams = dataset === 'make_regression' ? 'noise=10.0,' : '';
+        params = {
+          dataset,
+          n_samples: this.getNodeParameter('nSamples', 0) as number,
+          n_features: this.getNodeParameter('nFeatures', 0) as number,
+          random_state: this.getNodeParameter('randomState', 0) as number,
+        };
+      }
 
-        pythonScript = `
+      const pythonScript = `
 import json
 import numpy as np
-from sklearn.datasets import ${dataset}
-
-# Generate synthetic dataset
-X, y = ${dataset}(
-    n_samples=${nSamples},
-    n_features=${nFeatures},
-    random_state=${randomState},
-    ${extraParams}
+from sklearn.datasets import (
+    fetch_california_housing,
+    load_breast_cancer,
+    load_diabetes,
+    load_iris,
+    load_wine,
+    make_classification,
+    make_regression,
 )
 
-# Prepare output
-result = {
-    'X': X.tolist(),
-    'y': y.tolist(),
-    'feature_names': [f'feature_{i}' for i in range(${nFeatures})],
-    'target_name': 'target',
-    'n_samples': ${nSamples},
-    'n_features': ${nFeatures}
-}
-
-print(json.dumps(result))
-`;
-      } else {
-        // Load built-in dataset
-        // Boston dataset is handled specially due to removal in sklearn 1.2+
-        if (dataset === 'boston') {
-          pythonScript = `
-import json
-import numpy as np
-from sklearn.datasets import fetch_california_housing
-
-# Boston was removed, use California Housing instead
-data = fetch_california_housing()
-`;
-        } else {
-          const datasetLoader = `load_${dataset}`;
-          pythonScript = `
-import json
-import numpy as np
-from sklearn.datasets import ${datasetLoader}
-
-# Load dataset
-data = ${datasetLoader}()
-`;
-        }
+params = payload['params']
+dataset = params['dataset']
 
-        // Add common output preparation code
-        pythonScript += `
+if dataset in ('make_regression', 'make_classification'):
+    # Generate synthetic dataset, with noise for regression only
+    generator = make_regression if dataset == 'make_regression' else make_classification
+    extra_params = {'noise': 10.0} if dataset == 'make_regression' else {}
+    X, y = generator(
+        n_samples=params['n_samples'],
+        n_features=params['n_features'],
+        random_state=params['random_state'],
+        **extra_params
+    )
 
-# Prepare output
-# Handle feature_names - might be list or ndarray
-if hasattr(data, 'feature_names'):
-    feature_names = data.feature_names if isinstance(data.feature_names, list) else data.feature_names.tolist()
+    result = {
+        'X': X.tolist(),
+        'y': y.tolist(),
+        'feature_names': [f'feature_{i}' for i in range(params['n_features'])],
+        'target_name': 'target',
+        'n_samples': params['n_samples'],
+        'n_features': params['n_features']
+    }
 else:
-    feature_names = [f'feature_{i}' for i in range(data.data.shape[1])]
+    # Boston was removed in sklearn 1.2+, use California Housing instead
+    LOADERS = {
+        'iris': load_iris,
+        'diabetes': load_diabetes,
+        'wine': load_wine,
+        'boston': fetch_california_housing,
+        'breast_cancer': load_breast_cancer,
+    }
+    data = LOADERS[dataset]()
 
-# Handle target_names - might be list or ndarray
-if hasattr(data, 'target_names'):
-    target_name = data.target_names if isinstance(data.target_names, list) else data.target_names.tolist()
-else:
-    target_name = 'target'
+    # Handle feature_names - might be list or ndarray
+    if hasattr(data, 'feature_names'):
+        feature_names = data.feature_names if isinstance(data.feature_names, list) else data.feature_names.tolist()
+    else:
+        feature_names = [f'feature_{i}' for i in range(data.data.shape[1])]
 
-result = {
-    'X': data.data.tolist(),
-    'y': data.target.tolist(),
-    'feature_names': feature_names,
-    'target_name': target_name,
-    'n_samples': data.data.shape[0],
-    'n_features': data.data.shape[1],
-    'description': data.DESCR if hasattr(data, 'DESCR') else 'No description available'
-}
+    # Handle target_names - might be list or ndarray
+    if hasattr(data, 'target_names'):
+        target_name = data.target_names if isinstance(data.target_names, list) else data.target_names.tolist()
+    else:
+        target_name = 'target'
+
+    result = {
+        'X': data.data.tolist(),
+        'y': data.target.tolist(),
+        'feature_names': feature_names,
+        'target_name': target_name,
+        'n_samples': data.data.shape[0],
+        'n_features': data.data.shape[1],
+        'description': data.DESCR if hasattr(data, 'DESCR') else 'No description available'
+    }
 
 print(json.dumps(result))
 `;
-      }
 
       // Execute Python script
-      const { spawn } = require('child_process');
-      const resultData = await new Promise<string>((resolve, reject) => {
-        const python = spawn(pythonPath, ['-c', pythonScript]);
-        let output = '';
-        let errorOutput = '';
-
-        python.stdout.on('data', (data: Buffer) => {
-          output += data.toString();
-        });
-
-        python.stderr.on('data', (data: Buffer) => {
-          errorOutput += data.toString();
-        });
-
-        python.on('close', (code: number) => {
-          if (code !== 0) {
-            reject(new Error(`Python script failed: ${errorOutput}`));
-          } else {
-            resolve(output.trim());
-          }
-        });
-      });
+      const resultData = await runPythonScript.call(this, runtime, pythonScript, { params });
 
       const result = JSON.parse(resultData);
 
@@ -6,6 +6,48 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runNativePredictionGroups,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import {
+  modelOutputProperties,
+  modelSourceProperties,
+  withModelOutput,
+} from '../shared/ModelArtifacts';
+import {
+  getModelSerialization,
+  MODEL_SERIALIZATION_SCRIPT,
+  modelSerializationProperties,
+  modelSigningCredentials,
+} from '../shared/ModelSerialization';
+import {
+  checkNativeModel,
+  getInferenceEngine,
+  inferenceEngineProperty,
+  predictLinear,
+} from '../shared/NativeInference';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnElasticNet implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Elastic Net',
@@ -20,6 +62,7 @@ export class SklearnElasticNet implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: [...pythonEnvironmentCredentials, ...modelSigningCredentials],
     properties: [
       {
         displayName: 'Operation',
@@ -39,6 +82,12 @@ export class SklearnElasticNet implements INodeType {
             description: 'Make predictions',
             action: 'Predict',
           },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -53,7 +102,8 @@ export class SklearnElasticNet implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -106,13 +156,16 @@ export class SklearnElasticNet implements INodeType {
         default: 1000,
         description: 'Maximum number of iterations',
       },
+      groupByProperty({ operation: ['train'] }),
+      ...modelSourceProperties({ operation: ['predict', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict'],
+            operation: ['predict', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -130,173 +183,155 @@ export class SklearnElasticNet implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict'] }, { operation: ['train'] }),
+      ...modelOutputProperties({ operation: ['train'] }),
+      inferenceEngineProperty({ operation: ['predict'] }),
+      ...modelSerializationProperties,
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = await getModelSerialization.call(this);
 
     try {
       if (operation === 'train') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-        const alpha = this.getNodeParameter('alpha', 0) as number;
-        const l1Ratio = this.getNodeParameter('l1Ratio', 0) as number;
-        const maxIter = this.getNodeParameter('maxIter', 0) as number;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const trainingData = items.map((item, idx) => {
-          const features = featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const targetColumn = this.getNodeParameter('targetColumn', itemIndex) as string;
+          const alpha = this.getNodeParameter('alpha', itemIndex) as number;
+          const l1Ratio = this.getNodeParameter('l1Ratio', itemIndex) as number;
+          const maxIter = this.getNodeParameter('maxIter', itemIndex) as number;
+
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items, { exclude: [targetColumn] });
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns, { exclude: [targetColumn] });
+          const trainingData = featureRows.items.map((item, idx) => {
+            const target = columnValue(item.json, targetColumn);
+            if (target === undefined || target === null) {
+              throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: featureRows.itemIndexes[idx] });
             }
-            return parseFloat(String(value));
-          });
-
-          const target = item.json[targetColumn];
-          if (target === undefined || target === null) {
-            throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
-          }
 
-          return { features, target: parseFloat(String(target)) };
-        });
+            return { features: featureRows.rows[idx], target: parseFloat(String(target)) };
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
 from sklearn.linear_model import ElasticNet
+${MODEL_SERIALIZATION_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
+data = payload['training_data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
 model = ElasticNet(
-    alpha=${alpha},
-    l1_ratio=${l1Ratio},
-    max_iter=${maxIter}
+    alpha=params['alpha'],
+    l1_ratio=params['l1_ratio'],
+    max_iter=params['max_iter']
 )
 
 model.fit(X, y)
 
-model_bytes = pickle.dumps(model)
-model_b64 = base64.b64encode(model_bytes).decode('utf-8')
-
 result = {
-    'model_pickle': model_b64,
+    'model_envelope': dump_model(model, X, params['feature_columns']),
     'score': float(model.score(X, y)),
     'coefficients': model.coef_.tolist(),
     'intercept': float(model.intercept_),
     'n_iter': int(model.n_iter_),
-    'alpha': ${alpha},
-    'l1_ratio': ${l1Ratio},
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'alpha': params['alpha'],
+    'l1_ratio': params['l1_ratio'],
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical']
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(trainingData)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            training_data: trainingData,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: { alpha, l1_ratio: l1Ratio, max_iter: maxIter, feature_columns: featureRows.columns },
+            serialization,
           });
-        });
-
-        const result = JSON.parse(resultData);
 
-        returnData.push({
-          json: {
-            model: resultData,
-            r2_score: result.score,
-            coefficients: Object.fromEntries(featureColumns.map((col, i) => [col, result.coefficients[i]])),
-            intercept: result.intercept,
-            n_iterations: result.n_iter,
-            alpha: result.alpha,
-            l1_ratio: result.l1_ratio,
-            feature_columns: result.feature_columns,
-            training_samples: items.length,
-          },
-        });
+          const result = JSON.parse(resultData);
+
+          returnData.push(
+            await withModelOutput.call(this, resultData, 'elastic-net.json', {
+              ...group.fields,
+              r2_score: result.score,
+              coefficients: Object.fromEntries(featureColumns.map((col, i) => [col, result.coefficients[i]])),
+              intercept: result.intercept,
+              n_iterations: result.n_iter,
+              alpha: result.alpha,
+              l1_ratio: result.l1_ratio,
+              feature_columns: result.feature_columns,
+              training_samples: featureRows.items.length,
+              missing_values: featureRows.summary,
+            }),
+          );
+        }
 
       } else if (operation === 'predict') {
-        const modelDataStr = this.getNodeParameter('modelData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
 
-        const features = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
+        let result: Record<string, any[]>;
+        if (getInferenceEngine.call(this) === 'native') {
+          result = runNativePredictionGroups.call(this, groups, (model, X, featureColumns, warnings) => {
+            warnings.push(...checkNativeModel.call(this, model, featureColumns, serialization));
+            return { predictions: predictLinear.call(this, model, X) };
           });
-        });
-
-        const pythonScript = `
+        } else {
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
+${MODEL_SERIALIZATION_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-model_data = json.loads(sys.argv[1])
-X = np.array(json.loads(sys.argv[2]))
+def predict(model_data, X, feature_columns):
+    model = load_model(model_data, feature_names=feature_columns)
 
-model_bytes = base64.b64decode(model_data['model_pickle'])
-model = pickle.loads(model_bytes)
+    predictions = model.predict(X).tolist()
 
-predictions = model.predict(X).tolist()
+    result = {'predictions': predictions}
 
-result = {'predictions': predictions}
+    return result
 
-print(json.dumps(result))
+run_prediction_groups(predict)
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, modelDataStr, JSON.stringify(features)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+          result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
+        }
 
-        const result = JSON.parse(resultData);
+        const models = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           returnData.push({
             json: {
               ...items[i].json,
@@ -304,6 +339,20 @@ print(json.dumps(result))
             },
           });
         }
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+${MODEL_SERIALIZATION_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    return load_model(model_data)
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'elastic-net')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -1,4 +1,5 @@
 import {
+  IDataObject,
   IExecuteFunctions,
   INodeExecutionData,
   INodeType,
@@ -6,6 +7,27 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { SCORE_FUNCS, SCORE_FUNCS_SCRIPT } from '../shared/PipelineSteps';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { pythonClassRegistry } from '../shared/Estimators';
+import { assertAllowed } from '../shared/Validation';
+
+const METHODS = ['selectKBest', 'selectPercentile', 'varianceThreshold', 'rfe'] as const;
+const RFE_ESTIMATORS = [
+  'LogisticRegression',
+  'RandomForestClassifier',
+  'LinearRegression',
+  'RandomForestRegressor',
+] as const;
+
 export class SklearnFeatureSelection implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Feature Selection',
@@ -20,6 +42,7 @@ export class SklearnFeatureSelection implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Method',
@@ -56,7 +79,8 @@ export class SklearnFeatureSelection implements INodeType {
         type: 'string',
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -146,66 +170,70 @@ export class SklearnFeatureSelection implements INodeType {
         default: 'LogisticRegression',
         description: 'Base estimator for RFE',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties(),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
 
-    const method = this.getNodeParameter('method', 0) as string;
+    const method = assertAllowed(this.getNode(), 'method', this.getNodeParameter('method', 0), METHODS);
     const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
-
-    const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
+    const runtime = await getPythonRuntime.call(this);
 
     try {
-      const features = items.map((item, idx) => {
-        return featureColumns.map((col) => {
-          const value = item.json[col];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
-        });
-      });
+      const featureColumns = selectColumns.call(this, featureColumnsStr, items);
+
+      const featureRows = extractFeatureRows.call(
+        this,
+        { items, itemIndexes: items.map((_, idx) => idx) },
+        featureColumns,
+      );
+      const features = featureRows.rows;
 
       let targets: any[] = [];
       if (method !== 'varianceThreshold') {
         const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-        targets = items.map((item, idx) => {
-          const value = item.json[targetColumn];
+        targets = featureRows.items.map((item, idx) => {
+          const value = columnValue(item.json, targetColumn);
           if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
+            throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, {
+              itemIndex: featureRows.itemIndexes[idx],
+            });
           }
           return value;
         });
       }
 
       let pythonScript = '';
+      let params: IDataObject = {};
 
       if (method === 'selectKBest') {
-        const k = this.getNodeParameter('k', 0) as number;
-        const scoreFunc = this.getNodeParameter('scoreFunc', 0) as string;
+        params = {
+          k: this.getNodeParameter('k', 0) as number,
+          score_func: assertAllowed(this.getNode(), 'scoreFunc', this.getNodeParameter('scoreFunc', 0), SCORE_FUNCS),
+        };
 
         pythonScript = `
 import json
-import sys
 import numpy as np
-from sklearn.feature_selection import SelectKBest, ${scoreFunc}
+from sklearn.feature_selection import SelectKBest
+${SCORE_FUNCS_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
-y = np.array(json.loads(sys.argv[2]))
-feature_names = ${JSON.stringify(featureColumns)}
+X = np.array(payload['features'], dtype=float)
+y = np.array(payload['targets'])
+params = payload['params']
+feature_names = payload['feature_columns']
 
-selector = SelectKBest(score_func=${scoreFunc}, k=${k})
+selector = SelectKBest(score_func=SCORE_FUNCS[params['score_func']], k=params['k'])
 X_selected = selector.fit_transform(X, y)
 
 mask = selector.get_support()
@@ -222,20 +250,23 @@ result = {
 print(json.dumps(result))
 `;
       } else if (method === 'selectPercentile') {
-        const percentile = this.getNodeParameter('percentile', 0) as number;
-        const scoreFunc = this.getNodeParameter('scoreFunc', 0) as string;
+        params = {
+          percentile: this.getNodeParameter('percentile', 0) as number,
+          score_func: assertAllowed(this.getNode(), 'scoreFunc', this.getNodeParameter('scoreFunc', 0), SCORE_FUNCS),
+        };
 
         pythonScript = `
 import json
-import sys
 import numpy as np
-from sklearn.feature_selection import SelectPercentile, ${scoreFunc}
+from sklearn.feature_selection import SelectPercentile
+${SCORE_FUNCS_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
-y = np.array(json.loads(sys.argv[2]))
-feature_names = ${JSON.stringify(featureColumns)}
+X = np.array(payload['features'], dtype=float)
+y = np.array(payload['targets'])
+params = payload['params']
+feature_names = payload['feature_columns']
 
-selector = SelectPercentile(score_func=${scoreFunc}, percentile=${percentile})
+selector = SelectPercentile(score_func=SCORE_FUNCS[params['score_func']], percentile=params['percentile'])
 X_selected = selector.fit_transform(X, y)
 
 mask = selector.get_support()
@@ -252,18 +283,18 @@ result = {
 print(json.dumps(result))
 `;
       } else if (method === 'varianceThreshold') {
-        const threshold = this.getNodeParameter('threshold', 0) as number;
+        params = { threshold: this.getNodeParameter('threshold', 0) as number };
 
         pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.feature_selection import VarianceThreshold
 
-X = np.array(json.loads(sys.argv[1]))
-feature_names = ${JSON.stringify(featureColumns)}
+X = np.array(payload['features'], dtype=float)
+params = payload['params']
+feature_names = payload['feature_columns']
 
-selector = VarianceThreshold(threshold=${threshold})
+selector = VarianceThreshold(threshold=params['threshold'])
 X_selected = selector.fit_transform(X)
 
 mask = selector.get_support()
@@ -280,29 +311,24 @@ result = {
 print(json.dumps(result))
 `;
       } else if (method === 'rfe') {
-        const k = this.getNodeParameter('k', 0) as number;
-        const estimator = this.getNodeParameter('estimator', 0) as string;
-
-        const estimatorImports: Record<string, string> = {
-          LogisticRegression: 'from sklearn.linear_model import LogisticRegression',
-          RandomForestClassifier: 'from sklearn.ensemble import RandomForestClassifier',
-          LinearRegression: 'from sklearn.linear_model import LinearRegression',
-          RandomForestRegressor: 'from sklearn.ensemble import RandomForestRegressor',
+        params = {
+          k: this.getNodeParameter('k', 0) as number,
+          estimator: assertAllowed(this.getNode(), 'estimator', this.getNodeParameter('estimator', 0), RFE_ESTIMATORS),
         };
 
         pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.feature_selection import RFE
-${estimatorImports[estimator]}
+${pythonClassRegistry('ESTIMATORS', RFE_ESTIMATORS)}
 
-X = np.array(json.loads(sys.argv[1]))
-y = np.array(json.loads(sys.argv[2]))
-feature_names = ${JSON.stringify(featureColumns)}
+X = np.array(payload['features'], dtype=float)
+y = np.array(payload['targets'])
+params = payload['params']
+feature_names = payload['feature_columns']
 
-estimator = ${estimator}()
-selector = RFE(estimator, n_features_to_select=${k})
+estimator = ESTIMATORS[params['estimator']]()
+selector = RFE(estimator, n_features_to_select=params['k'])
 X_selected = selector.fit_transform(X, y)
 
 mask = selector.get_support()
@@ -320,29 +346,15 @@ print(json.dumps(result))
 `;
       }
 
-      const { spawn } = require('child_process');
-      const args = method === 'varianceThreshold'
-        ? ['-c', pythonScript, JSON.stringify(features)]
-        : ['-c', pythonScript, JSON.stringify(features), JSON.stringify(targets)];
-
-      const resultData = await new Promise<string>((resolve, reject) => {
-        const python = spawn(pythonPath, args);
-        let output = '';
-        let errorOutput = '';
+      const payload: IDataObject = { features, feature_columns: featureColumns, params };
+      if (method !== 'varianceThreshold') payload.targets = targets;
 
-        python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-        python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-        python.on('close', (code: number) => {
-          if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-          else resolve(output.trim());
-        });
-      });
+      const resultData = await runPythonScript.call(this, runtime, pythonScript, payload);
 
       const result = JSON.parse(resultData);
 
-      for (let i = 0; i < items.length; i++) {
-        const newJson: any = { ...items[i].json };
+      for (let i = 0; i < featureRows.items.length; i++) {
+        const newJson: any = { ...featureRows.items[i].json };
 
         // Add selected feature values
         result.selected_features.forEach((feat: string, idx: number) => {
@@ -6,6 +6,52 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runNativePredictionGroups,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import {
+  modelOutputProperties,
+  modelSourceProperties,
+  withModelOutput,
+} from '../shared/ModelArtifacts';
+import {
+  getModelSerialization,
+  MODEL_SERIALIZATION_SCRIPT,
+  modelSerializationProperties,
+  modelSigningCredentials,
+} from '../shared/ModelSerialization';
+import {
+  checkNativeModel,
+  getInferenceEngine,
+  inferenceEngineProperty,
+  predictTrees,
+  TREE_EXPORT_SCRIPT,
+} from '../shared/NativeInference';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const MODEL_TYPES = ['classifier', 'regressor'] as const;
+
 export class SklearnGradientBoosting implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Gradient Boosting',
@@ -20,6 +66,7 @@ export class SklearnGradientBoosting implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: [...pythonEnvironmentCredentials, ...modelSigningCredentials],
     properties: [
       {
         displayName: 'Model Type',
@@ -58,6 +105,12 @@ export class SklearnGradientBoosting implements INodeType {
             description: 'Make predictions using a trained model',
             action: 'Make predictions',
           },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -72,7 +125,8 @@ export class SklearnGradientBoosting implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -161,13 +215,16 @@ export class SklearnGradientBoosting implements INodeType {
         default: 42,
         description: 'Random seed for reproducibility',
       },
+      groupByProperty({ operation: ['train'] }),
+      ...modelSourceProperties({ operation: ['predict', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict'],
+            operation: ['predict', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -185,195 +242,199 @@ export class SklearnGradientBoosting implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict'] }, { operation: ['train'] }),
+      ...modelOutputProperties({ operation: ['train'] }),
+      inferenceEngineProperty({ operation: ['predict'] }),
+      ...modelSerializationProperties,
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const modelType = this.getNodeParameter('modelType', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const modelType = assertAllowed(this.getNode(), 'modelType', this.getNodeParameter('modelType', 0), MODEL_TYPES);
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = await getModelSerialization.call(this);
 
     try {
       if (operation === 'train') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-        const nEstimators = this.getNodeParameter('nEstimators', 0) as number;
-        const learningRate = this.getNodeParameter('learningRate', 0) as number;
-        const maxDepth = this.getNodeParameter('maxDepth', 0) as number;
-        const minSamplesSplit = this.getNodeParameter('minSamplesSplit', 0) as number;
-        const subsample = this.getNodeParameter('subsample', 0) as number;
-        const randomState = this.getNodeParameter('randomState', 0) as number;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const trainingData = items.map((item, idx) => {
-          const features = featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const targetColumn = this.getNodeParameter('targetColumn', itemIndex) as string;
+          const nEstimators = this.getNodeParameter('nEstimators', itemIndex) as number;
+          const learningRate = this.getNodeParameter('learningRate', itemIndex) as number;
+          const maxDepth = this.getNodeParameter('maxDepth', itemIndex) as number;
+          const minSamplesSplit = this.getNodeParameter('minSamplesSplit', itemIndex) as number;
+          const subsample = this.getNodeParameter('subsample', itemIndex) as number;
+          const randomState = this.getNodeParameter('randomState', itemIndex) as number;
+
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items, { exclude: [targetColumn] });
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns, { exclude: [targetColumn] });
+          const trainingData = featureRows.items.map((item, idx) => {
+            const target = columnValue(item.json, targetColumn);
+            if (target === undefined || target === null) {
+              throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: featureRows.itemIndexes[idx] });
             }
-            return parseFloat(String(value));
-          });
-
-          const target = item.json[targetColumn];
-          if (target === undefined || target === null) {
-            throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
-          }
 
-          return { features, target: modelType === 'regressor' ? parseFloat(String(target)) : target };
-        });
-
-        const modelClass = modelType === 'classifier' ? 'GradientBoostingClassifier' : 'GradientBoostingRegressor';
+            return { features: featureRows.rows[idx], target: modelType === 'regressor' ? parseFloat(String(target)) : target };
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
-from sklearn.ensemble import ${modelClass}
+from sklearn.ensemble import GradientBoostingClassifier, GradientBoostingRegressor
+${MODEL_SERIALIZATION_SCRIPT}
+${TREE_EXPORT_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
+data = payload['training_data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
-model = ${modelClass}(
-    n_estimators=${nEstimators},
-    learning_rate=${learningRate},
-    max_depth=${maxDepth},
-    min_samples_split=${minSamplesSplit},
-    subsample=${subsample},
-    random_state=${randomState}
+model_class = GradientBoostingClassifier if params['model_type'] == 'classifier' else GradientBoostingRegressor
+model = model_class(
+    n_estimators=params['n_estimators'],
+    learning_rate=params['learning_rate'],
+    max_depth=params['max_depth'],
+    min_samples_split=params['min_samples_split'],
+    subsample=params['subsample'],
+    random_state=params['random_state']
 )
 model.fit(X, y)
 
-model_bytes = pickle.dumps(model)
-model_b64 = base64.b64encode(model_bytes).decode('utf-8')
-
 result = {
-    'model_pickle': model_b64,
-    'model_type': '${modelType}',
+    'model_envelope': dump_model(model, X, params['feature_columns']),
+    'tree_export': export_trees(model),
+    'model_type': params['model_type'],
     'score': float(model.score(X, y)),
     'feature_importances': model.feature_importances_.tolist(),
-    'feature_columns': ${JSON.stringify(featureColumns)},
-    'n_estimators': ${nEstimators},
-    'learning_rate': ${learningRate},
-    'max_depth': ${maxDepth}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical'],
+    'n_estimators': params['n_estimators'],
+    'learning_rate': params['learning_rate'],
+    'max_depth': params['max_depth']
 }
 
-if '${modelType}' == 'classifier':
+if params['model_type'] == 'classifier':
     result['classes'] = model.classes_.tolist()
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const modelData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(trainingData)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const modelData = await runPythonScript.call(this, runtime, pythonScript, {
+            training_data: trainingData,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: {
+              model_type: modelType,
+              n_estimators: nEstimators,
+              learning_rate: learningRate,
+              max_depth: maxDepth,
+              min_samples_split: minSamplesSplit,
+              subsample,
+              random_state: randomState,
+              feature_columns: featureRows.columns,
+            },
+            serialization,
           });
-        });
-
-        const model = JSON.parse(modelData);
-
-        returnData.push({
-          json: {
-            model: modelData,
-            model_type: model.model_type,
-            score: model.score,
-            feature_importances: model.feature_importances,
-            feature_columns: model.feature_columns,
-            classes: model.classes,
-            n_estimators: model.n_estimators,
-            learning_rate: model.learning_rate,
-            training_samples: items.length,
-          },
-        });
+
+          const model = JSON.parse(modelData);
+
+          returnData.push(
+            await withModelOutput.call(this, modelData, 'gradient-boosting.json', {
+              ...group.fields,
+              model_type: model.model_type,
+              score: model.score,
+              feature_importances: model.feature_importances,
+              feature_columns: model.feature_columns,
+              classes: model.classes,
+              n_estimators: model.n_estimators,
+              learning_rate: model.learning_rate,
+              training_samples: featureRows.items.length,
+              missing_values: featureRows.summary,
+            }),
+          );
+        }
 
       } else if (operation === 'predict') {
-        const modelDataStr = this.getNodeParameter('modelData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const modelInfo = JSON.parse(modelDataStr);
-
-        const allFeatures = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
 
-        const pythonScript = `
+        let result: Record<string, any[]>;
+        if (getInferenceEngine.call(this) === 'native') {
+          result = runNativePredictionGroups.call(this, groups, (model, X, featureColumns, warnings) => {
+            warnings.push(...checkNativeModel.call(this, model, featureColumns, serialization));
+            return predictTrees.call(this, model, X);
+          });
+        } else {
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
+${MODEL_SERIALIZATION_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-model_data = json.loads(sys.argv[1])
-features = json.loads(sys.argv[2])
-X = np.array(features)
+def predict(model_data, X, feature_columns):
+    model = load_model(model_data, feature_names=feature_columns)
 
-model_bytes = base64.b64decode(model_data['model_pickle'])
-model = pickle.loads(model_bytes)
+    predictions = model.predict(X).tolist()
 
-predictions = model.predict(X).tolist()
+    result = {'predictions': predictions}
 
-result = {'predictions': predictions}
+    if model_data['model_type'] == 'classifier':
+        result['probabilities'] = model.predict_proba(X).tolist()
 
-if model_data['model_type'] == 'classifier':
-    result['probabilities'] = model.predict_proba(X).tolist()
+    return result
 
-print(json.dumps(result))
+run_prediction_groups(predict)
 `;
 
-        const { spawn } = require('child_process');
-        const predictionData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, modelDataStr, JSON.stringify(allFeatures)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+          result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
+        }
 
-        const result = JSON.parse(predictionData);
+        const models = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           const outputJson: any = { ...items[i].json, prediction: result.predictions[i] };
           if (result.probabilities) {
             outputJson.probabilities = result.probabilities[i];
           }
           returnData.push({ json: outputJson });
         }
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+${MODEL_SERIALIZATION_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    return load_model(model_data)
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'gradient-boosting')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -1,4 +1,5 @@
 import {
+  IDataObject,
   IExecuteFunctions,
   INodeExecutionData,
   INodeType,
@@ -6,6 +7,142 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import { pythonClassRegistry } from '../shared/Estimators';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { modelOutputProperties, withModelOutput } from '../shared/ModelArtifacts';
+import {
+  getModelSerialization,
+  MODEL_SERIALIZATION_SCRIPT,
+  modelSerializationProperties,
+  modelSigningCredentials,
+} from '../shared/ModelSerialization';
+import { PIPELINE_STEPS_SCRIPT, pipelineStepsProperty, resolvePipelineSteps } from '../shared/PipelineSteps';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { getScoringMetrics, SCORING_SCRIPT, scoringProperties } from '../shared/Scoring';
+import { assertAllowed } from '../shared/Validation';
+
+const MODEL_TYPES = [
+  'LogisticRegression',
+  'DecisionTreeClassifier',
+  'DecisionTreeRegressor',
+  'RandomForestClassifier',
+  'RandomForestRegressor',
+  'SVC',
+  'SVR',
+  'KNeighborsClassifier',
+  'KNeighborsRegressor',
+  'GradientBoostingClassifier',
+  'GradientBoostingRegressor',
+] as const;
+const SEARCH_TARGETS = ['estimator', 'pipeline'] as const;
+const SEARCH_STRATEGIES = ['grid', 'random', 'halvingGrid', 'halvingRandom'] as const;
+const RANDOM_STRATEGIES: readonly string[] = ['random', 'halvingRandom'];
+const DISTRIBUTIONS = ['uniform', 'loguniform', 'randint'] as const;
+
+/**
+ * Python helper converting the distribution specs of a parameter grid into
+ * scipy distributions for randomized searches. `randint` includes `high`.
+ */
+const SEARCH_SPACE_SCRIPT = `from scipy import stats
+
+def distribution(value):
+    if not isinstance(value, dict):
+        return value
+    if value['type'] == 'uniform':
+        return stats.uniform(value['low'], value['high'] - value['low'])
+    if value['type'] == 'loguniform':
+        return stats.loguniform(value['low'], value['high'])
+    return stats.randint(value['low'], value['high'] + 1)
+
+def search_space(grid):
+    if isinstance(grid, list):
+        return [search_space(entry) for entry in grid]
+    return {key: distribution(value) for key, value in grid.items()}`;
+
+/**
+ * Python helper turning `cv_results_` into one row per candidate, best ranked
+ * first, with its parameters and every score and time except per-split ones.
+ * Scores of failed fits are null. It must be used with `SCORING_SCRIPT`.
+ */
+const LEADERBOARD_SCRIPT = `def leaderboard(cv_results, rank_key):
+    columns = [key for key in cv_results if key != 'params' and not key.startswith(('param_', 'split'))]
+    rows = []
+    for i, candidate in enumerate(cv_results['params']):
+        row = {'candidate': i, 'params': _json_safe(candidate)}
+        for key in columns:
+            row[key] = _json_safe(finite(cv_results[key][i]))
+        rows.append(row)
+    return sorted(rows, key=lambda row: row[rank_key])`;
+
+/**
+ * Checks that the parameters of a pipeline grid are named `<step>__<param>`
+ * after one of its steps.
+ */
+function validatePipelineGrid(this: IExecuteFunctions, grid: unknown, stepNames: string[]): void {
+  for (const entry of Array.isArray(grid) ? grid : [grid]) {
+    for (const name of Object.keys(entry as IDataObject)) {
+      if (!name.includes('__') || !stepNames.includes(name.split('__')[0])) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Parameter Grid key '${name}' does not name a pipeline step parameter`,
+          { description: `Name parameters <step>__<param>, with step one of ${stepNames.join(', ')}` },
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Checks the values of a parameter grid: lists of candidates, or for
+ * randomized strategies distribution specs such as
+ * `{"type": "loguniform", "low": 1e-4, "high": 1}`.
+ */
+function validateSearchSpace(this: IExecuteFunctions, grid: unknown, randomized: boolean): void {
+  const grids = Array.isArray(grid) ? grid : [grid];
+  for (const entry of grids) {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      throw new NodeOperationError(this.getNode(), 'Parameter Grid must be a JSON object or an array of objects');
+    }
+    for (const [name, value] of Object.entries(entry as IDataObject)) {
+      if (Array.isArray(value)) {
+        if (value.length === 0) {
+          throw new NodeOperationError(this.getNode(), `Parameter Grid lists no values for '${name}'`);
+        }
+        continue;
+      }
+      if (!randomized || typeof value !== 'object' || value === null) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Parameter Grid value of '${name}' must be a list${randomized ? ' or a distribution' : ''}`,
+          { description: randomized ? undefined : 'Distributions are only supported by randomized search strategies' },
+        );
+      }
+      const spec = value as IDataObject;
+      assertAllowed(this.getNode(), `${name}.type`, spec.type, DISTRIBUTIONS);
+      if (typeof spec.low !== 'number' || typeof spec.high !== 'number' || spec.low >= spec.high) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Distribution of '${name}' needs numbers low and high, with low below high`,
+        );
+      }
+      if (spec.type === 'loguniform' && spec.low <= 0) {
+        throw new NodeOperationError(this.getNode(), `Log-uniform distribution of '${name}' needs a positive low`);
+      }
+      if (spec.type === 'randint' && (!Number.isInteger(spec.low) || !Number.isInteger(spec.high))) {
+        throw new NodeOperationError(this.getNode(), `Integer distribution of '${name}' needs integer bounds`);
+      }
+    }
+  }
+}
+
 export class SklearnGridSearchCV implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Grid Search CV',
@@ -19,7 +156,8 @@ export class SklearnGridSearchCV implements INodeType {
       name: 'Sklearn Grid Search CV',
     },
     inputs: ['main'],
-    outputs: ['main'],
+    outputs: `={{ $parameter["outputLeaderboard"] ? [{ type: "main", displayName: "Best Model" }, { type: "main", displayName: "Leaderboard" }] : ["main"] }}`,
+    credentials: [...pythonEnvironmentCredentials, ...modelSigningCredentials],
     properties: [
       {
         displayName: 'Model Type',
@@ -40,14 +178,38 @@ export class SklearnGridSearchCV implements INodeType {
           { name: 'Gradient Boosting Regressor', value: 'GradientBoostingRegressor' },
         ],
         default: 'LogisticRegression',
+        description: 'Estimator to tune, the final step of the pipeline when searching over a pipeline',
       },
+      {
+        displayName: 'Search Over',
+        name: 'searchTarget',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'Estimator',
+            value: 'estimator',
+            description: 'Tune the Model Type alone',
+          },
+          {
+            name: 'Pipeline',
+            value: 'pipeline',
+            description: 'Tune a pipeline of Steps followed by the Model Type, fitting the steps within each fold',
+          },
+        ],
+        default: 'estimator',
+      },
+      pipelineStepsProperty({
+        searchTarget: ['pipeline'],
+      }),
       {
         displayName: 'Feature Columns',
         name: 'featureColumns',
         type: 'string',
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -59,15 +221,120 @@ export class SklearnGridSearchCV implements INodeType {
         description: 'Name of the target column',
         required: true,
       },
+      {
+        displayName: 'Search Strategy',
+        name: 'searchStrategy',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'Grid',
+            value: 'grid',
+            description: 'Try every combination of the grid',
+          },
+          {
+            name: 'Randomized',
+            value: 'random',
+            description: 'Try a number of combinations sampled from the grid and its distributions',
+          },
+          {
+            name: 'Successive Halving Grid',
+            value: 'halvingGrid',
+            description:
+              'Try every combination on a few samples, then the best ones on more samples, until one is left',
+          },
+          {
+            name: 'Successive Halving Randomized',
+            value: 'halvingRandom',
+            description: 'Successive halving of combinations sampled from the grid and its distributions',
+          },
+        ],
+        default: 'grid',
+      },
       {
         displayName: 'Parameter Grid (JSON)',
         name: 'paramGrid',
         type: 'string',
         default: '{}',
         placeholder: '{"C": [0.1, 1, 10], "kernel": ["linear", "rbf"]}',
-        description: 'JSON object defining the hyperparameter grid to search',
+        description:
+          'JSON object, or array of objects, mapping parameters to lists of values. Pipeline parameters are named <step>__<param>, such as estimator__C. Randomized strategies also accept distributions such as {"type": "loguniform", "low": 1e-4, "high": 1}, of type uniform, loguniform or randint.',
         required: true,
       },
+      {
+        displayName: 'Number of Candidates',
+        name: 'nIter',
+        type: 'number',
+        displayOptions: {
+          show: {
+            searchStrategy: ['random', 'halvingRandom'],
+          },
+        },
+        typeOptions: {
+          minValue: 0,
+        },
+        default: 10,
+        description:
+          'Number of combinations sampled. 0 lets successive halving sample as many as the samples allow.',
+      },
+      {
+        displayName: 'Time Limit (Seconds)',
+        name: 'timeLimit',
+        type: 'number',
+        displayOptions: {
+          show: {
+            searchStrategy: ['random'],
+          },
+        },
+        typeOptions: {
+          minValue: 0,
+        },
+        default: 0,
+        description:
+          'Stop sampling combinations after this many seconds, once the combination being evaluated is done. Combinations are then evaluated one at a time. 0 evaluates every combination.',
+      },
+      {
+        displayName: 'Halving Factor',
+        name: 'factor',
+        type: 'number',
+        displayOptions: {
+          show: {
+            searchStrategy: ['halvingGrid', 'halvingRandom'],
+          },
+        },
+        typeOptions: {
+          minValue: 2,
+        },
+        default: 3,
+        description: 'Each round keeps 1 / factor of the combinations and gives them factor times more samples',
+      },
+      {
+        displayName: 'Max Samples per Candidate',
+        name: 'maxResources',
+        type: 'number',
+        displayOptions: {
+          show: {
+            searchStrategy: ['halvingGrid', 'halvingRandom'],
+          },
+        },
+        typeOptions: {
+          minValue: 0,
+        },
+        default: 0,
+        description: 'Samples used by the last round. 0 uses every sample.',
+      },
+      {
+        displayName: 'Random State',
+        name: 'randomState',
+        type: 'number',
+        displayOptions: {
+          show: {
+            searchStrategy: ['random', 'halvingGrid', 'halvingRandom'],
+          },
+        },
+        default: 42,
+        description: 'Random seed for sampling combinations and samples',
+      },
       {
         displayName: 'Number of Folds',
         name: 'cv',
@@ -75,23 +342,7 @@ export class SklearnGridSearchCV implements INodeType {
         default: 5,
         description: 'Number of cross-validation folds',
       },
-      {
-        displayName: 'Scoring Metric',
-        name: 'scoring',
-        type: 'options',
-        options: [
-          { name: 'Accuracy (Classification)', value: 'accuracy' },
-          { name: 'F1 Score', value: 'f1_weighted' },
-          { name: 'Precision', value: 'precision_weighted' },
-          { name: 'Recall', value: 'recall_weighted' },
-          { name: 'ROC AUC', value: 'roc_auc' },
-          { name: 'R² Score (Regression)', value: 'r2' },
-          { name: 'Negative MSE', value: 'neg_mean_squared_error' },
-          { name: 'Negative MAE', value: 'neg_mean_absolute_error' },
-        ],
-        default: 'accuracy',
-        description: 'Scoring metric for evaluating models',
-      },
+      ...scoringProperties('Metric ranking the candidates. The best model is refitted on it.'),
       {
         displayName: 'Return Best Model',
         name: 'returnModel',
@@ -99,6 +350,14 @@ export class SklearnGridSearchCV implements INodeType {
         default: true,
         description: 'Whether to return the best trained model for predictions',
       },
+      {
+        displayName: 'Output Leaderboard',
+        name: 'outputLeaderboard',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to add a second output with one item per candidate: its parameters, mean and standard deviation of the test and train scores, fit and score times, and rank',
+      },
       {
         displayName: 'Number of Jobs',
         name: 'nJobs',
@@ -106,50 +365,67 @@ export class SklearnGridSearchCV implements INodeType {
         default: -1,
         description: 'Number of parallel jobs (-1 uses all processors)',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...categoricalFeatureProperties(undefined),
+      ...missingValueProperties(),
+      ...modelOutputProperties({ returnModel: [true] }),
+      ...modelSerializationProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
+    const leaderboardData: INodeExecutionData[] = [];
 
-    const modelType = this.getNodeParameter('modelType', 0) as string;
+    const modelType = assertAllowed(this.getNode(), 'modelType', this.getNodeParameter('modelType', 0), MODEL_TYPES);
     const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
     const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
+    const searchTarget = assertAllowed(
+      this.getNode(),
+      'searchTarget',
+      this.getNodeParameter('searchTarget', 0, 'estimator'),
+      SEARCH_TARGETS,
+    );
+    const searchStrategy = assertAllowed(
+      this.getNode(),
+      'searchStrategy',
+      this.getNodeParameter('searchStrategy', 0, 'grid'),
+      SEARCH_STRATEGIES,
+    );
     const paramGridStr = this.getNodeParameter('paramGrid', 0) as string;
     const cv = this.getNodeParameter('cv', 0) as number;
-    const scoring = this.getNodeParameter('scoring', 0) as string;
+    const metrics = getScoringMetrics.call(this);
     const returnModel = this.getNodeParameter('returnModel', 0) as boolean;
     const nJobs = this.getNodeParameter('nJobs', 0) as number;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
-
-    const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
+    const outputLeaderboard = this.getNodeParameter('outputLeaderboard', 0, false) as boolean;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = await getModelSerialization.call(this);
 
     try {
-      const isRegressor = ['DecisionTreeRegressor', 'RandomForestRegressor', 'SVR', 'KNeighborsRegressor', 'GradientBoostingRegressor'].includes(modelType);
+      const featureColumns = selectColumns.call(this, featureColumnsStr, items, { exclude: [targetColumn] });
 
-      const data = items.map((item, idx) => {
-        const features = featureColumns.map((col) => {
-          const value = item.json[col];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
-        });
+      const isRegressor = ['DecisionTreeRegressor', 'RandomForestRegressor', 'SVR', 'KNeighborsRegressor', 'GradientBoostingRegressor'].includes(modelType);
 
-        const target = item.json[targetColumn];
+      const featureRows = extractFeatureRows.call(
+        this,
+        { items, itemIndexes: items.map((_, idx) => idx) },
+        featureColumns,
+        { exclude: [targetColumn] },
+      );
+      const data = featureRows.items.map((item, idx) => {
+        const target = columnValue(item.json, targetColumn);
         if (target === undefined || target === null) {
-          throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
+          throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: featureRows.itemIndexes[idx] });
         }
 
-        return { features, target: isRegressor ? parseFloat(String(target)) : target };
+        return { features: featureRows.rows[idx], target: isRegressor ? parseFloat(String(target)) : target };
       });
 
       // Validate param grid JSON
@@ -159,95 +435,176 @@ export class SklearnGridSearchCV implements INodeType {
       } catch {
         throw new NodeOperationError(this.getNode(), 'Invalid JSON in Parameter Grid');
       }
-
-      const modelImports: Record<string, string> = {
-        LogisticRegression: 'from sklearn.linear_model import LogisticRegression',
-        DecisionTreeClassifier: 'from sklearn.tree import DecisionTreeClassifier',
-        DecisionTreeRegressor: 'from sklearn.tree import DecisionTreeRegressor',
-        RandomForestClassifier: 'from sklearn.ensemble import RandomForestClassifier',
-        RandomForestRegressor: 'from sklearn.ensemble import RandomForestRegressor',
-        GradientBoostingClassifier: 'from sklearn.ensemble import GradientBoostingClassifier',
-        GradientBoostingRegressor: 'from sklearn.ensemble import GradientBoostingRegressor',
-        SVC: 'from sklearn.svm import SVC',
-        SVR: 'from sklearn.svm import SVR',
-        KNeighborsClassifier: 'from sklearn.neighbors import KNeighborsClassifier',
-        KNeighborsRegressor: 'from sklearn.neighbors import KNeighborsRegressor',
-      };
+      validateSearchSpace.call(this, paramGrid, RANDOM_STRATEGIES.includes(searchStrategy));
+      if (searchStrategy.startsWith('halving') && metrics.length > 1) {
+        throw new NodeOperationError(this.getNode(), 'Successive halving supports a single scoring metric', {
+          description: 'Remove the Additional Metrics or choose a grid or randomized search',
+        });
+      }
+      const pipelineSteps = searchTarget === 'pipeline' ? resolvePipelineSteps.call(this, 0) : null;
+      if (pipelineSteps) {
+        validatePipelineGrid.call(this, paramGrid, [...pipelineSteps.map((step) => step.name), 'estimator']);
+      }
+      const nIter = this.getNodeParameter('nIter', 0, 10) as number;
+      if (searchStrategy === 'random' && nIter < 1) {
+        throw new NodeOperationError(this.getNode(), 'Randomized search needs at least one candidate');
+      }
 
       const pythonScript = `
 import json
-import sys
+import time
 import numpy as np
-import pickle
-import base64
-from sklearn.model_selection import GridSearchCV
-${modelImports[modelType]}
+from sklearn.experimental import enable_halving_search_cv
+from sklearn.model_selection import (
+    GridSearchCV, HalvingGridSearchCV, HalvingRandomSearchCV, ParameterSampler, RandomizedSearchCV
+)
+from sklearn.pipeline import Pipeline
+${pythonClassRegistry('MODELS', MODEL_TYPES)}
+${MODEL_SERIALIZATION_SCRIPT}
+${SEARCH_SPACE_SCRIPT}
+${PIPELINE_STEPS_SCRIPT}
+${LEADERBOARD_SCRIPT}
+${SCORING_SCRIPT}
 
-data = json.loads(sys.argv[1])
-param_grid = json.loads(sys.argv[2])
+data = payload['data']
+param_grid = payload['param_grid']
+params = payload['params']
+strategy = params['search_strategy']
 
-X = np.array([d['features'] for d in data])
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
-model = ${modelType}()
-grid_search = GridSearchCV(
-    model,
-    param_grid,
-    cv=${cv},
-    scoring='${scoring}',
-    n_jobs=${nJobs},
-    return_train_score=True
-)
+model = MODELS[params['model_type']]()
+if params['pipeline_steps'] is not None:
+    # Steps are fitted on the training folds only, so they are tuned without leakage
+    model = Pipeline(pipeline_steps(params['pipeline_steps']) + [('estimator', model)])
+search_kwargs = {
+    'cv': params['cv'],
+    'scoring': scoring_spec(params['metrics']),
+    'refit': params['metrics'][0] if len(params['metrics']) > 1 else True,
+    'n_jobs': params['n_jobs'],
+    'return_train_score': True,
+}
+halving_kwargs = {
+    'factor': params['factor'],
+    'max_resources': params['max_resources'] or 'auto',
+    'random_state': params['random_state'],
+}
+class TimedRandomizedSearchCV(RandomizedSearchCV):
+    # Evaluates the sampled candidates one at a time, until the time limit
+    def _run_search(self, evaluate_candidates):
+        deadline = time.monotonic() + params['time_limit']
+        self.time_limit_reached_ = False
+        candidates = ParameterSampler(self.param_distributions, self.n_iter, random_state=self.random_state)
+        for i, candidate in enumerate(candidates):
+            if i > 0 and time.monotonic() >= deadline:
+                self.time_limit_reached_ = True
+                break
+            evaluate_candidates([candidate])
+
+if strategy == 'random' and params['time_limit']:
+    grid_search = TimedRandomizedSearchCV(
+        model, search_space(param_grid), n_iter=params['n_iter'], random_state=params['random_state'], **search_kwargs
+    )
+elif strategy == 'random':
+    grid_search = RandomizedSearchCV(
+        model, search_space(param_grid), n_iter=params['n_iter'], random_state=params['random_state'], **search_kwargs
+    )
+elif strategy == 'halvingGrid':
+    grid_search = HalvingGridSearchCV(model, param_grid, **halving_kwargs, **search_kwargs)
+elif strategy == 'halvingRandom':
+    grid_search = HalvingRandomSearchCV(
+        model, search_space(param_grid), n_candidates=params['n_iter'] or 'exhaust', **halving_kwargs, **search_kwargs
+    )
+else:
+    grid_search = GridSearchCV(model, param_grid, **search_kwargs)
 
 grid_search.fit(X, y)
 
+metrics = params['metrics']
+cv_results = grid_search.cv_results_
+key = score_key(metrics, metrics[0])
 result = {
-    'best_params': grid_search.best_params_,
+    'best_params': _json_safe(grid_search.best_params_),
     'best_score': float(grid_search.best_score_),
+    'best_scores': {
+        metric: {
+            'mean_test_score': float(cv_results['mean_test_' + score_key(metrics, metric)][grid_search.best_index_]),
+            'std_test_score': float(cv_results['std_test_' + score_key(metrics, metric)][grid_search.best_index_]),
+            'test_scores_per_fold': [
+                float(cv_results[f'split{i}_test_' + score_key(metrics, metric)][grid_search.best_index_])
+                for i in range(grid_search.n_splits_)
+            ],
+        }
+        for metric in metrics
+    },
     'cv_results': {
-        'mean_test_score': grid_search.cv_results_['mean_test_score'].tolist(),
-        'std_test_score': grid_search.cv_results_['std_test_score'].tolist(),
-        'mean_train_score': grid_search.cv_results_['mean_train_score'].tolist(),
-        'params': [str(p) for p in grid_search.cv_results_['params']],
-        'rank_test_score': grid_search.cv_results_['rank_test_score'].tolist()
+        'mean_test_score': cv_results['mean_test_' + key].tolist(),
+        'std_test_score': cv_results['std_test_' + key].tolist(),
+        'mean_train_score': cv_results['mean_train_' + key].tolist(),
+        'params': [str(p) for p in cv_results['params']],
+        'rank_test_score': cv_results['rank_test_' + key].tolist()
     },
     'n_splits': grid_search.n_splits_,
-    'scoring': '${scoring}',
-    'model_type': '${modelType}'
+    'n_candidates': len(grid_search.cv_results_['params']),
+    'search_strategy': strategy,
+    'scoring': metrics[0],
+    'model_type': params['model_type']
 }
 
-if ${returnModel ? 'True' : 'False'}:
-    model_bytes = pickle.dumps(grid_search.best_estimator_)
-    result['best_model_pickle'] = base64.b64encode(model_bytes).decode('utf-8')
-    result['feature_columns'] = ${JSON.stringify(featureColumns)}
+if params['leaderboard']:
+    result['leaderboard'] = leaderboard(cv_results, 'rank_test_' + key)
 
-print(json.dumps(result))
-`;
+if strategy in ('halvingGrid', 'halvingRandom'):
+    result['n_iterations'] = int(grid_search.n_iterations_)
+    result['n_resources'] = [int(n) for n in grid_search.n_resources_]
+if hasattr(grid_search, 'time_limit_reached_'):
+    result['time_limit_reached'] = grid_search.time_limit_reached_
 
-      const { spawn } = require('child_process');
-      const resultData = await new Promise<string>((resolve, reject) => {
-        const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data), JSON.stringify(paramGrid)]);
-        let output = '';
-        let errorOutput = '';
+if params['return_model']:
+    result['best_model_envelope'] = dump_model(grid_search.best_estimator_, X, params['feature_columns'])
+    result['feature_columns'] = params['feature_columns']
 
-        python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-        python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+print(json.dumps(finite(result), allow_nan=False))
+`;
 
-        python.on('close', (code: number) => {
-          if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-          else resolve(output.trim());
-        });
+      const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+        data,
+        feature_dtypes: featureRows.dtypes,
+        param_grid: paramGrid,
+        params: {
+          model_type: modelType,
+          pipeline_steps: pipelineSteps,
+          search_strategy: searchStrategy,
+          n_iter: nIter,
+          time_limit: this.getNodeParameter('timeLimit', 0, 0) as number,
+          factor: this.getNodeParameter('factor', 0, 3) as number,
+          max_resources: this.getNodeParameter('maxResources', 0, 0) as number,
+          random_state: this.getNodeParameter('randomState', 0, 42) as number,
+          cv,
+          metrics,
+          n_jobs: nJobs,
+          return_model: returnModel,
+          leaderboard: outputLeaderboard,
+          feature_columns: featureRows.columns,
+        },
+        serialization,
       });
 
       const result = JSON.parse(resultData);
 
       const outputJson: any = {
         model_type: result.model_type,
+        search_target: searchTarget,
+        search_strategy: result.search_strategy,
         best_params: result.best_params,
         best_score: result.best_score,
+        best_scores: result.best_scores,
         scoring_metric: result.scoring,
         n_splits: result.n_splits,
-        total_samples: items.length,
+        n_candidates: result.n_candidates,
+        total_samples: featureRows.items.length,
+        missing_values: featureRows.summary,
         all_results: result.cv_results.params.map((params: string, i: number) => ({
           params,
           mean_test_score: result.cv_results.mean_test_score[i],
@@ -257,16 +614,46 @@ print(json.dumps(result))
         })),
       };
 
-      if (returnModel && result.best_model_pickle) {
-        outputJson.best_model = JSON.stringify({
-          model_pickle: result.best_model_pickle,
+      for (const row of result.leaderboard ?? []) {
+        leaderboardData.push({ json: row });
+      }
+
+      if (result.n_iterations !== undefined) {
+        outputJson.n_iterations = result.n_iterations;
+        outputJson.n_resources = result.n_resources;
+      }
+      if (result.time_limit_reached !== undefined) {
+        outputJson.time_limit_reached = result.time_limit_reached;
+      }
+
+      if (returnModel && result.best_model_envelope && pipelineSteps) {
+        // Stored like the pipelines of the Sklearn Pipeline node, which predicts with it
+        const bestPipeline = JSON.stringify({
+          pipeline_envelope: result.best_model_envelope,
+          steps: [...pipelineSteps.map((step) => step.type), result.model_type],
+          has_estimator: true,
+          feature_columns: result.feature_columns,
+          imputation: featureRows.imputation,
+          categorical: featureRows.categorical,
+        });
+        returnData.push(
+          await withModelOutput.call(this, bestPipeline, 'grid-search-best-pipeline.json', outputJson, 'best_model'),
+        );
+      } else if (returnModel && result.best_model_envelope) {
+        const bestModel = JSON.stringify({
+          model_envelope: result.best_model_envelope,
           model_type: result.model_type,
           feature_columns: result.feature_columns,
+          imputation: featureRows.imputation,
+          categorical: featureRows.categorical,
         });
+        returnData.push(
+          await withModelOutput.call(this, bestModel, 'grid-search-best-model.json', outputJson, 'best_model'),
+        );
+      } else {
+        returnData.push({ json: outputJson });
       }
 
-      returnData.push({ json: outputJson });
-
     } catch (error) {
       if (this.continueOnFail()) {
         returnData.push({ json: { error: (error as Error).message } });
@@ -275,6 +662,6 @@ print(json.dumps(result))
       }
     }
 
-    return [returnData];
+    return outputLeaderboard ? [returnData, leaderboardData] : [returnData];
   }
 }
@@ -3,9 +3,43 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { selectColumns } from '../shared/ColumnSelection';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import {
+  modelOutputProperties,
+  modelSourceProperties,
+  withModelOutput,
+} from '../shared/ModelArtifacts';
+import {
+  getModelSerialization,
+  MODEL_SERIALIZATION_SCRIPT,
+  modelSerializationProperties,
+  modelSigningCredentials,
+} from '../shared/ModelSerialization';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnIsolationForest implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Isolation Forest',
@@ -20,6 +54,7 @@ export class SklearnIsolationForest implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: [...pythonEnvironmentCredentials, ...modelSigningCredentials],
     properties: [
       {
         displayName: 'Operation',
@@ -39,6 +74,12 @@ export class SklearnIsolationForest implements INodeType {
             description: 'Detect anomalies using a trained model',
             action: 'Detect anomalies',
           },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -53,7 +94,8 @@ export class SklearnIsolationForest implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -92,13 +134,16 @@ export class SklearnIsolationForest implements INodeType {
         default: 42,
         description: 'Random seed for reproducibility',
       },
+      groupByProperty({ operation: ['train'] }),
+      ...modelSourceProperties({ operation: ['predict', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict'],
+            operation: ['predict', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -116,173 +161,151 @@ export class SklearnIsolationForest implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict'] }, { operation: ['train'] }),
+      ...modelOutputProperties({ operation: ['train'] }),
+      ...modelSerializationProperties,
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = await getModelSerialization.call(this);
 
     try {
       if (operation === 'train') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const nEstimators = this.getNodeParameter('nEstimators', 0) as number;
-        const contamination = this.getNodeParameter('contamination', 0) as number;
-        const randomState = this.getNodeParameter('randomState', 0) as number;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const nEstimators = this.getNodeParameter('nEstimators', itemIndex) as number;
+          const contamination = this.getNodeParameter('contamination', itemIndex) as number;
+          const randomState = this.getNodeParameter('randomState', itemIndex) as number;
 
-        const pythonScript = `
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items);
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns);
+          const data = featureRows.rows;
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
 from sklearn.ensemble import IsolationForest
+${MODEL_SERIALIZATION_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
+params = payload['params']
 
 model = IsolationForest(
-    n_estimators=${nEstimators},
-    contamination=${contamination},
-    random_state=${randomState}
+    n_estimators=params['n_estimators'],
+    contamination=params['contamination'],
+    random_state=params['random_state']
 )
 
 model.fit(X)
 predictions = model.predict(X)
 scores = model.decision_function(X)
 
-model_bytes = pickle.dumps(model)
-model_b64 = base64.b64encode(model_bytes).decode('utf-8')
-
 n_outliers = int((predictions == -1).sum())
 
 result = {
-    'model_pickle': model_b64,
+    'model_envelope': dump_model(model, X, params['feature_columns']),
     'predictions': predictions.tolist(),
     'anomaly_scores': scores.tolist(),
     'n_outliers': n_outliers,
     'n_inliers': len(predictions) - n_outliers,
-    'feature_columns': ${JSON.stringify(featureColumns)},
-    'n_estimators': ${nEstimators},
-    'contamination': ${contamination}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical'],
+    'n_estimators': params['n_estimators'],
+    'contamination': params['contamination']
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            data,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: {
+              n_estimators: nEstimators,
+              contamination,
+              random_state: randomState,
+              feature_columns: featureRows.columns,
+            },
+            serialization,
           });
-        });
 
-        const result = JSON.parse(resultData);
+          const result = JSON.parse(resultData);
 
-        for (let i = 0; i < items.length; i++) {
-          const outputJson: any = {
-            ...items[i].json,
-            is_anomaly: result.predictions[i] === -1,
-            anomaly_score: result.anomaly_scores[i],
-          };
-
-          if (i === 0) {
-            outputJson.model = resultData;
-            outputJson.n_outliers = result.n_outliers;
-            outputJson.n_inliers = result.n_inliers;
+          for (let i = 0; i < featureRows.items.length; i++) {
+            const outputJson: any = {
+              ...featureRows.items[i].json,
+              is_anomaly: result.predictions[i] === -1,
+              anomaly_score: result.anomaly_scores[i],
+            };
+
+            if (i === 0) {
+              outputJson.n_outliers = result.n_outliers;
+              outputJson.n_inliers = result.n_inliers;
+              outputJson.missing_values = featureRows.summary;
+              returnData.push(await withModelOutput.call(this, resultData, 'isolation-forest.json', outputJson));
+            } else {
+              returnData.push({ json: outputJson });
+            }
           }
-
-          returnData.push({ json: outputJson });
         }
 
       } else if (operation === 'predict') {
-        const modelDataStr = this.getNodeParameter('modelData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
+${MODEL_SERIALIZATION_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-model_data = json.loads(sys.argv[1])
-X = np.array(json.loads(sys.argv[2]))
+def predict(model_data, X, feature_columns):
+    model = load_model(model_data, feature_names=feature_columns)
 
-model_bytes = base64.b64decode(model_data['model_pickle'])
-model = pickle.loads(model_bytes)
+    predictions = model.predict(X)
+    scores = model.decision_function(X)
 
-predictions = model.predict(X)
-scores = model.decision_function(X)
+    result = {
+        'predictions': predictions.tolist(),
+        'anomaly_scores': scores.tolist()
+    }
 
-result = {
-    'predictions': predictions.tolist(),
-    'anomaly_scores': scores.tolist()
-}
+    return result
 
-print(json.dumps(result))
+run_prediction_groups(predict)
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, modelDataStr, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+        const result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
 
-        const result = JSON.parse(resultData);
+        const models = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           returnData.push({
             json: {
               ...items[i].json,
@@ -291,6 +314,20 @@ print(json.dumps(result))
             },
           });
         }
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+${MODEL_SERIALIZATION_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    return load_model(model_data)
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'isolation-forest')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
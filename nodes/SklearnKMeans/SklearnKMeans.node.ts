@@ -3,9 +3,41 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { selectColumns } from '../shared/ColumnSelection';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { modelSourceProperties } from '../shared/ModelArtifacts';
+import {
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const INIT_METHODS = ['k-means++', 'random'] as const;
+
 export class SklearnKMeans implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn KMeans',
@@ -20,6 +52,7 @@ export class SklearnKMeans implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -45,6 +78,12 @@ export class SklearnKMeans implements INodeType {
             description: 'Assign cluster labels using a fitted model',
             action: 'Predict cluster labels',
           },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'fitPredict',
       },
@@ -59,7 +98,8 @@ export class SklearnKMeans implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -126,13 +166,16 @@ export class SklearnKMeans implements INodeType {
         default: 42,
         description: 'Random seed for reproducibility',
       },
+      groupByProperty({ operation: ['fit', 'fitPredict'] }),
+      ...modelSourceProperties({ operation: ['predict', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict'],
+            operation: ['predict', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -150,65 +193,62 @@ export class SklearnKMeans implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      ...categoricalFeatureProperties({ operation: ['fit', 'fitPredict'] }),
+      ...missingValueProperties({ operation: ['fit', 'fitPredict', 'predict'] }, { operation: ['fit', 'fitPredict'] }),
+      ...modelCompatibilityProperties,
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fit' || operation === 'fitPredict') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const nClusters = this.getNodeParameter('nClusters', 0) as number;
-        const init = this.getNodeParameter('init', 0) as string;
-        const maxIter = this.getNodeParameter('maxIter', 0) as number;
-        const nInit = this.getNodeParameter('nInit', 0) as number;
-        const randomState = this.getNodeParameter('randomState', 0) as number;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(
-                this.getNode(),
-                `Feature column '${col}' not found in item`,
-                { itemIndex: idx }
-              );
-            }
-            return parseFloat(String(value));
-          });
-        });
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const nClusters = this.getNodeParameter('nClusters', itemIndex) as number;
+          const init = assertAllowed(this.getNode(), 'init', this.getNodeParameter('init', itemIndex), INIT_METHODS);
+          const maxIter = this.getNodeParameter('maxIter', itemIndex) as number;
+          const nInit = this.getNodeParameter('nInit', itemIndex) as number;
+          const randomState = this.getNodeParameter('randomState', itemIndex) as number;
 
-        const pythonScript = `
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items);
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns);
+          const data = featureRows.rows;
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.cluster import KMeans
+${MODEL_METADATA_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array(data)
+data = payload['data']
+params = payload['params']
+X = np.array(data, dtype=float)
 
 model = KMeans(
-    n_clusters=${nClusters},
-    init='${init}',
-    max_iter=${maxIter},
-    n_init=${nInit},
-    random_state=${randomState}
+    n_clusters=params['n_clusters'],
+    init=params['init'],
+    max_iter=params['max_iter'],
+    n_init=params['n_init'],
+    random_state=params['random_state']
 )
 
 labels = model.fit_predict(X)
@@ -217,126 +257,111 @@ result = {
     'cluster_centers': model.cluster_centers_.tolist(),
     'labels': labels.tolist(),
     'inertia': float(model.inertia_),
-    'n_clusters': ${nClusters},
+    'n_clusters': params['n_clusters'],
     'n_iter': int(model.n_iter_),
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical']
 }
+result['metadata'] = model_metadata(model, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const modelData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const model = JSON.parse(modelData);
-
-        if (operation === 'fit') {
-          returnData.push({
-            json: {
-              model: modelData,
-              cluster_centers: model.cluster_centers,
-              inertia: model.inertia,
-              n_clusters: model.n_clusters,
-              n_iterations: model.n_iter,
-              feature_columns: model.feature_columns,
-              samples_fitted: items.length,
+          const modelData = await runPythonScript.call(this, runtime, pythonScript, {
+            data,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: {
+              n_clusters: nClusters,
+              init,
+              max_iter: maxIter,
+              n_init: nInit,
+              random_state: randomState,
+              feature_columns: featureRows.columns,
             },
+            serialization,
           });
-        } else {
-          // fitPredict - return items with cluster labels
-          for (let i = 0; i < items.length; i++) {
-            const outputJson: any = {
-              ...items[i].json,
-              cluster: model.labels[i],
-            };
-
-            // Add model info to first item only
-            if (i === 0) {
-              outputJson.model = modelData;
-              outputJson.cluster_centers = model.cluster_centers;
-              outputJson.inertia = model.inertia;
-            }
 
-            returnData.push({ json: outputJson });
+          const model = JSON.parse(modelData);
+
+          if (operation === 'fit') {
+            returnData.push({
+              json: {
+                ...group.fields,
+                model: modelData,
+                cluster_centers: model.cluster_centers,
+                inertia: model.inertia,
+                n_clusters: model.n_clusters,
+                n_iterations: model.n_iter,
+                feature_columns: model.feature_columns,
+                samples_fitted: featureRows.items.length,
+                missing_values: featureRows.summary,
+              },
+            });
+          } else {
+            // fitPredict - return items with cluster labels
+            for (let i = 0; i < featureRows.items.length; i++) {
+              const outputJson: any = {
+                ...featureRows.items[i].json,
+                cluster: model.labels[i],
+              };
+
+              // Add model info to first item only
+              if (i === 0) {
+                outputJson.model = modelData;
+                outputJson.cluster_centers = model.cluster_centers;
+                outputJson.inertia = model.inertia;
+                outputJson.missing_values = featureRows.summary;
+              }
+
+              returnData.push({ json: outputJson });
+            }
           }
         }
 
       } else if (operation === 'predict') {
-        const modelDataStr = this.getNodeParameter('modelData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const modelInfo = JSON.parse(modelDataStr);
-
-        const allFeatures = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(
-                this.getNode(),
-                `Feature column '${col}' not found in item`,
-                { itemIndex: idx }
-              );
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.cluster import KMeans
+${MODEL_METADATA_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-model_data = json.loads(sys.argv[1])
-features = json.loads(sys.argv[2])
-X = np.array(features)
+def predict(model_data, X, feature_columns):
+    check_model_metadata(model_data, feature_columns)
 
-# Reconstruct model from cluster centers
-model = KMeans(n_clusters=${modelInfo.n_clusters})
-model.cluster_centers_ = np.array(model_data['cluster_centers'])
-model._n_threads = 1
+    # Reconstruct model from cluster centers
+    model = KMeans(n_clusters=int(model_data['n_clusters']))
+    model.cluster_centers_ = np.array(model_data['cluster_centers'])
+    model._n_threads = 1
 
-labels = model.predict(X)
-distances = model.transform(X)
+    labels = model.predict(X)
+    distances = model.transform(X)
 
-result = {
-    'labels': labels.tolist(),
-    'distances': distances.tolist()
-}
-
-print(json.dumps(result))
-`;
+    result = {
+        'labels': labels.tolist(),
+        'distances': distances.tolist()
+    }
 
-        const { spawn } = require('child_process');
-        const predictionData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, modelDataStr, JSON.stringify(allFeatures)]);
-          let output = '';
-          let errorOutput = '';
+    return result
 
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+run_prediction_groups(predict)
+`;
 
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+        const result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
 
-        const result = JSON.parse(predictionData);
+        const models = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           returnData.push({
             json: {
               ...items[i].json,
@@ -345,6 +370,26 @@ print(json.dumps(result))
             },
           });
         }
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+import numpy as np
+from sklearn.cluster import KMeans
+${MODEL_METADATA_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    check_model_metadata(model_data)
+
+    model = KMeans(n_clusters=int(model_data['n_clusters']))
+    model.cluster_centers_ = np.array(model_data['cluster_centers'])
+    return model
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'kmeans')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
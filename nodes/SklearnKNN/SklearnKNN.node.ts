@@ -6,6 +6,47 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import {
+  modelOutputProperties,
+  modelSourceProperties,
+  withModelOutput,
+} from '../shared/ModelArtifacts';
+import {
+  getModelSerialization,
+  MODEL_SERIALIZATION_SCRIPT,
+  modelSerializationProperties,
+  modelSigningCredentials,
+} from '../shared/ModelSerialization';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const MODEL_TYPES = ['classifier', 'regressor'] as const;
+const WEIGHTS = ['uniform', 'distance'] as const;
+const ALGORITHMS = ['auto', 'ball_tree', 'kd_tree', 'brute'] as const;
+const METRICS = ['euclidean', 'manhattan', 'minkowski', 'cosine'] as const;
+
 export class SklearnKNN implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn KNN',
@@ -20,6 +61,7 @@ export class SklearnKNN implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: [...pythonEnvironmentCredentials, ...modelSigningCredentials],
     properties: [
       {
         displayName: 'Model Type',
@@ -58,6 +100,12 @@ export class SklearnKNN implements INodeType {
             description: 'Make predictions using a trained model',
             action: 'Make predictions',
           },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -72,7 +120,8 @@ export class SklearnKNN implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -153,13 +202,16 @@ export class SklearnKNN implements INodeType {
         default: 'euclidean',
         description: 'Distance metric',
       },
+      groupByProperty({ operation: ['train'] }),
+      ...modelSourceProperties({ operation: ['predict', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict'],
+            operation: ['predict', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -177,191 +229,173 @@ export class SklearnKNN implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict'] }, { operation: ['train'] }),
+      ...modelOutputProperties({ operation: ['train'] }),
+      ...modelSerializationProperties,
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const modelType = this.getNodeParameter('modelType', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const modelType = assertAllowed(this.getNode(), 'modelType', this.getNodeParameter('modelType', 0), MODEL_TYPES);
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = await getModelSerialization.call(this);
 
     try {
       if (operation === 'train') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-        const nNeighbors = this.getNodeParameter('nNeighbors', 0) as number;
-        const weights = this.getNodeParameter('weights', 0) as string;
-        const algorithm = this.getNodeParameter('algorithm', 0) as string;
-        const metric = this.getNodeParameter('metric', 0) as string;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const trainingData = items.map((item, idx) => {
-          const features = featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const targetColumn = this.getNodeParameter('targetColumn', itemIndex) as string;
+          const nNeighbors = this.getNodeParameter('nNeighbors', itemIndex) as number;
+          const weights = assertAllowed(this.getNode(), 'weights', this.getNodeParameter('weights', itemIndex), WEIGHTS);
+          const algorithm = assertAllowed(
+            this.getNode(),
+            'algorithm',
+            this.getNodeParameter('algorithm', itemIndex),
+            ALGORITHMS,
+          );
+          const metric = assertAllowed(this.getNode(), 'metric', this.getNodeParameter('metric', itemIndex), METRICS);
+
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items, { exclude: [targetColumn] });
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns, { exclude: [targetColumn] });
+          const trainingData = featureRows.items.map((item, idx) => {
+            const target = columnValue(item.json, targetColumn);
+            if (target === undefined || target === null) {
+              throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: featureRows.itemIndexes[idx] });
             }
-            return parseFloat(String(value));
-          });
-
-          const target = item.json[targetColumn];
-          if (target === undefined || target === null) {
-            throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
-          }
-
-          return { features, target: modelType === 'regressor' ? parseFloat(String(target)) : target };
-        });
 
-        const modelClass = modelType === 'classifier' ? 'KNeighborsClassifier' : 'KNeighborsRegressor';
+            return { features: featureRows.rows[idx], target: modelType === 'regressor' ? parseFloat(String(target)) : target };
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
-from sklearn.neighbors import ${modelClass}
+from sklearn.neighbors import KNeighborsClassifier, KNeighborsRegressor
+${MODEL_SERIALIZATION_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
+data = payload['training_data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
-model = ${modelClass}(
-    n_neighbors=${nNeighbors},
-    weights='${weights}',
-    algorithm='${algorithm}',
-    metric='${metric}'
+model_class = KNeighborsClassifier if params['model_type'] == 'classifier' else KNeighborsRegressor
+model = model_class(
+    n_neighbors=params['n_neighbors'],
+    weights=params['weights'],
+    algorithm=params['algorithm'],
+    metric=params['metric']
 )
 model.fit(X, y)
 
-model_bytes = pickle.dumps(model)
-model_b64 = base64.b64encode(model_bytes).decode('utf-8')
-
 result = {
-    'model_pickle': model_b64,
-    'model_type': '${modelType}',
+    'model_envelope': dump_model(model, X, params['feature_columns']),
+    'model_type': params['model_type'],
     'score': float(model.score(X, y)),
-    'n_neighbors': ${nNeighbors},
-    'weights': '${weights}',
-    'algorithm': '${algorithm}',
-    'metric': '${metric}',
-    'feature_columns': ${JSON.stringify(featureColumns)},
+    'n_neighbors': params['n_neighbors'],
+    'weights': params['weights'],
+    'algorithm': params['algorithm'],
+    'metric': params['metric'],
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical'],
     'n_samples': len(X)
 }
 
-if '${modelType}' == 'classifier':
+if params['model_type'] == 'classifier':
     result['classes'] = model.classes_.tolist()
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const modelData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(trainingData)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const modelData = await runPythonScript.call(this, runtime, pythonScript, {
+            training_data: trainingData,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: {
+              model_type: modelType,
+              n_neighbors: nNeighbors,
+              weights,
+              algorithm,
+              metric,
+              feature_columns: featureRows.columns,
+            },
+            serialization,
           });
-        });
-
-        const model = JSON.parse(modelData);
-
-        returnData.push({
-          json: {
-            model: modelData,
-            model_type: model.model_type,
-            score: model.score,
-            n_neighbors: model.n_neighbors,
-            weights: model.weights,
-            metric: model.metric,
-            classes: model.classes,
-            feature_columns: model.feature_columns,
-            training_samples: model.n_samples,
-          },
-        });
+
+          const model = JSON.parse(modelData);
+
+          returnData.push(
+            await withModelOutput.call(this, modelData, 'knn.json', {
+              ...group.fields,
+              model_type: model.model_type,
+              score: model.score,
+              n_neighbors: model.n_neighbors,
+              weights: model.weights,
+              metric: model.metric,
+              classes: model.classes,
+              feature_columns: model.feature_columns,
+              training_samples: model.n_samples,
+              missing_values: featureRows.summary,
+            }),
+          );
+        }
 
       } else if (operation === 'predict') {
-        const modelDataStr = this.getNodeParameter('modelData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const modelInfo = JSON.parse(modelDataStr);
-
-        const allFeatures = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
+${MODEL_SERIALIZATION_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-model_data = json.loads(sys.argv[1])
-features = json.loads(sys.argv[2])
-X = np.array(features)
+def predict(model_data, X, feature_columns):
+    model = load_model(model_data, feature_names=feature_columns)
 
-model_bytes = base64.b64decode(model_data['model_pickle'])
-model = pickle.loads(model_bytes)
+    predictions = model.predict(X).tolist()
 
-predictions = model.predict(X).tolist()
+    result = {'predictions': predictions}
 
-result = {'predictions': predictions}
+    if model_data['model_type'] == 'classifier':
+        result['probabilities'] = model.predict_proba(X).tolist()
 
-if model_data['model_type'] == 'classifier':
-    result['probabilities'] = model.predict_proba(X).tolist()
+    # Get distances and indices of nearest neighbors
+    distances, indices = model.kneighbors(X)
+    result['neighbor_distances'] = distances.tolist()
+    result['neighbor_indices'] = indices.tolist()
 
-# Get distances and indices of nearest neighbors
-distances, indices = model.kneighbors(X)
-result['neighbor_distances'] = distances.tolist()
-result['neighbor_indices'] = indices.tolist()
+    return result
 
-print(json.dumps(result))
+run_prediction_groups(predict)
 `;
 
-        const { spawn } = require('child_process');
-        const predictionData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, modelDataStr, JSON.stringify(allFeatures)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+        const result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
 
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const result = JSON.parse(predictionData);
+        const models = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           const outputJson: any = {
             ...items[i].json,
             prediction: result.predictions[i],
@@ -373,6 +407,20 @@ print(json.dumps(result))
           }
           returnData.push({ json: outputJson });
         }
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+${MODEL_SERIALIZATION_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    return load_model(model_data)
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'knn')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
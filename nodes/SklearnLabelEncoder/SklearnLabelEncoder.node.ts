@@ -6,6 +6,21 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnLabelEncoder implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Label Encoder',
@@ -20,6 +35,7 @@ export class SklearnLabelEncoder implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -97,21 +113,23 @@ export class SklearnLabelEncoder implements INodeType {
         placeholder: 'category_encoded',
         description: 'Name for the output column. Leave empty to use original column name with suffix.',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
     const outputColumn = this.getNodeParameter('outputColumn', 0) as string;
 
     try {
@@ -128,10 +146,10 @@ export class SklearnLabelEncoder implements INodeType {
 
         const pythonScript = `
 import json
-import sys
 from sklearn.preprocessing import LabelEncoder
+${MODEL_METADATA_SCRIPT}
 
-labels = json.loads(sys.argv[1])
+labels = payload['labels']
 
 encoder = LabelEncoder()
 encoded = encoder.fit_transform(labels)
@@ -139,26 +157,14 @@ encoded = encoder.fit_transform(labels)
 result = {
     'classes': encoder.classes_.tolist(),
     'encoded': encoded.tolist(),
-    'column': '${column}'
+    'column': payload['column']
 }
+result['metadata'] = model_metadata(encoder, labels, [payload['column']], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(labels)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, { labels, column, serialization });
 
         const result = JSON.parse(resultData);
         const outCol = outputColumn || `${column}_encoded`;
@@ -177,112 +183,111 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform') {
-        const encoderDataStr = this.getNodeParameter('encoderData', 0) as string;
-        const column = this.getNodeParameter('transformColumn', 0) as string;
-        const encoderData = JSON.parse(encoderDataStr);
-
-        const labels = items.map((item, idx) => {
-          const value = item.json[column];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Column '${column}' not found`, { itemIndex: idx });
-          }
-          return String(value);
-        });
+        const outputs = new Array<INodeExecutionData>(items.length);
+
+        // Items may read different encoders, each applied with its own
+        for (const group of await groupModelItems.call(this, 'encoderData')) {
+          const column = this.getNodeParameter('transformColumn', group.itemIndexes[0]) as string;
+          const encoderData = JSON.parse(group.modelJson);
+
+          const labels = group.items.map((item, k) => {
+            const value = item.json[column];
+            if (value === undefined || value === null) {
+              throw new NodeOperationError(this.getNode(), `Column '${column}' not found`, { itemIndex: group.itemIndexes[k] });
+            }
+            return String(value);
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import LabelEncoder
+${MODEL_METADATA_SCRIPT}
 
-encoder_data = json.loads(sys.argv[1])
-labels = json.loads(sys.argv[2])
+encoder_data = payload['encoder']
+labels = payload['labels']
 
 encoder = LabelEncoder()
 encoder.classes_ = np.array(encoder_data['classes'])
 
+check_model_metadata(encoder_data, [payload['column']])
+
 encoded = encoder.transform(labels)
 
-print(json.dumps({'encoded': encoded.tolist()}))
+print(json.dumps({'encoded': encoded.tolist(), 'model_warnings': MODEL_WARNINGS}))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, encoderDataStr, JSON.stringify(labels)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            encoder: encoderData,
+            labels,
+            column,
+            serialization,
           });
-        });
 
-        const result = JSON.parse(resultData);
-        const outCol = outputColumn || `${column}_encoded`;
+          const result = JSON.parse(resultData);
+          addModelWarnings.call(this, result);
+          const outCol = outputColumn || `${column}_encoded`;
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
-          newJson[outCol] = result.encoded[i];
-          returnData.push({ json: newJson });
+          for (let i = 0; i < group.items.length; i++) {
+            const newJson: any = { ...group.items[i].json };
+            newJson[outCol] = result.encoded[i];
+            outputs[group.itemIndexes[i]] = { json: newJson };
+          }
         }
-
+        returnData.push(...outputs);
       } else if (operation === 'inverseTransform') {
-        const encoderDataStr = this.getNodeParameter('encoderData', 0) as string;
-        const column = this.getNodeParameter('transformColumn', 0) as string;
-        const encoderData = JSON.parse(encoderDataStr);
-
-        const encoded = items.map((item, idx) => {
-          const value = item.json[column];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Column '${column}' not found`, { itemIndex: idx });
-          }
-          return parseInt(String(value));
-        });
+        const outputs = new Array<INodeExecutionData>(items.length);
+
+        // Items may read different encoders, each applied with its own
+        for (const group of await groupModelItems.call(this, 'encoderData')) {
+          const column = this.getNodeParameter('transformColumn', group.itemIndexes[0]) as string;
+          const encoderData = JSON.parse(group.modelJson);
+
+          const encoded = group.items.map((item, k) => {
+            const value = item.json[column];
+            if (value === undefined || value === null) {
+              throw new NodeOperationError(this.getNode(), `Column '${column}' not found`, { itemIndex: group.itemIndexes[k] });
+            }
+            return parseInt(String(value));
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import LabelEncoder
+${MODEL_METADATA_SCRIPT}
 
-encoder_data = json.loads(sys.argv[1])
-encoded = json.loads(sys.argv[2])
+encoder_data = payload['encoder']
+encoded = payload['encoded']
 
 encoder = LabelEncoder()
 encoder.classes_ = np.array(encoder_data['classes'])
 
+# Inverse transforms read encoded values, so only the versions are checked
+check_model_metadata(encoder_data)
+
 labels = encoder.inverse_transform(encoded)
 
-print(json.dumps({'labels': labels.tolist()}))
+print(json.dumps({'labels': labels.tolist(), 'model_warnings': MODEL_WARNINGS}))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, encoderDataStr, JSON.stringify(encoded)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            encoder: encoderData,
+            encoded,
+            serialization,
           });
-        });
 
-        const result = JSON.parse(resultData);
-        const outCol = outputColumn || `${column}_decoded`;
+          const result = JSON.parse(resultData);
+          addModelWarnings.call(this, result);
+          const outCol = outputColumn || `${column}_decoded`;
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
-          newJson[outCol] = result.labels[i];
-          returnData.push({ json: newJson });
+          for (let i = 0; i < group.items.length; i++) {
+            const newJson: any = { ...group.items[i].json };
+            newJson[outCol] = result.labels[i];
+            outputs[group.itemIndexes[i]] = { json: newJson };
+          }
         }
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -6,6 +6,44 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runNativePredictionGroups,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { modelSourceProperties } from '../shared/ModelArtifacts';
+import { exportModelDefinitions, modelExportProperties } from '../shared/ModelExport';
+import {
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import {
+  checkNativeModel,
+  getInferenceEngine,
+  inferenceEngineProperty,
+  predictLinear,
+} from '../shared/NativeInference';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnLinearRegression implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Linear Regression',
@@ -20,6 +58,7 @@ export class SklearnLinearRegression implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -39,6 +78,18 @@ export class SklearnLinearRegression implements INodeType {
             description: 'Make predictions using a trained model',
             action: 'Make predictions using a trained model',
           },
+          {
+            name: 'Export Definition',
+            value: 'exportDefinition',
+            description: 'Export a trained model as PMML or a JSON model card',
+            action: 'Export a model definition',
+          },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -83,14 +134,17 @@ export class SklearnLinearRegression implements INodeType {
         default: true,
         description: 'Whether to calculate the intercept for this model',
       },
+      groupByProperty({ operation: ['train'] }),
       // Predict operation parameters
+      ...modelSourceProperties({ operation: ['predict', 'exportDefinition', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict'],
+            operation: ['predict', 'exportDefinition', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -108,59 +162,56 @@ export class SklearnLinearRegression implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names (must match training features)',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      inferenceEngineProperty({ operation: ['predict'] }),
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict'] }, { operation: ['train'] }),
+      ...modelCompatibilityProperties,
+      ...modelExportProperties({ operation: ['exportDefinition'] }),
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
-    for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
-      try {
-        if (operation === 'train') {
+    try {
+      if (operation === 'train') {
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
           const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
           const targetColumn = this.getNodeParameter('targetColumn', itemIndex) as string;
           const fitIntercept = this.getNodeParameter('fitIntercept', itemIndex) as boolean;
 
-          const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-          // Extract data from all items for training
-          const trainingData = items.map((item) => {
-            const features = featureColumns.map((col) => {
-              const value = item.json[col];
-              if (value === undefined || value === null) {
-                throw new NodeOperationError(
-                  this.getNode(),
-                  `Feature column '${col}' not found in item`,
-                  { itemIndex }
-                );
-              }
-              return parseFloat(String(value));
-            });
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items, { exclude: [targetColumn] });
 
-            const target = item.json[targetColumn];
+          // Extract data from all items of the group for training
+          const featureRows = extractFeatureRows.call(this, group, featureColumns, { exclude: [targetColumn] });
+          const trainingData = featureRows.items.map((item, idx) => {
+            const target = columnValue(item.json, targetColumn);
             if (target === undefined || target === null) {
               throw new NodeOperationError(
                 this.getNode(),
                 `Target column '${targetColumn}' not found in item`,
-                { itemIndex }
+                { itemIndex: featureRows.itemIndexes[idx] }
               );
             }
 
             return {
-              features,
+              features: featureRows.rows[idx],
               target: parseFloat(String(target)),
             };
           });
@@ -168,17 +219,18 @@ export class SklearnLinearRegression implements INodeType {
           // Create Python script for training
           const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.linear_model import LinearRegression
+${MODEL_METADATA_SCRIPT}
 
 # Read input data
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
+data = payload['training_data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
 # Train model
-model = LinearRegression(fit_intercept=${fitIntercept ? 'True' : 'False'})
+model = LinearRegression(fit_intercept=params['fit_intercept'])
 model.fit(X, y)
 
 # Export model parameters
@@ -186,135 +238,120 @@ result = {
     'coefficients': model.coef_.tolist(),
     'intercept': float(model.intercept_),
     'score': float(model.score(X, y)),
-    'feature_columns': ${JSON.stringify(featureColumns)},
-    'fit_intercept': ${fitIntercept ? 'True' : 'False'}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical'],
+    'fit_intercept': params['fit_intercept']
 }
+result['metadata'] = model_metadata(model, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
           // Execute Python script
-          const { spawn } = require('child_process');
-          const modelData = await new Promise<string>((resolve, reject) => {
-            const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(trainingData)]);
-            let output = '';
-            let errorOutput = '';
-
-            python.stdout.on('data', (data: Buffer) => {
-              output += data.toString();
-            });
-
-            python.stderr.on('data', (data: Buffer) => {
-              errorOutput += data.toString();
-            });
-
-            python.on('close', (code: number) => {
-              if (code !== 0) {
-                reject(new Error(`Python script failed: ${errorOutput}`));
-              } else {
-                resolve(output.trim());
-              }
-            });
+          const modelData = await runPythonScript.call(this, runtime, pythonScript, {
+            training_data: trainingData,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: { fit_intercept: fitIntercept, feature_columns: featureRows.columns },
+            serialization,
           });
 
           const model = JSON.parse(modelData);
 
           returnData.push({
             json: {
+              ...group.fields,
               model: modelData,
               coefficients: model.coefficients,
               intercept: model.intercept,
               r2_score: model.score,
               feature_columns: model.feature_columns,
-              training_samples: items.length,
+              training_samples: featureRows.items.length,
+              missing_values: featureRows.summary,
             },
           });
-        } else if (operation === 'predict') {
-          const modelDataStr = this.getNodeParameter('modelData', itemIndex) as string;
-          const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', itemIndex) as string;
-
-          const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-          const modelData = JSON.parse(modelDataStr);
-
-          // Extract features from current item
-          const features = featureColumns.map((col) => {
-            const value = items[itemIndex].json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(
-                this.getNode(),
-                `Feature column '${col}' not found in item`,
-                { itemIndex }
-              );
-            }
-            return parseFloat(String(value));
+        }
+      } else if (operation === 'predict') {
+        // Items are grouped by the model and feature columns they resolve to
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
+
+        let result: Record<string, any[]>;
+        if (getInferenceEngine.call(this) === 'native') {
+          result = runNativePredictionGroups.call(this, groups, (model, X, featureColumns, warnings) => {
+            warnings.push(...checkNativeModel.call(this, model, featureColumns, serialization));
+            return { predictions: predictLinear.call(this, model, X) };
           });
-
+        } else {
           // Create Python script for prediction
           const pythonScript = `
 import json
-import sys
 import numpy as np
+${MODEL_METADATA_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-# Read model and input data
-model_data = json.loads(sys.argv[1])
-features = json.loads(sys.argv[2])
+def predict(model_data, X, feature_columns):
+    check_model_metadata(model_data, feature_columns)
 
-# Make prediction
-X = np.array([features])
-coefficients = np.array(model_data['coefficients'])
-intercept = model_data['intercept']
+    coefficients = np.array(model_data['coefficients'])
+    intercept = model_data['intercept']
 
-prediction = float(np.dot(X, coefficients) + intercept)
+    return {'predictions': (np.dot(X, coefficients) + intercept).tolist()}
 
-print(json.dumps({'prediction': prediction}))
+run_prediction_groups(predict)
 `;
 
-          const { spawn } = require('child_process');
-          const predictionData = await new Promise<string>((resolve, reject) => {
-            const python = spawn(pythonPath, [
-              '-c',
-              pythonScript,
-              modelDataStr,
-              JSON.stringify(features),
-            ]);
-            let output = '';
-            let errorOutput = '';
-
-            python.stdout.on('data', (data: Buffer) => {
-              output += data.toString();
-            });
-
-            python.stderr.on('data', (data: Buffer) => {
-              errorOutput += data.toString();
-            });
-
-            python.on('close', (code: number) => {
-              if (code !== 0) {
-                reject(new Error(`Python script failed: ${errorOutput}`));
-              } else {
-                resolve(output.trim());
-              }
-            });
-          });
+          result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
+        }
 
-          const result = JSON.parse(predictionData);
+        const models = itemModels(groups, items.length);
 
+        for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           returnData.push({
             json: {
-              ...items[itemIndex].json,
-              prediction: result.prediction,
-            },
-          });
-        }
-      } catch (error) {
-        if (this.continueOnFail()) {
-          returnData.push({
-            json: {
-              error: (error as Error).message,
+              ...items[i].json,
+              prediction: result.predictions[i],
             },
           });
-          continue;
         }
+      } else if (operation === 'exportDefinition') {
+        returnData.push(...(await exportModelDefinitions.call(this, 'linear', 'linear-regression', serialization)));
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+import numpy as np
+from sklearn.linear_model import LinearRegression
+${MODEL_METADATA_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    check_model_metadata(model_data)
+
+    model = LinearRegression()
+    model.coef_ = np.array(model_data['coefficients'])
+    model.intercept_ = model_data['intercept']
+    return model
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'linear-regression')),
+        );
+      }
+    } catch (error) {
+      if (this.continueOnFail()) {
+        returnData.push({
+          json: {
+            error: (error as Error).message,
+          },
+        });
+      } else {
         throw error;
       }
     }
@@ -6,6 +6,47 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runNativePredictionGroups,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { modelSourceProperties } from '../shared/ModelArtifacts';
+import { exportModelDefinitions, modelExportProperties } from '../shared/ModelExport';
+import {
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import {
+  checkNativeModel,
+  getInferenceEngine,
+  inferenceEngineProperty,
+  predictLogistic,
+} from '../shared/NativeInference';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const SOLVERS = ['lbfgs', 'liblinear', 'newton-cg', 'sag', 'saga'] as const;
+
 export class SklearnLogisticRegression implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Logistic Regression',
@@ -20,6 +61,7 @@ export class SklearnLogisticRegression implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -45,6 +87,18 @@ export class SklearnLogisticRegression implements INodeType {
             description: 'Get class probabilities for predictions',
             action: 'Get class probabilities',
           },
+          {
+            name: 'Export Definition',
+            value: 'exportDefinition',
+            description: 'Export a trained model as PMML or a JSON model card',
+            action: 'Export a model definition',
+          },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -119,13 +173,16 @@ export class SklearnLogisticRegression implements INodeType {
         default: 1.0,
         description: 'Inverse of regularization strength. Smaller values = stronger regularization.',
       },
+      groupByProperty({ operation: ['train'] }),
+      ...modelSourceProperties({ operation: ['predict', 'predictProba', 'exportDefinition', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict', 'predictProba'],
+            operation: ['predict', 'predictProba', 'exportDefinition', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -143,71 +200,70 @@ export class SklearnLogisticRegression implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names (must match training features)',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      inferenceEngineProperty({ operation: ['predict', 'predictProba'] }),
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict', 'predictProba'] }, { operation: ['train'] }),
+      ...modelCompatibilityProperties,
+      ...modelExportProperties({ operation: ['exportDefinition'] }),
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'train') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-        const solver = this.getNodeParameter('solver', 0) as string;
-        const maxIter = this.getNodeParameter('maxIter', 0) as number;
-        const regularization = this.getNodeParameter('regularization', 0) as number;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const trainingData = items.map((item, idx) => {
-          const features = featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const targetColumn = this.getNodeParameter('targetColumn', itemIndex) as string;
+          const solver = assertAllowed(this.getNode(), 'solver', this.getNodeParameter('solver', itemIndex), SOLVERS);
+          const maxIter = this.getNodeParameter('maxIter', itemIndex) as number;
+          const regularization = this.getNodeParameter('regularization', itemIndex) as number;
+
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items, { exclude: [targetColumn] });
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns, { exclude: [targetColumn] });
+          const trainingData = featureRows.items.map((item, idx) => {
+            const target = columnValue(item.json, targetColumn);
+            if (target === undefined || target === null) {
               throw new NodeOperationError(
                 this.getNode(),
-                `Feature column '${col}' not found in item`,
-                { itemIndex: idx }
+                `Target column '${targetColumn}' not found in item`,
+                { itemIndex: featureRows.itemIndexes[idx] }
               );
             }
-            return parseFloat(String(value));
-          });
-
-          const target = item.json[targetColumn];
-          if (target === undefined || target === null) {
-            throw new NodeOperationError(
-              this.getNode(),
-              `Target column '${targetColumn}' not found in item`,
-              { itemIndex: idx }
-            );
-          }
 
-          return { features, target };
-        });
+            return { features: featureRows.rows[idx], target };
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.linear_model import LogisticRegression
+${MODEL_METADATA_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
+data = payload['training_data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
-model = LogisticRegression(solver='${solver}', max_iter=${maxIter}, C=${regularization})
+model = LogisticRegression(solver=params['solver'], max_iter=params['max_iter'], C=params['C'])
 model.fit(X, y)
 
 result = {
@@ -215,109 +271,101 @@ result = {
     'intercept': model.intercept_.tolist(),
     'classes': model.classes_.tolist(),
     'score': float(model.score(X, y)),
-    'feature_columns': ${JSON.stringify(featureColumns)},
-    'n_features': len(${JSON.stringify(featureColumns)}),
-    'solver': '${solver}',
-    'max_iter': ${maxIter},
-    'C': ${regularization}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical'],
+    'n_features': len(params['feature_columns']),
+    'solver': params['solver'],
+    'multi_class': 'ovr' if params['solver'] == 'liblinear' else 'multinomial',
+    'max_iter': params['max_iter'],
+    'C': params['C']
 }
+result['metadata'] = model_metadata(model, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const modelData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(trainingData)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+          const modelData = await runPythonScript.call(this, runtime, pythonScript, {
+            training_data: trainingData,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: { solver, max_iter: maxIter, C: regularization, feature_columns: featureRows.columns },
+            serialization,
+          });
 
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const model = JSON.parse(modelData);
+
+          returnData.push({
+            json: {
+              ...group.fields,
+              model: modelData,
+              coefficients: model.coefficients,
+              intercept: model.intercept,
+              classes: model.classes,
+              accuracy: model.score,
+              feature_columns: model.feature_columns,
+              training_samples: featureRows.items.length,
+              missing_values: featureRows.summary,
+            },
           });
-        });
-
-        const model = JSON.parse(modelData);
-
-        returnData.push({
-          json: {
-            model: modelData,
-            coefficients: model.coefficients,
-            intercept: model.intercept,
-            classes: model.classes,
-            accuracy: model.score,
-            feature_columns: model.feature_columns,
-            training_samples: items.length,
-          },
-        });
+        }
 
       } else if (operation === 'predict' || operation === 'predictProba') {
-        const modelDataStr = this.getNodeParameter('modelData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const modelData = JSON.parse(modelDataStr);
-
-        const allFeatures = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(
-                this.getNode(),
-                `Feature column '${col}' not found in item`,
-                { itemIndex: idx }
-              );
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
 
-        const pythonScript = `
+        let result: Record<string, any[]>;
+        if (getInferenceEngine.call(this) === 'native') {
+          result = runNativePredictionGroups.call(this, groups, (model, X, featureColumns, warnings) => {
+            warnings.push(...checkNativeModel.call(this, model, featureColumns, serialization));
+            return predictLogistic.call(this, model, X);
+          });
+        } else {
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.linear_model import LogisticRegression
+${MODEL_METADATA_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-model_data = json.loads(sys.argv[1])
-features = json.loads(sys.argv[2])
-X = np.array(features)
-
-model = LogisticRegression()
-model.coef_ = np.array(model_data['coefficients'])
-model.intercept_ = np.array(model_data['intercept'])
-model.classes_ = np.array(model_data['classes'])
+def predict(model_data, X, feature_columns):
+    check_model_metadata(model_data, feature_columns)
 
-predictions = model.predict(X).tolist()
-probabilities = model.predict_proba(X).tolist()
+    model = LogisticRegression()
+    model.coef_ = np.array(model_data['coefficients'])
+    model.intercept_ = np.array(model_data['intercept'])
+    model.classes_ = np.array(model_data['classes'])
 
-print(json.dumps({'predictions': predictions, 'probabilities': probabilities}))
-`;
+    predictions = model.predict(X).tolist()
+    multi_class = model_data.get('multi_class', 'ovr' if model_data.get('solver') == 'liblinear' else 'multinomial')
+    if multi_class == 'ovr' and len(model.classes_) > 2:
+        # Liblinear fits one-vs-rest models, whose class probabilities are normalized
+        positive = 1 / (1 + np.exp(-model.decision_function(X)))
+        probabilities = (positive / positive.sum(axis=1, keepdims=True)).tolist()
+    else:
+        probabilities = model.predict_proba(X).tolist()
 
-        const { spawn } = require('child_process');
-        const predictionData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, modelDataStr, JSON.stringify(allFeatures)]);
-          let output = '';
-          let errorOutput = '';
+    return {'predictions': predictions, 'probabilities': probabilities}
 
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+run_prediction_groups(predict)
+`;
 
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+          result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
+        }
 
-        const result = JSON.parse(predictionData);
+        const models = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           const outputJson: any = { ...items[i].json, prediction: result.predictions[i] };
 
           if (operation === 'predictProba') {
             outputJson.probabilities = result.probabilities[i];
-            const classes = modelData.classes;
+            const classes = models[i].classes as any[];
             outputJson.class_probabilities = {};
             classes.forEach((cls: any, idx: number) => {
               outputJson.class_probabilities[cls] = result.probabilities[i][idx];
@@ -326,6 +374,30 @@ print(json.dumps({'predictions': predictions, 'probabilities': probabilities}))
 
           returnData.push({ json: outputJson });
         }
+      } else if (operation === 'exportDefinition') {
+        returnData.push(...(await exportModelDefinitions.call(this, 'logistic', 'logistic-regression', serialization)));
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+import numpy as np
+from sklearn.linear_model import LogisticRegression
+${MODEL_METADATA_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    check_model_metadata(model_data)
+
+    model = LogisticRegression()
+    model.coef_ = np.array(model_data['coefficients'])
+    model.intercept_ = np.array(model_data['intercept'])
+    model.classes_ = np.array(model_data['classes'])
+    return model
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'logistic-regression')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
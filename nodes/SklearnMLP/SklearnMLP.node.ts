@@ -6,6 +6,46 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import {
+  modelOutputProperties,
+  modelSourceProperties,
+  withModelOutput,
+} from '../shared/ModelArtifacts';
+import {
+  getModelSerialization,
+  MODEL_SERIALIZATION_SCRIPT,
+  modelSerializationProperties,
+  modelSigningCredentials,
+} from '../shared/ModelSerialization';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const MODEL_TYPES = ['MLPClassifier', 'MLPRegressor'] as const;
+const ACTIVATIONS = ['relu', 'tanh', 'logistic', 'identity'] as const;
+const SOLVERS = ['adam', 'sgd', 'lbfgs'] as const;
+
 export class SklearnMLP implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn MLP Neural Network',
@@ -20,6 +60,7 @@ export class SklearnMLP implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: [...pythonEnvironmentCredentials, ...modelSigningCredentials],
     properties: [
       {
         displayName: 'Model Type',
@@ -50,6 +91,12 @@ export class SklearnMLP implements INodeType {
             description: 'Make predictions',
             action: 'Predict',
           },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -64,7 +111,8 @@ export class SklearnMLP implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -165,13 +213,16 @@ export class SklearnMLP implements INodeType {
         default: 42,
         description: 'Random seed for reproducibility',
       },
+      groupByProperty({ operation: ['train'] }),
+      ...modelSourceProperties({ operation: ['predict', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict'],
+            operation: ['predict', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -189,196 +240,183 @@ export class SklearnMLP implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict'] }, { operation: ['train'] }),
+      ...modelOutputProperties({ operation: ['train'] }),
+      ...modelSerializationProperties,
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const modelType = this.getNodeParameter('modelType', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const modelType = assertAllowed(this.getNode(), 'modelType', this.getNodeParameter('modelType', 0), MODEL_TYPES);
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = await getModelSerialization.call(this);
 
     try {
       if (operation === 'train') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-        const hiddenLayerSizesStr = this.getNodeParameter('hiddenLayerSizes', 0) as string;
-        const activation = this.getNodeParameter('activation', 0) as string;
-        const solver = this.getNodeParameter('solver', 0) as string;
-        const learningRateInit = this.getNodeParameter('learningRateInit', 0) as number;
-        const maxIter = this.getNodeParameter('maxIter', 0) as number;
-        const randomState = this.getNodeParameter('randomState', 0) as number;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const hiddenLayerSizes = hiddenLayerSizesStr.split(',').map((s) => parseInt(s.trim(), 10));
-
-        const isRegressor = modelType === 'MLPRegressor';
-
-        const trainingData = items.map((item, idx) => {
-          const features = featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const targetColumn = this.getNodeParameter('targetColumn', itemIndex) as string;
+          const hiddenLayerSizesStr = this.getNodeParameter('hiddenLayerSizes', itemIndex) as string;
+          const activation = assertAllowed(
+            this.getNode(),
+            'activation',
+            this.getNodeParameter('activation', itemIndex),
+            ACTIVATIONS,
+          );
+          const solver = assertAllowed(this.getNode(), 'solver', this.getNodeParameter('solver', itemIndex), SOLVERS);
+          const learningRateInit = this.getNodeParameter('learningRateInit', itemIndex) as number;
+          const maxIter = this.getNodeParameter('maxIter', itemIndex) as number;
+          const randomState = this.getNodeParameter('randomState', itemIndex) as number;
+
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items, { exclude: [targetColumn] });
+          const hiddenLayerSizes = hiddenLayerSizesStr.split(',').map((s) => parseInt(s.trim(), 10));
+
+          const isRegressor = modelType === 'MLPRegressor';
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns, { exclude: [targetColumn] });
+          const trainingData = featureRows.items.map((item, idx) => {
+            const target = columnValue(item.json, targetColumn);
+            if (target === undefined || target === null) {
+              throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: featureRows.itemIndexes[idx] });
             }
-            return parseFloat(String(value));
-          });
-
-          const target = item.json[targetColumn];
-          if (target === undefined || target === null) {
-            throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
-          }
 
-          return { features, target: isRegressor ? parseFloat(String(target)) : target };
-        });
+            return { features: featureRows.rows[idx], target: isRegressor ? parseFloat(String(target)) : target };
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
-from sklearn.neural_network import ${modelType}
+from sklearn.neural_network import MLPClassifier, MLPRegressor
+${MODEL_SERIALIZATION_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
+data = payload['training_data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
-model = ${modelType}(
-    hidden_layer_sizes=tuple(${JSON.stringify(hiddenLayerSizes)}),
-    activation='${activation}',
-    solver='${solver}',
-    learning_rate_init=${learningRateInit},
-    max_iter=${maxIter},
-    random_state=${randomState}
+model_class = MLPClassifier if params['model_type'] == 'MLPClassifier' else MLPRegressor
+model = model_class(
+    hidden_layer_sizes=tuple(params['hidden_layer_sizes']),
+    activation=params['activation'],
+    solver=params['solver'],
+    learning_rate_init=params['learning_rate_init'],
+    max_iter=params['max_iter'],
+    random_state=params['random_state']
 )
 
 model.fit(X, y)
 
-model_bytes = pickle.dumps(model)
-model_b64 = base64.b64encode(model_bytes).decode('utf-8')
-
 result = {
-    'model_pickle': model_b64,
-    'model_type': '${modelType}',
+    'model_envelope': dump_model(model, X, params['feature_columns']),
+    'model_type': params['model_type'],
     'score': float(model.score(X, y)),
     'n_layers': model.n_layers_,
     'n_iter': model.n_iter_,
     'loss': float(model.loss_),
-    'hidden_layer_sizes': ${JSON.stringify(hiddenLayerSizes)},
-    'activation': '${activation}',
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'hidden_layer_sizes': params['hidden_layer_sizes'],
+    'activation': params['activation'],
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical']
 }
 
-if '${modelType}' == 'MLPClassifier':
+if params['model_type'] == 'MLPClassifier':
     result['classes'] = model.classes_.tolist()
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(trainingData)]);
-          let output = '';
-          let errorOutput = '';
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            training_data: trainingData,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: {
+              model_type: modelType,
+              hidden_layer_sizes: hiddenLayerSizes,
+              activation,
+              solver,
+              learning_rate_init: learningRateInit,
+              max_iter: maxIter,
+              random_state: randomState,
+              feature_columns: featureRows.columns,
+            },
+            serialization,
+          });
 
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+          const result = JSON.parse(resultData);
 
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const result = JSON.parse(resultData);
-
-        const outputJson: any = {
-          model: resultData,
-          model_type: result.model_type,
-          score: result.score,
-          n_layers: result.n_layers,
-          n_iterations: result.n_iter,
-          final_loss: result.loss,
-          hidden_layer_sizes: result.hidden_layer_sizes,
-          activation: result.activation,
-          feature_columns: result.feature_columns,
-          training_samples: items.length,
-        };
-
-        if (result.classes) {
-          outputJson.classes = result.classes;
-        }
+          const outputJson: any = {
+            ...group.fields,
+            model_type: result.model_type,
+            score: result.score,
+            n_layers: result.n_layers,
+            n_iterations: result.n_iter,
+            final_loss: result.loss,
+            hidden_layer_sizes: result.hidden_layer_sizes,
+            activation: result.activation,
+            feature_columns: result.feature_columns,
+            training_samples: featureRows.items.length,
+            missing_values: featureRows.summary,
+          };
 
-        returnData.push({ json: outputJson });
+          if (result.classes) {
+            outputJson.classes = result.classes;
+          }
+
+          returnData.push(await withModelOutput.call(this, resultData, 'mlp.json', outputJson));
+        }
 
       } else if (operation === 'predict') {
-        const modelDataStr = this.getNodeParameter('modelData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const modelInfo = JSON.parse(modelDataStr);
-
-        const features = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
+${MODEL_SERIALIZATION_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-model_data = json.loads(sys.argv[1])
-X = np.array(json.loads(sys.argv[2]))
+def predict(model_data, X, feature_columns):
+    model = load_model(model_data, feature_names=feature_columns)
 
-model_bytes = base64.b64decode(model_data['model_pickle'])
-model = pickle.loads(model_bytes)
+    predictions = model.predict(X).tolist()
 
-predictions = model.predict(X).tolist()
+    result = {'predictions': predictions}
 
-result = {'predictions': predictions}
+    if model_data['model_type'] == 'MLPClassifier':
+        result['probabilities'] = model.predict_proba(X).tolist()
 
-if model_data['model_type'] == 'MLPClassifier':
-    result['probabilities'] = model.predict_proba(X).tolist()
+    return result
 
-print(json.dumps(result))
+run_prediction_groups(predict)
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, modelDataStr, JSON.stringify(features)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+        const result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
 
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const result = JSON.parse(resultData);
+        const models = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           const outputJson: any = {
             ...items[i].json,
             prediction: result.predictions[i],
@@ -388,6 +426,20 @@ print(json.dumps(result))
           }
           returnData.push({ json: outputJson });
         }
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+${MODEL_SERIALIZATION_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    return load_model(model_data)
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'mlp')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
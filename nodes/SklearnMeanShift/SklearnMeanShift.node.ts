@@ -3,9 +3,18 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnMeanShift implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Mean Shift',
@@ -20,6 +29,7 @@ export class SklearnMeanShift implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Feature Columns',
@@ -27,7 +37,8 @@ export class SklearnMeanShift implements INodeType {
         type: 'string',
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -56,16 +67,17 @@ export class SklearnMeanShift implements INodeType {
         default: 1,
         description: 'Minimum number of points in a bin to seed it',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties(),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
@@ -73,42 +85,39 @@ export class SklearnMeanShift implements INodeType {
     const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
     const bandwidth = this.getNodeParameter('bandwidth', 0) as number;
     const binSeeding = this.getNodeParameter('binSeeding', 0) as boolean;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
 
     let minBinFreq = 1;
     if (binSeeding) {
       minBinFreq = this.getNodeParameter('minBinFreq', 0) as number;
     }
 
-    const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
     try {
-      const data = items.map((item, idx) => {
-        return featureColumns.map((col) => {
-          const value = item.json[col];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
-        });
-      });
+      const featureColumns = selectColumns.call(this, featureColumnsStr, items);
+
+      const featureRows = extractFeatureRows.call(
+        this,
+        { items, itemIndexes: items.map((_, idx) => idx) },
+        featureColumns,
+      );
+      const data = featureRows.rows;
 
       const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.cluster import MeanShift, estimate_bandwidth
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
+params = payload['params']
 
-bandwidth = ${bandwidth}
+bandwidth = params['bandwidth']
 if bandwidth == 0:
     bandwidth = estimate_bandwidth(X, quantile=0.3)
 
 clustering = MeanShift(
     bandwidth=bandwidth,
-    bin_seeding=${binSeeding ? 'True' : 'False'},
-    min_bin_freq=${minBinFreq}
+    bin_seeding=params['bin_seeding'],
+    min_bin_freq=params['min_bin_freq']
 )
 
 labels = clustering.fit_predict(X)
@@ -126,27 +135,17 @@ result = {
 print(json.dumps(result))
 `;
 
-      const { spawn } = require('child_process');
-      const resultData = await new Promise<string>((resolve, reject) => {
-        const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-        let output = '';
-        let errorOutput = '';
-
-        python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-        python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-        python.on('close', (code: number) => {
-          if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-          else resolve(output.trim());
-        });
+      const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+        data,
+        params: { bandwidth, bin_seeding: binSeeding, min_bin_freq: minBinFreq },
       });
 
       const result = JSON.parse(resultData);
 
-      for (let i = 0; i < items.length; i++) {
+      for (let i = 0; i < featureRows.items.length; i++) {
         returnData.push({
           json: {
-            ...items[i].json,
+            ...featureRows.items[i].json,
             cluster: result.labels[i],
             n_clusters: result.n_clusters,
             bandwidth: result.bandwidth,
@@ -6,6 +6,16 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnMetrics implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Metrics',
@@ -20,6 +30,7 @@ export class SklearnMetrics implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Metric Type',
@@ -119,21 +130,22 @@ export class SklearnMetrics implements INodeType {
         default: 'weighted',
         description: 'Averaging method for multi-class metrics',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties({ metricType: ['regression', 'clustering'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const metricType = this.getNodeParameter('metricType', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
 
     try {
       if (metricType === 'classification') {
@@ -159,16 +171,15 @@ export class SklearnMetrics implements INodeType {
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.metrics import (
     accuracy_score, precision_score, recall_score, f1_score,
     confusion_matrix, classification_report
 )
 
-y_true = json.loads(sys.argv[1])
-y_pred = json.loads(sys.argv[2])
-average = sys.argv[3]
+y_true = payload['y_true']
+y_pred = payload['y_pred']
+average = payload['average']
 
 # Handle binary case
 avg_param = average if average != 'binary' else 'binary'
@@ -195,20 +206,7 @@ result = {
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const metricsData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(yTrue), JSON.stringify(yPred), average]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+        const metricsData = await runPythonScript.call(this, runtime, pythonScript, { y_true: yTrue, y_pred: yPred, average });
 
         const metrics = JSON.parse(metricsData);
         returnData.push({ json: metrics });
@@ -217,33 +215,24 @@ print(json.dumps(result))
         const trueColumn = this.getNodeParameter('trueColumn', 0) as string;
         const predictedColumn = this.getNodeParameter('predictedColumn', 0) as string;
 
-        const yTrue = items.map((item, idx) => {
-          const value = item.json[trueColumn];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Column '${trueColumn}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
-        });
-
-        const yPred = items.map((item, idx) => {
-          const value = item.json[predictedColumn];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Column '${predictedColumn}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
-        });
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          [trueColumn, predictedColumn],
+        );
+        const yTrue = featureRows.rows.map((row) => row[0]);
+        const yPred = featureRows.rows.map((row) => row[1]);
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.metrics import (
     mean_squared_error, mean_absolute_error, r2_score,
     mean_absolute_percentage_error, explained_variance_score
 )
 
-y_true = np.array(json.loads(sys.argv[1]))
-y_pred = np.array(json.loads(sys.argv[2]))
+y_true = np.array(payload['y_true'], dtype=float)
+y_pred = np.array(payload['y_pred'], dtype=float)
 
 mse = mean_squared_error(y_true, y_pred)
 
@@ -260,57 +249,42 @@ result = {
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const metricsData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(yTrue), JSON.stringify(yPred)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+        const metricsData = await runPythonScript.call(this, runtime, pythonScript, { y_true: yTrue, y_pred: yPred });
 
         const metrics = JSON.parse(metricsData);
-        returnData.push({ json: metrics });
+        returnData.push({ json: { ...metrics, missing_values: featureRows.summary } });
 
       } else if (metricType === 'clustering') {
         const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
         const clusterColumn = this.getNodeParameter('clusterColumn', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const features = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const featureColumns = selectColumns.call(this, featureColumnsStr, items);
+
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          featureColumns,
+        );
+        const features = featureRows.rows;
 
-        const labels = items.map((item, idx) => {
+        const labels = featureRows.items.map((item, idx) => {
           const value = item.json[clusterColumn];
           if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Column '${clusterColumn}' not found`, { itemIndex: idx });
+            throw new NodeOperationError(this.getNode(), `Column '${clusterColumn}' not found`, {
+              itemIndex: featureRows.itemIndexes[idx],
+            });
           }
           return parseInt(String(value));
         });
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.metrics import (
     silhouette_score, calinski_harabasz_score, davies_bouldin_score
 )
 
-X = np.array(json.loads(sys.argv[1]))
-labels = np.array(json.loads(sys.argv[2]))
+X = np.array(payload['features'], dtype=float)
+labels = np.array(payload['labels'])
 
 n_clusters = len(set(labels))
 
@@ -329,23 +303,10 @@ else:
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const metricsData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(features), JSON.stringify(labels)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+        const metricsData = await runPythonScript.call(this, runtime, pythonScript, { features, labels });
 
         const metrics = JSON.parse(metricsData);
-        returnData.push({ json: metrics });
+        returnData.push({ json: { ...metrics, missing_values: featureRows.summary } });
       }
     } catch (error) {
       if (this.continueOnFail()) {
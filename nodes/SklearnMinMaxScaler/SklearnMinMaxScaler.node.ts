@@ -3,9 +3,38 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addMissingValueHints,
+  extractFeatureRows,
+  FEATURE_LIST_SCRIPT,
+  missingValueProperties,
+  MissingValueSummary,
+  rowsByItem,
+} from '../shared/MissingValues';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import {
+  checkNativeModel,
+  getInferenceEngine,
+  inferenceEngineProperty,
+  transformMinMax,
+} from '../shared/NativeInference';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnMinMaxScaler implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn MinMax Scaler',
@@ -20,6 +49,7 @@ export class SklearnMinMaxScaler implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -119,6 +149,7 @@ export class SklearnMinMaxScaler implements INodeType {
         description: 'Comma-separated list of feature column names',
         required: true,
       },
+      inferenceEngineProperty({ operation: ['transform', 'inverseTransform'] }),
       {
         displayName: 'Output Prefix',
         name: 'outputPrefix',
@@ -126,21 +157,24 @@ export class SklearnMinMaxScaler implements INodeType {
         default: 'scaled_',
         description: 'Prefix to add to scaled column names',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties({}, { operation: ['fit', 'fitTransform'] }),
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
     const outputPrefix = this.getNodeParameter('outputPrefix', 0) as string;
 
     try {
@@ -148,28 +182,27 @@ export class SklearnMinMaxScaler implements INodeType {
         const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
         const featureRangeMin = this.getNodeParameter('featureRangeMin', 0) as number;
         const featureRangeMax = this.getNodeParameter('featureRangeMax', 0) as number;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
+        const featureColumns = selectColumns.call(this, featureColumnsStr, items);
 
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          featureColumns,
+        );
+        const data = featureRows.rows;
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import MinMaxScaler
+${MODEL_METADATA_SCRIPT}
+${FEATURE_LIST_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array(data)
+data = payload['data']
+params = payload['params']
+X = np.array(data, dtype=float)
 
-scaler = MinMaxScaler(feature_range=(${featureRangeMin}, ${featureRangeMax}))
+scaler = MinMaxScaler(feature_range=tuple(params['feature_range']))
 scaler.fit(X)
 
 result = {
@@ -178,28 +211,29 @@ result = {
     'data_range': scaler.data_range_.tolist(),
     'scale': scaler.scale_.tolist(),
     'min': scaler.min_.tolist(),
-    'feature_range': [${featureRangeMin}, ${featureRangeMax}],
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'feature_range': params['feature_range'],
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation']
 }
 
-${operation === 'fitTransform' ? "result['transformed'] = scaler.transform(X).tolist()" : ''}
+if params['fit_transform']:
+    result['transformed'] = feature_list(scaler.transform(X))
+
+result['metadata'] = model_metadata(scaler, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          imputation: featureRows.imputation,
+          feature_dtypes: featureRows.dtypes,
+          params: {
+            feature_range: [featureRangeMin, featureRangeMax],
+            feature_columns: featureColumns,
+            fit_transform: operation === 'fitTransform',
+          },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
@@ -213,49 +247,67 @@ print(json.dumps(result))
               data_range: result.data_range,
               feature_range: result.feature_range,
               feature_columns: result.feature_columns,
-              fitted_samples: items.length,
+              fitted_samples: featureRows.items.length,
+              missing_values: featureRows.summary,
             },
           });
         } else {
-          for (let i = 0; i < items.length; i++) {
-            const newJson: any = { ...items[i].json };
+          for (let i = 0; i < featureRows.items.length; i++) {
+            const newJson: any = { ...featureRows.items[i].json };
             featureColumns.forEach((col, idx) => {
               newJson[`${outputPrefix}${col}`] = result.transformed[i][idx];
             });
             if (i === 0) {
               newJson.scaler = resultData;
+              newJson.missing_values = featureRows.summary;
             }
             returnData.push({ json: newJson });
           }
         }
 
       } else if (operation === 'transform' || operation === 'inverseTransform') {
-        const scalerDataStr = this.getNodeParameter('scalerData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const scalerData = JSON.parse(scalerDataStr);
+        const outputs = new Array<INodeExecutionData>(items.length);
+        const summaries: MissingValueSummary[] = [];
 
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        // Items may read different scalers, each transformed with its own
+        for (const group of await groupModelItems.call(this, 'scalerData')) {
+          const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', group.itemIndexes[0]) as string;
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items);
+          const scalerData = JSON.parse(group.modelJson);
+          const inverse = operation === 'inverseTransform';
 
-        const transformMethod = operation === 'inverseTransform' ? 'inverse_transform' : 'transform';
+          // Values recorded in training are not scaled, so inverse transforms cannot impute them
+          const featureRows = extractFeatureRows.call(
+            this,
+            group,
+            featureColumns,
+            { model: inverse ? {} : scalerData },
+          );
+          summaries.push(featureRows.summary);
+          const data = featureRows.rows as number[][];
 
-        const pythonScript = `
+          let transformed: number[][];
+          if (data.length === 0) {
+            transformed = [];
+          } else if (getInferenceEngine.call(this) === 'native') {
+            // Inverse transforms read scaled columns, so only the versions are checked
+            const warnings = checkNativeModel.call(this, scalerData, inverse ? null : featureColumns, serialization);
+            addModelWarnings.call(this, { model_warnings: warnings });
+            transformed = transformMinMax.call(this, scalerData, data, inverse);
+          } else {
+            const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import MinMaxScaler
+${MODEL_METADATA_SCRIPT}
+${FEATURE_LIST_SCRIPT}
+
+scaler_data = payload['scaler']
+data = payload['data']
+X = np.array(data, dtype=float)
 
-scaler_data = json.loads(sys.argv[1])
-data = json.loads(sys.argv[2])
-X = np.array(data)
+# Inverse transforms read scaled columns, so only the versions are checked
+check_model_metadata(scaler_data, None if payload['inverse'] else payload['feature_columns'])
 
 scaler = MinMaxScaler(feature_range=tuple(scaler_data['feature_range']))
 scaler.data_min_ = np.array(scaler_data['data_min'])
@@ -265,35 +317,39 @@ scaler.scale_ = np.array(scaler_data['scale'])
 scaler.min_ = np.array(scaler_data['min'])
 scaler.n_features_in_ = len(scaler_data['feature_columns'])
 
-result = {'transformed': scaler.${transformMethod}(X).tolist()}
+transformed = scaler.inverse_transform(X) if payload['inverse'] else scaler.transform(X)
+result = {'transformed': feature_list(transformed), 'model_warnings': MODEL_WARNINGS}
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, scalerDataStr, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+            const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+              scaler: scalerData,
+              data,
+              inverse,
+              feature_columns: featureColumns,
+              serialization,
+            });
 
-        const result = JSON.parse(resultData);
-        const prefix = operation === 'inverseTransform' ? 'original_' : outputPrefix;
+            const result = JSON.parse(resultData);
+            addModelWarnings.call(this, result);
+            transformed = result.transformed;
+          }
+          const prefix = inverse ? 'original_' : outputPrefix;
+          const transformedByItem = rowsByItem(featureRows, transformed, items.length);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
-          featureColumns.forEach((col, idx) => {
-            newJson[`${prefix}${col}`] = result.transformed[i][idx];
-          });
-          returnData.push({ json: newJson });
+          for (const i of group.itemIndexes) {
+            const newJson: any = { ...items[i].json };
+            const transformedFeatures = transformedByItem[i];
+            if (transformedFeatures) {
+              featureColumns.forEach((col, idx) => {
+                newJson[`${prefix}${col}`] = transformedFeatures[idx];
+              });
+            }
+            outputs[i] = { json: newJson };
+          }
         }
+        addMissingValueHints.call(this, summaries);
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -0,0 +1,311 @@
+import {
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeDescription,
+} from 'n8n-workflow';
+
+import { modelOutputProperties, readModelData, withModelOutput } from '../shared/ModelArtifacts';
+import { getModelRegistry, registryPathProperty, RegistryReference } from '../shared/ModelRegistry';
+import { assertAllowed } from '../shared/Validation';
+
+const PROMOTION_STAGES = ['staging', 'production', 'archived', 'none'] as const;
+const LATEST_STAGES = ['any', 'staging', 'production'] as const;
+
+export class SklearnModelRegistry implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Sklearn Model Registry',
+    name: 'sklearnModelRegistry',
+    icon: 'file:sklearn.svg',
+    group: ['transform'],
+    version: 1,
+    subtitle: '={{$parameter["operation"]}}',
+    description: 'Store trained models by name with versions and stages in a local directory',
+    defaults: {
+      name: 'Sklearn Model Registry',
+    },
+    inputs: ['main'],
+    outputs: ['main'],
+    properties: [
+      {
+        displayName: 'Operation',
+        name: 'operation',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'Delete',
+            value: 'delete',
+            description: 'Delete a version of a model',
+            action: 'Delete a model version',
+          },
+          {
+            name: 'Get Latest',
+            value: 'getLatest',
+            description: 'Get the latest version of a model',
+            action: 'Get the latest model version',
+          },
+          {
+            name: 'Get Version',
+            value: 'getVersion',
+            description: 'Get a version of a model by number',
+            action: 'Get a model version',
+          },
+          {
+            name: 'List',
+            value: 'list',
+            description: 'List the registered versions',
+            action: 'List model versions',
+          },
+          {
+            name: 'Promote to Stage',
+            value: 'promote',
+            description: 'Move a version to the staging, production or archived stage',
+            action: 'Promote a model version',
+          },
+          {
+            name: 'Register',
+            value: 'register',
+            description: 'Store a trained model as a new version',
+            action: 'Register a model',
+          },
+        ],
+        default: 'register',
+      },
+      registryPathProperty(),
+      {
+        displayName: 'Model Name',
+        name: 'modelName',
+        type: 'string',
+        displayOptions: {
+          show: {
+            operation: ['register', 'getLatest', 'getVersion', 'promote', 'delete'],
+          },
+        },
+        default: '',
+        placeholder: 'churn-classifier',
+        description: 'Name of the model. May contain letters, digits, dots, dashes and underscores.',
+        required: true,
+      },
+      {
+        displayName: 'Model Name',
+        name: 'modelName',
+        type: 'string',
+        displayOptions: {
+          show: {
+            operation: ['list'],
+          },
+        },
+        default: '',
+        placeholder: 'churn-classifier',
+        description: 'Name of the model to list the versions of. Leave empty to list every model.',
+      },
+      {
+        displayName: 'Model Source',
+        name: 'modelSource',
+        type: 'options',
+        displayOptions: {
+          show: {
+            operation: ['register'],
+          },
+        },
+        options: [
+          {
+            name: 'Binary Property',
+            value: 'binary',
+            description: 'Read the model from binary data of the input item',
+          },
+          {
+            name: 'JSON Parameter',
+            value: 'parameter',
+            description: 'Read the model from a JSON string parameter',
+          },
+        ],
+        default: 'binary',
+      },
+      {
+        displayName: 'Input Binary Property',
+        name: 'modelBinaryProperty',
+        type: 'string',
+        displayOptions: {
+          show: {
+            operation: ['register'],
+            modelSource: ['binary'],
+          },
+        },
+        default: 'model',
+        description: 'Name of the binary property holding the model',
+      },
+      {
+        displayName: 'Model Data',
+        name: 'modelData',
+        type: 'string',
+        displayOptions: {
+          show: {
+            operation: ['register'],
+            modelSource: ['parameter'],
+          },
+        },
+        default: '',
+        description: 'JSON string containing the trained model',
+        required: true,
+      },
+      {
+        displayName: 'Description',
+        name: 'versionDescription',
+        type: 'string',
+        displayOptions: {
+          show: {
+            operation: ['register'],
+          },
+        },
+        default: '',
+        description: 'Notes stored with the version',
+      },
+      {
+        displayName: 'Stage',
+        name: 'latestStage',
+        type: 'options',
+        displayOptions: {
+          show: {
+            operation: ['getLatest'],
+          },
+        },
+        options: [
+          {
+            name: 'Any',
+            value: 'any',
+            description: 'The most recently registered version',
+          },
+          {
+            name: 'Production',
+            value: 'production',
+            description: 'The version in the production stage',
+          },
+          {
+            name: 'Staging',
+            value: 'staging',
+            description: 'The version in the staging stage',
+          },
+        ],
+        default: 'any',
+      },
+      {
+        displayName: 'Version',
+        name: 'version',
+        type: 'number',
+        displayOptions: {
+          show: {
+            operation: ['getVersion', 'promote', 'delete'],
+          },
+        },
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 1,
+        required: true,
+      },
+      {
+        displayName: 'Stage',
+        name: 'stage',
+        type: 'options',
+        displayOptions: {
+          show: {
+            operation: ['promote'],
+          },
+        },
+        options: [
+          {
+            name: 'Archived',
+            value: 'archived',
+          },
+          {
+            name: 'None',
+            value: 'none',
+          },
+          {
+            name: 'Production',
+            value: 'production',
+            description: 'The version previously in production is archived',
+          },
+          {
+            name: 'Staging',
+            value: 'staging',
+            description: 'The version previously in staging is archived',
+          },
+        ],
+        default: 'production',
+      },
+      ...modelOutputProperties({ operation: ['getLatest', 'getVersion'] }),
+    ],
+  };
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const returnData: INodeExecutionData[] = [];
+    const operation = this.getNodeParameter('operation', 0) as string;
+
+    for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+      try {
+        const registry = getModelRegistry.call(this, itemIndex);
+        const name = this.getNodeParameter('modelName', itemIndex, '') as string;
+
+        if (operation === 'register') {
+          const modelJson = await readModelData.call(this, 'modelData', itemIndex);
+          const description = this.getNodeParameter('versionDescription', itemIndex, '') as string;
+          const info = await registry.register(name, modelJson, description);
+          returnData.push({ json: info });
+
+        } else if (operation === 'getLatest' || operation === 'getVersion') {
+          let reference: RegistryReference = {};
+          if (operation === 'getVersion') {
+            reference = { version: this.getNodeParameter('version', itemIndex) as number };
+          } else {
+            const stage = assertAllowed(
+              this.getNode(),
+              'latestStage',
+              this.getNodeParameter('latestStage', itemIndex, 'any'),
+              LATEST_STAGES,
+            );
+            if (stage !== 'any') reference = { stage };
+          }
+
+          const info = await registry.find(name, reference);
+          const modelJson = await registry.read(info);
+          const output = await withModelOutput.call(this, modelJson, `${name}-v${info.version}.json`, info);
+          returnData.push(output);
+
+        } else if (operation === 'list') {
+          for (const info of await registry.list(name || undefined)) {
+            returnData.push({ json: info });
+          }
+
+        } else if (operation === 'promote') {
+          const version = this.getNodeParameter('version', itemIndex) as number;
+          const stage = assertAllowed(
+            this.getNode(),
+            'stage',
+            this.getNodeParameter('stage', itemIndex),
+            PROMOTION_STAGES,
+          );
+          for (const info of await registry.promote(name, version, stage)) {
+            returnData.push({ json: info });
+          }
+
+        } else if (operation === 'delete') {
+          const version = this.getNodeParameter('version', itemIndex) as number;
+          const info = await registry.delete(name, version);
+          returnData.push({ json: { ...info, deleted: true } });
+        }
+      } catch (error) {
+        if (this.continueOnFail()) {
+          returnData.push({ json: { error: (error as Error).message } });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return [returnData];
+  }
+}
@@ -3,9 +3,34 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addMissingValueHints,
+  extractFeatureRows,
+  missingValueProperties,
+  MissingValueSummary,
+  rowsByItem,
+} from '../shared/MissingValues';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const INIT_METHODS = ['nndsvd', 'nndsvda', 'nndsvdar', 'random'] as const;
+
 export class SklearnNMF implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn NMF',
@@ -20,6 +45,7 @@ export class SklearnNMF implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -137,55 +163,56 @@ export class SklearnNMF implements INodeType {
         description: 'Comma-separated list of feature column names',
         required: true,
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties({}, { operation: ['fitTransform'] }),
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fitTransform') {
         const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
         const nComponents = this.getNodeParameter('nComponents', 0) as number;
-        const init = this.getNodeParameter('init', 0) as string;
+        const init = assertAllowed(this.getNode(), 'init', this.getNodeParameter('init', 0), INIT_METHODS);
         const maxIter = this.getNodeParameter('maxIter', 0) as number;
         const randomState = this.getNodeParameter('randomState', 0) as number;
 
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
+        const featureColumns = selectColumns.call(this, featureColumnsStr, items);
 
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          featureColumns,
+        );
+        const data = featureRows.rows;
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.decomposition import NMF
+${MODEL_METADATA_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
+params = payload['params']
 
 nmf = NMF(
-    n_components=${nComponents},
-    init='${init}',
-    max_iter=${maxIter},
-    random_state=${randomState}
+    n_components=params['n_components'],
+    init=params['init'],
+    max_iter=params['max_iter'],
+    random_state=params['random_state']
 )
 
 transformed = nmf.fit_transform(X)
@@ -195,32 +222,33 @@ result = {
     'components': nmf.components_.tolist(),
     'reconstruction_err': float(nmf.reconstruction_err_),
     'n_iter': int(nmf.n_iter_),
-    'n_components': ${nComponents},
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'n_components': params['n_components'],
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation']
 }
+result['metadata'] = model_metadata(nmf, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          imputation: featureRows.imputation,
+          feature_dtypes: featureRows.dtypes,
+          params: {
+            n_components: nComponents,
+            init,
+            max_iter: maxIter,
+            random_state: randomState,
+            feature_columns: featureColumns,
+          },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+        for (let i = 0; i < featureRows.items.length; i++) {
+          const newJson: any = { ...featureRows.items[i].json };
 
           for (let j = 0; j < result.n_components; j++) {
             newJson[`nmf_component_${j + 1}`] = result.transformed[i][j];
@@ -228,6 +256,7 @@ print(json.dumps(result))
 
           if (i === 0) {
             newJson.nmf = resultData;
+            newJson.missing_values = featureRows.summary;
             newJson.reconstruction_error = result.reconstruction_err;
             newJson.n_iterations = result.n_iter;
           }
@@ -236,69 +265,79 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform') {
-        const nmfDataStr = this.getNodeParameter('nmfData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const nmfInfo = JSON.parse(nmfDataStr);
-
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
-
-        const pythonScript = `
+        const outputs = new Array<INodeExecutionData>(items.length);
+        const summaries: MissingValueSummary[] = [];
+
+        // Items may read different models, each transformed with its own
+        for (const group of await groupModelItems.call(this, 'nmfData')) {
+          const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', group.itemIndexes[0]) as string;
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items);
+          const nmfInfo = JSON.parse(group.modelJson);
+
+          const featureRows = extractFeatureRows.call(
+            this,
+            group,
+            featureColumns,
+            { model: nmfInfo },
+          );
+          summaries.push(featureRows.summary);
+          const data = featureRows.rows;
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.decomposition import NMF
+${MODEL_METADATA_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
-nmf_data = json.loads(sys.argv[2])
+X = np.array(payload['data'], dtype=float)
+nmf_data = payload['nmf']
 
 nmf = NMF(n_components=nmf_data['n_components'])
 nmf.components_ = np.array(nmf_data['components'])
 nmf.n_components_ = nmf_data['n_components']
 
+check_model_metadata(nmf_data, payload['feature_columns'])
+
 transformed = nmf.transform(X)
 
 result = {
-    'transformed': transformed.tolist()
+    'transformed': transformed.tolist(),
+    'model_warnings': MODEL_WARNINGS
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data), nmfDataStr]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+          let transformed: number[][] = [];
+          if (data.length > 0) {
+            const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+              data,
+              nmf: nmfInfo,
+              feature_columns: featureColumns,
+              serialization,
+            });
+
+            const result = JSON.parse(resultData);
+            addModelWarnings.call(this, result);
+            transformed = result.transformed;
+          }
+          const transformedByItem = rowsByItem(featureRows, transformed, items.length);
 
-        const result = JSON.parse(resultData);
+          for (const i of group.itemIndexes) {
+            const newJson: any = { ...items[i].json };
+            const components = transformedByItem[i];
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+            if (components) {
+              for (let j = 0; j < components.length; j++) {
+                newJson[`nmf_component_${j + 1}`] = components[j];
+              }
+            }
 
-          for (let j = 0; j < result.transformed[i].length; j++) {
-            newJson[`nmf_component_${j + 1}`] = result.transformed[i][j];
+            outputs[i] = { json: newJson };
           }
-
-          returnData.push({ json: newJson });
         }
+        addMissingValueHints.call(this, summaries);
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -6,6 +6,25 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const HANDLE_UNKNOWN = ['error', 'ignore'] as const;
+
 export class SklearnOneHotEncoder implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn One Hot Encoder',
@@ -20,6 +39,7 @@ export class SklearnOneHotEncoder implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -111,33 +131,40 @@ export class SklearnOneHotEncoder implements INodeType {
         description: 'Comma-separated list of columns to transform',
         required: true,
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fitTransform') {
         const columnsStr = this.getNodeParameter('columns', 0) as string;
         const dropFirst = this.getNodeParameter('dropFirst', 0) as boolean;
-        const handleUnknown = this.getNodeParameter('handleUnknown', 0) as string;
-        const columns = columnsStr.split(',').map((col) => col.trim());
+        const handleUnknown = assertAllowed(
+          this.getNode(),
+          'handleUnknown',
+          this.getNodeParameter('handleUnknown', 0),
+          HANDLE_UNKNOWN,
+        );
+        const columns = selectColumns.call(this, columnsStr, items, { numeric: false });
 
         const data = items.map((item, idx) => {
           const row: Record<string, any> = {};
           columns.forEach((col) => {
-            const value = item.json[col];
+            const value = columnValue(item.json, col);
             if (value === undefined || value === null) {
               throw new NodeOperationError(this.getNode(), `Column '${col}' not found`, { itemIndex: idx });
             }
@@ -148,19 +175,20 @@ export class SklearnOneHotEncoder implements INodeType {
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import OneHotEncoder
+${MODEL_METADATA_SCRIPT}
 
-data = json.loads(sys.argv[1])
-columns = ${JSON.stringify(columns)}
+data = payload['data']
+params = payload['params']
+columns = params['columns']
 
 # Build array for each column
 X = np.array([[row[col] for col in columns] for row in data])
 
 encoder = OneHotEncoder(
-    drop='first' if ${dropFirst ? 'True' : 'False'} else None,
-    handle_unknown='${handleUnknown}',
+    drop='first' if params['drop_first'] else None,
+    handle_unknown=params['handle_unknown'],
     sparse_output=False
 )
 
@@ -179,26 +207,18 @@ result = {
     'feature_names': feature_names,
     'categories': categories,
     'columns': columns,
-    'drop_first': ${dropFirst ? 'True' : 'False'},
-    'handle_unknown': '${handleUnknown}'
+    'drop_first': params['drop_first'],
+    'handle_unknown': params['handle_unknown']
 }
+result['metadata'] = model_metadata(encoder, X, columns, result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          params: { columns, drop_first: dropFirst, handle_unknown: handleUnknown },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
@@ -222,33 +242,38 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform') {
-        const encoderDataStr = this.getNodeParameter('encoderData', 0) as string;
-        const columnsStr = this.getNodeParameter('transformColumns', 0) as string;
-        const columns = columnsStr.split(',').map((col) => col.trim());
-        const encoderInfo = JSON.parse(encoderDataStr);
-
-        const data = items.map((item, idx) => {
-          const row: Record<string, any> = {};
-          columns.forEach((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Column '${col}' not found`, { itemIndex: idx });
-            }
-            row[col] = String(value);
+        const outputs = new Array<INodeExecutionData>(items.length);
+
+        // Items may read different encoders, each applied with its own
+        for (const group of await groupModelItems.call(this, 'encoderData')) {
+          const columnsStr = this.getNodeParameter('transformColumns', group.itemIndexes[0]) as string;
+          const columns = selectColumns.call(this, columnsStr, group.items, { numeric: false });
+          const encoderInfo = JSON.parse(group.modelJson);
+
+          const data = group.items.map((item, k) => {
+            const row: Record<string, any> = {};
+            columns.forEach((col) => {
+              const value = columnValue(item.json, col);
+              if (value === undefined || value === null) {
+                throw new NodeOperationError(this.getNode(), `Column '${col}' not found`, { itemIndex: group.itemIndexes[k] });
+              }
+              row[col] = String(value);
+            });
+            return row;
           });
-          return row;
-        });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import OneHotEncoder
+${MODEL_METADATA_SCRIPT}
 
-data = json.loads(sys.argv[1])
-encoder_data = json.loads(sys.argv[2])
+data = payload['data']
+encoder_data = payload['encoder']
 columns = encoder_data['columns']
 
+check_model_metadata(encoder_data, payload['columns'])
+
 X = np.array([[row[col] for col in columns] for row in data])
 
 # Reconstruct encoder
@@ -266,38 +291,34 @@ feature_names = encoder.get_feature_names_out(columns).tolist()
 
 result = {
     'encoded': encoded.tolist(),
-    'feature_names': feature_names
+    'feature_names': feature_names,
+    'model_warnings': MODEL_WARNINGS
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data), encoderDataStr]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            data,
+            encoder: encoderInfo,
+            columns,
+            serialization,
           });
-        });
 
-        const result = JSON.parse(resultData);
+          const result = JSON.parse(resultData);
+          addModelWarnings.call(this, result);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+          for (let i = 0; i < group.items.length; i++) {
+            const newJson: any = { ...group.items[i].json };
 
-          result.feature_names.forEach((name: string, idx: number) => {
-            newJson[name] = result.encoded[i][idx];
-          });
+            result.feature_names.forEach((name: string, idx: number) => {
+              newJson[name] = result.encoded[i][idx];
+            });
 
-          returnData.push({ json: newJson });
+            outputs[group.itemIndexes[i]] = { json: newJson };
+          }
         }
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
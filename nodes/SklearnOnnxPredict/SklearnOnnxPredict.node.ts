@@ -0,0 +1,346 @@
+import { createHash } from 'crypto';
+import {
+  IDataObject,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeDescription,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { selectColumns } from '../shared/ColumnSelection';
+import {
+  addMissingValueHints,
+  extractFeatureRows,
+  missingValueProperties,
+  MissingValueSummary,
+} from '../shared/MissingValues';
+import { binaryModelItem } from '../shared/ModelArtifacts';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const ONNX_RUNTIMES = ['python', 'node'] as const;
+
+/** Package running the models in n8n, which is not a dependency of this package */
+const ONNX_RUNTIME_MODULE = 'onnxruntime-node';
+
+/**
+ * The parts of the onnxruntime-node API used to run the models.
+ */
+interface OnnxTensor {
+  data: ArrayLike<unknown>;
+}
+
+interface OnnxSession {
+  inputNames: readonly string[];
+  outputNames: readonly string[];
+  run(feeds: Record<string, OnnxTensor>): Promise<Record<string, OnnxTensor>>;
+  release?(): Promise<void>;
+}
+
+interface OnnxRuntime {
+  InferenceSession: { create(model: Uint8Array): Promise<OnnxSession> };
+  Tensor: new (type: 'float32', data: Float32Array, dims: number[]) => OnnxTensor;
+}
+
+interface OnnxGroup {
+  model: Buffer;
+  featureColumns: string[];
+  itemIndexes: number[];
+  features: number[][];
+  summary: MissingValueSummary;
+}
+
+/**
+ * Groups the input items by the content of their ONNX model and by their
+ * feature columns, and reads their features with the Missing Values policy.
+ * The items the policy leaves out are not part of any group.
+ */
+async function groupOnnxItems(this: IExecuteFunctions, property: string): Promise<OnnxGroup[]> {
+  const items = this.getInputData();
+  const groups = new Map<string, { model: Buffer; featureColumns: string[]; itemIndexes: number[] }>();
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const modelItem = binaryModelItem.call(this, itemIndex, property);
+    this.helpers.assertBinaryData(modelItem, property);
+    const model = await this.helpers.getBinaryDataBuffer(modelItem, property);
+    const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+    const featureColumns = selectColumns.call(this, featureColumnsStr, [items[itemIndex]]);
+
+    const hash = createHash('sha256').update(model).digest('hex');
+    const key = `${hash}:${JSON.stringify(featureColumns)}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { model, featureColumns, itemIndexes: [] };
+      groups.set(key, group);
+    }
+    group.itemIndexes.push(itemIndex);
+  }
+
+  return [...groups.values()].map(({ model, featureColumns, itemIndexes }) => {
+    if (this.getNodeParameter('missingValues', itemIndexes[0], 'error') === 'impute') {
+      throw new NodeOperationError(this.getNode(), 'ONNX models record no values to impute', {
+        description: 'Set Missing Values to error, drop rows or pass them as NaN',
+        itemIndex: itemIndexes[0],
+      });
+    }
+    const featureRows = extractFeatureRows.call(
+      this,
+      { items: itemIndexes.map((itemIndex) => items[itemIndex]), itemIndexes },
+      featureColumns,
+      { model: {} },
+    );
+    return {
+      model,
+      featureColumns,
+      itemIndexes: featureRows.itemIndexes,
+      features: featureRows.rows as number[][],
+      summary: featureRows.summary,
+    };
+  });
+}
+
+/**
+ * Columns of the features fed to each model input. A model with a single input
+ * receives every feature column, and a model with one input per feature
+ * column, as exported by the trainer nodes, receives each column by name.
+ */
+function onnxInputColumns(
+  this: IExecuteFunctions,
+  inputNames: readonly string[],
+  featureColumns: string[],
+): Record<string, number[]> {
+  if (inputNames.length === 1) {
+    return { [inputNames[0]]: featureColumns.map((_, j) => j) };
+  }
+  if (
+    inputNames.length === featureColumns.length &&
+    inputNames.every((name) => featureColumns.includes(name))
+  ) {
+    return Object.fromEntries(inputNames.map((name) => [name, [featureColumns.indexOf(name)]]));
+  }
+  throw new NodeOperationError(
+    this.getNode(),
+    `The ONNX model expects the inputs ${inputNames.join(', ')}, but the feature columns are ${featureColumns.join(', ')}`,
+  );
+}
+
+/**
+ * Runs the models with the onnxruntime-node package, loaded on first use.
+ */
+async function runNodeOnnx(this: IExecuteFunctions, groups: OnnxGroup[]): Promise<IDataObject[]> {
+  let ort: OnnxRuntime;
+  try {
+    ort = (await import(ONNX_RUNTIME_MODULE)) as OnnxRuntime;
+  } catch {
+    throw new NodeOperationError(this.getNode(), 'The onnxruntime-node package is not installed', {
+      description: 'Install it in the n8n environment or set Runtime to Python',
+    });
+  }
+
+  const results: IDataObject[] = [];
+  for (const group of groups) {
+    const session = await ort.InferenceSession.create(group.model);
+    try {
+      const columns = onnxInputColumns.call(this, session.inputNames, group.featureColumns);
+      const feeds: Record<string, OnnxTensor> = {};
+      for (const [name, indexes] of Object.entries(columns)) {
+        const data = Float32Array.from(group.features.flatMap((row) => indexes.map((j) => row[j])));
+        feeds[name] = new ort.Tensor('float32', data, [group.features.length, indexes.length]);
+      }
+
+      const outputs = await session.run(feeds);
+      const result: IDataObject = {};
+      for (const name of session.outputNames) {
+        const values = Array.from(outputs[name].data, (value) =>
+          typeof value === 'bigint' ? Number(value) : value,
+        );
+        const width = values.length / group.features.length;
+        result[name] = group.features.map((_, row) => values.slice(row * width, (row + 1) * width));
+      }
+      results.push(result);
+    } finally {
+      await session.release?.();
+    }
+  }
+  return results;
+}
+
+export class SklearnOnnxPredict implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Sklearn ONNX Predict',
+    name: 'sklearnOnnxPredict',
+    icon: 'file:sklearn.svg',
+    group: ['transform'],
+    version: 1,
+    description: 'Make predictions with a model exported to ONNX',
+    defaults: {
+      name: 'Sklearn ONNX Predict',
+    },
+    inputs: ['main'],
+    outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
+    properties: [
+      {
+        displayName: 'Runtime',
+        name: 'onnxRuntime',
+        type: 'options',
+        options: [
+          {
+            name: 'Python (Onnxruntime)',
+            value: 'python',
+            description: 'Run the model with the onnxruntime package of the Python environment',
+          },
+          {
+            name: 'Node.js (Onnxruntime-Node)',
+            value: 'node',
+            description: 'Run the model in n8n with the onnxruntime-node package, without Python',
+          },
+        ],
+        default: 'python',
+      },
+      {
+        displayName: 'Input Binary Property',
+        name: 'onnxBinaryProperty',
+        type: 'string',
+        default: 'onnx',
+        description: 'Name of the binary property of each input item holding the ONNX model',
+      },
+      {
+        displayName: 'Feature Columns',
+        name: 'featureColumns',
+        type: 'string',
+        default: '',
+        placeholder: 'feature1,feature2,feature3',
+        description:
+          'Comma-separated list of feature column names. Models exported by the trainer nodes have one input per feature column, named like the column.',
+        required: true,
+      },
+      {
+        displayName: 'Include All Outputs',
+        name: 'includeAllOutputs',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to add every output of the model to the items under onnx_outputs',
+      },
+      ...missingValueProperties(),
+      ...pythonRuntimeProperties,
+    ],
+  };
+
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const returnData: INodeExecutionData[] = [];
+    const runtimeName = assertAllowed(
+      this.getNode(),
+      'onnxRuntime',
+      this.getNodeParameter('onnxRuntime', 0, 'python'),
+      ONNX_RUNTIMES,
+    );
+    const property = this.getNodeParameter('onnxBinaryProperty', 0, 'onnx') as string;
+    const includeAllOutputs = this.getNodeParameter('includeAllOutputs', 0, false) as boolean;
+
+    try {
+      const allGroups = await groupOnnxItems.call(this, property);
+      addMissingValueHints.call(this, allGroups.map((group) => group.summary));
+      const groups = allGroups.filter((group) => group.features.length > 0);
+
+      let results: IDataObject[] = [];
+      if (groups.length > 0 && runtimeName === 'node') {
+        results = await runNodeOnnx.call(this, groups);
+      } else if (groups.length > 0) {
+        const runtime = await getPythonRuntime.call(this);
+        const pythonScript = `
+import base64
+import json
+import numpy as np
+try:
+    import onnxruntime as rt
+except ImportError:
+    raise ImportError('ONNX Predict requires the onnxruntime package in the Python environment')
+
+def input_columns(input_names, feature_columns):
+    if len(input_names) == 1:
+        return {input_names[0]: list(range(len(feature_columns)))}
+    if len(input_names) == len(feature_columns) and set(input_names) == set(feature_columns):
+        return {name: [feature_columns.index(name)] for name in input_names}
+    raise ValueError('The ONNX model expects the inputs ' + ', '.join(input_names) + ', but the feature columns are ' + ', '.join(feature_columns))
+
+results = []
+for group in payload['groups']:
+    session = rt.InferenceSession(base64.b64decode(group['model']), providers=['CPUExecutionProvider'])
+    X = np.array(group['features'], dtype=np.float32)
+    columns = input_columns([node.name for node in session.get_inputs()], group['feature_columns'])
+    feeds = {name: X[:, indexes] for name, indexes in columns.items()}
+    outputs = session.run(None, feeds)
+    results.append({
+        node.name: np.asarray(value).reshape(len(X), -1).tolist()
+        for node, value in zip(session.get_outputs(), outputs)
+    })
+
+print(json.dumps({'groups': results}))
+`;
+
+        const output = await runPythonScript.call(this, runtime, pythonScript, {
+          groups: groups.map((group) => ({
+            model: group.model.toString('base64'),
+            features: group.features,
+            feature_columns: group.featureColumns,
+          })),
+        });
+        results = (JSON.parse(output) as { groups: IDataObject[] }).groups;
+      }
+
+      const outputs = new Array<IDataObject>(items.length);
+      groups.forEach((group, g) => {
+        group.itemIndexes.forEach((itemIndex, row) => {
+          outputs[itemIndex] = Object.fromEntries(
+            Object.entries(results[g]).map(([name, rows]) => {
+              const values = (rows as unknown[][])[row];
+              return [name, values.length === 1 ? values[0] : values];
+            }),
+          ) as IDataObject;
+        });
+      });
+
+      for (let i = 0; i < items.length; i++) {
+        // Items left out by the missing value policy pass through without a prediction
+        if (!outputs[i]) {
+          returnData.push({ json: { ...items[i].json } });
+          continue;
+        }
+        const names = Object.keys(outputs[i]);
+        const outputJson: any = { ...items[i].json, prediction: outputs[i][names[0]] };
+
+        if (outputs[i].probabilities !== undefined) {
+          outputJson.probabilities = outputs[i].probabilities;
+        }
+        if (includeAllOutputs) {
+          outputJson.onnx_outputs = outputs[i];
+        }
+
+        returnData.push({ json: outputJson });
+      }
+    } catch (error) {
+      if (this.continueOnFail()) {
+        returnData.push({ json: { error: (error as Error).message } });
+      } else {
+        throw error;
+      }
+    }
+
+    return [returnData];
+  }
+}
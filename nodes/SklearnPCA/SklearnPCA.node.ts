@@ -3,9 +3,31 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addMissingValueHints,
+  extractFeatureRows,
+  missingValueProperties,
+  MissingValueSummary,
+  rowsByItem,
+} from '../shared/MissingValues';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnPCA implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn PCA',
@@ -20,6 +42,7 @@ export class SklearnPCA implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -65,7 +88,8 @@ export class SklearnPCA implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -121,50 +145,49 @@ export class SklearnPCA implements INodeType {
         description: 'Comma-separated list of principal component column names',
         required: true,
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties({}, { operation: ['fit', 'fitTransform'] }),
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fit' || operation === 'fitTransform') {
         const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
         const nComponents = this.getNodeParameter('nComponents', 0) as number;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const featureColumns = selectColumns.call(this, featureColumnsStr, items);
 
-        const nComp = nComponents === 0 ? 'None' : String(nComponents);
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          featureColumns,
+        );
+        const data = featureRows.rows;
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.decomposition import PCA
+${MODEL_METADATA_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array(data)
+data = payload['data']
+params = payload['params']
+X = np.array(data, dtype=float)
 
-n_components = ${nComp}
+n_components = params['n_components'] or None
 if n_components is None or n_components > min(X.shape):
     n_components = min(X.shape)
 
@@ -179,27 +202,28 @@ result = {
     'mean': pca.mean_.tolist(),
     'n_components': int(pca.n_components_),
     'n_features': int(pca.n_features_in_),
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation']
 }
 
-${operation === 'fitTransform' ? "result['transformed'] = pca.transform(X).tolist()" : ''}
+if params['fit_transform']:
+    result['transformed'] = pca.transform(X).tolist()
+
+result['metadata'] = model_metadata(pca, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          imputation: featureRows.imputation,
+          feature_dtypes: featureRows.dtypes,
+          params: {
+            n_components: nComponents,
+            feature_columns: featureColumns,
+            fit_transform: operation === 'fitTransform',
+          },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
@@ -212,17 +236,19 @@ print(json.dumps(result))
               explained_variance_ratio: result.explained_variance_ratio,
               cumulative_variance_ratio: result.cumulative_variance_ratio,
               feature_columns: result.feature_columns,
-              fitted_samples: items.length,
+              fitted_samples: featureRows.items.length,
+              missing_values: featureRows.summary,
             },
           });
         } else {
-          for (let i = 0; i < items.length; i++) {
-            const newJson: any = { ...items[i].json };
+          for (let i = 0; i < featureRows.items.length; i++) {
+            const newJson: any = { ...featureRows.items[i].json };
             for (let j = 0; j < result.n_components; j++) {
               newJson[`PC${j + 1}`] = result.transformed[i][j];
             }
             if (i === 0) {
               newJson.pca_model = resultData;
+              newJson.missing_values = featureRows.summary;
               newJson.explained_variance_ratio = result.explained_variance_ratio;
               newJson.cumulative_variance_ratio = result.cumulative_variance_ratio;
             }
@@ -231,30 +257,33 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform') {
-        const pcaDataStr = this.getNodeParameter('pcaData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('transformColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const pcaData = JSON.parse(pcaDataStr);
-
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
-
-        const pythonScript = `
+        const outputs = new Array<INodeExecutionData>(items.length);
+        const summaries: MissingValueSummary[] = [];
+
+        // Items may read different models, each transformed with its own
+        for (const group of await groupModelItems.call(this, 'pcaData')) {
+          const featureColumnsStr = this.getNodeParameter('transformColumns', group.itemIndexes[0]) as string;
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items);
+          const pcaData = JSON.parse(group.modelJson);
+
+          const featureRows = extractFeatureRows.call(
+            this,
+            group,
+            featureColumns,
+            { model: pcaData },
+          );
+          summaries.push(featureRows.summary);
+          const data = featureRows.rows;
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.decomposition import PCA
+${MODEL_METADATA_SCRIPT}
 
-pca_data = json.loads(sys.argv[1])
-data = json.loads(sys.argv[2])
-X = np.array(data)
+pca_data = payload['pca']
+data = payload['data']
+X = np.array(data, dtype=float)
 
 pca = PCA(n_components=pca_data['n_components'])
 pca.components_ = np.array(pca_data['components'])
@@ -262,97 +291,112 @@ pca.mean_ = np.array(pca_data['mean'])
 pca.explained_variance_ = np.array(pca_data['explained_variance'])
 pca.n_features_in_ = pca_data['n_features']
 
+check_model_metadata(pca_data, payload['feature_columns'])
+
 transformed = pca.transform(X)
 
-print(json.dumps({'transformed': transformed.tolist()}))
+print(json.dumps({'transformed': transformed.tolist(), 'model_warnings': MODEL_WARNINGS}))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, pcaDataStr, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const result = JSON.parse(resultData);
+          let transformed: number[][] = [];
+          if (data.length > 0) {
+            const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+              pca: pcaData,
+              data,
+              feature_columns: featureColumns,
+              serialization,
+            });
+
+            const result = JSON.parse(resultData);
+            addModelWarnings.call(this, result);
+            transformed = result.transformed;
+          }
+          const transformedByItem = rowsByItem(featureRows, transformed, items.length);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
-          for (let j = 0; j < pcaData.n_components; j++) {
-            newJson[`PC${j + 1}`] = result.transformed[i][j];
+          for (const i of group.itemIndexes) {
+            const newJson: any = { ...items[i].json };
+            const components = transformedByItem[i];
+            if (components) {
+              for (let j = 0; j < pcaData.n_components; j++) {
+                newJson[`PC${j + 1}`] = components[j];
+              }
+            }
+            outputs[i] = { json: newJson };
           }
-          returnData.push({ json: newJson });
         }
-
+        addMissingValueHints.call(this, summaries);
+        returnData.push(...outputs);
       } else if (operation === 'inverseTransform') {
-        const pcaDataStr = this.getNodeParameter('pcaData', 0) as string;
-        const pcColumnsStr = this.getNodeParameter('pcColumns', 0) as string;
-        const pcColumns = pcColumnsStr.split(',').map((col) => col.trim());
-        const pcaData = JSON.parse(pcaDataStr);
-
-        const data = items.map((item, idx) => {
-          return pcColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
-
-        const pythonScript = `
+        const outputs = new Array<INodeExecutionData>(items.length);
+        const summaries: MissingValueSummary[] = [];
+
+        // Items may read different models, each transformed with its own
+        for (const group of await groupModelItems.call(this, 'pcaData')) {
+          const pcColumnsStr = this.getNodeParameter('pcColumns', group.itemIndexes[0]) as string;
+          const pcColumns = selectColumns.call(this, pcColumnsStr, group.items);
+          const pcaData = JSON.parse(group.modelJson);
+
+          // Values recorded in training are not components, so inverse transforms cannot impute them
+          const featureRows = extractFeatureRows.call(
+            this,
+            group,
+            pcColumns,
+            { model: {} },
+          );
+          summaries.push(featureRows.summary);
+          const data = featureRows.rows;
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.decomposition import PCA
+${MODEL_METADATA_SCRIPT}
 
-pca_data = json.loads(sys.argv[1])
-data = json.loads(sys.argv[2])
-X = np.array(data)
+pca_data = payload['pca']
+data = payload['data']
+X = np.array(data, dtype=float)
 
 pca = PCA(n_components=pca_data['n_components'])
 pca.components_ = np.array(pca_data['components'])
 pca.mean_ = np.array(pca_data['mean'])
 pca.n_features_in_ = pca_data['n_features']
 
+# Inverse transforms read components, so only the versions are checked
+check_model_metadata(pca_data)
+
 reconstructed = pca.inverse_transform(X)
 
-print(json.dumps({'reconstructed': reconstructed.tolist()}))
+print(json.dumps({'reconstructed': reconstructed.tolist(), 'model_warnings': MODEL_WARNINGS}))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, pcaDataStr, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const result = JSON.parse(resultData);
-        const featureColumns = pcaData.feature_columns;
+          let reconstructed: number[][] = [];
+          if (data.length > 0) {
+            const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+              pca: pcaData,
+              data,
+              serialization,
+            });
+
+            const result = JSON.parse(resultData);
+            addModelWarnings.call(this, result);
+            reconstructed = result.reconstructed;
+          }
+          const featureColumns = pcaData.feature_columns;
+          const reconstructedByItem = rowsByItem(featureRows, reconstructed, items.length);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
-          featureColumns.forEach((col: string, idx: number) => {
-            newJson[`reconstructed_${col}`] = result.reconstructed[i][idx];
-          });
-          returnData.push({ json: newJson });
+          for (const i of group.itemIndexes) {
+            const newJson: any = { ...items[i].json };
+            const features = reconstructedByItem[i];
+            if (features) {
+              featureColumns.forEach((col: string, idx: number) => {
+                newJson[`reconstructed_${col}`] = features[idx];
+              });
+            }
+            outputs[i] = { json: newJson };
+          }
         }
+        addMissingValueHints.call(this, summaries);
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
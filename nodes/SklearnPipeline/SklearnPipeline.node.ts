@@ -1,4 +1,5 @@
 import {
+  IDataObject,
   IExecuteFunctions,
   INodeExecutionData,
   INodeType,
@@ -6,13 +7,216 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import { pythonClassRegistry } from '../shared/Estimators';
+import {
+  FEATURE_ARRAY_SCRIPT,
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import {
+  modelOutputProperties,
+  modelSourceProperties,
+  withModelOutput,
+} from '../shared/ModelArtifacts';
+import {
+  getModelSerialization,
+  MODEL_SERIALIZATION_SCRIPT,
+  modelSerializationProperties,
+  modelSigningCredentials,
+} from '../shared/ModelSerialization';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import {
+  parseStepParameters,
+  PIPELINE_STEPS_SCRIPT,
+  PipelineStep,
+  pipelineStepsProperty,
+  resolvePipelineSteps,
+} from '../shared/PipelineSteps';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const ESTIMATORS = [
+  'LogisticRegression',
+  'RandomForestClassifier',
+  'RandomForestRegressor',
+  'LinearRegression',
+  'SVC',
+  'SVR',
+  'GradientBoostingClassifier',
+  'GradientBoostingRegressor',
+] as const;
+const ESTIMATOR_OPTIONS = ['none', ...ESTIMATORS] as const;
+const TREE_ENSEMBLES = [
+  'RandomForestClassifier',
+  'RandomForestRegressor',
+  'GradientBoostingClassifier',
+  'GradientBoostingRegressor',
+];
+
+/**
+ * Scikit-learn parameter set by each Estimator Option, and the estimators
+ * accepting it.
+ */
+const ESTIMATOR_OPTION_PARAMS: Record<string, { param: string; estimators: readonly string[] }> = {
+  C: { param: 'C', estimators: ['LogisticRegression', 'SVC', 'SVR'] },
+  maxIter: { param: 'max_iter', estimators: ['LogisticRegression'] },
+  kernel: { param: 'kernel', estimators: ['SVC', 'SVR'] },
+  fitIntercept: { param: 'fit_intercept', estimators: ['LinearRegression', 'LogisticRegression'] },
+  nEstimators: { param: 'n_estimators', estimators: TREE_ENSEMBLES },
+  maxDepth: { param: 'max_depth', estimators: TREE_ENSEMBLES },
+  learningRate: { param: 'learning_rate', estimators: ['GradientBoostingClassifier', 'GradientBoostingRegressor'] },
+  randomState: { param: 'random_state', estimators: ['LogisticRegression', ...TREE_ENSEMBLES] },
+};
+
+/**
+ * Keyword arguments of the final estimator: the Estimator Options, overridden
+ * by the Estimator Parameters JSON.
+ */
+function estimatorParameters(this: IExecuteFunctions, itemIndex: number, estimator: string): IDataObject {
+  const options = this.getNodeParameter('estimatorOptions', itemIndex, {}) as IDataObject;
+  const kwargs: IDataObject = {};
+  for (const [name, value] of Object.entries(options)) {
+    const option = ESTIMATOR_OPTION_PARAMS[name];
+    // A max depth of 0 keeps the estimator default
+    if (!option?.estimators.includes(estimator) || (name === 'maxDepth' && value === 0)) continue;
+    kwargs[option.param] = value;
+  }
+  const json = this.getNodeParameter('estimatorParameters', itemIndex, '') as string;
+  return { ...kwargs, ...parseStepParameters.call(this, json, 'Estimator Parameters') };
+}
+
+const LEGACY_PREPROCESSORS = [
+  'StandardScaler',
+  'MinMaxScaler',
+  'RobustScaler',
+  'Normalizer',
+  'PCA',
+  'PolynomialFeatures',
+] as const;
+
+/**
+ * Steps of version 1 of the node, which chains the Preprocessors in the order
+ * of the parameter value, with the PCA Components and Polynomial Degree.
+ */
+function legacyPipelineSteps(this: IExecuteFunctions, itemIndex: number): PipelineStep[] {
+  const preprocessors = this.getNodeParameter('preprocessors', itemIndex, ['StandardScaler']) as string[];
+  return preprocessors.map((value, position) => {
+    const type = assertAllowed(this.getNode(), 'preprocessors', value, LEGACY_PREPROCESSORS);
+    const kwargs: IDataObject = {};
+    if (type === 'PCA') kwargs.n_components = this.getNodeParameter('pcaComponents', itemIndex, 2) as number;
+    if (type === 'PolynomialFeatures') kwargs.degree = this.getNodeParameter('polyDegree', itemIndex, 2) as number;
+    return { name: `${type.toLowerCase()}_${position}`, type, kwargs };
+  });
+}
+
+const COLUMN_TRANSFORMERS = [
+  'StandardScaler',
+  'MinMaxScaler',
+  'RobustScaler',
+  'SimpleImputer',
+  'OneHotEncoder',
+  'OrdinalEncoder',
+  'TfidfVectorizer',
+] as const;
+/** Column transformers reading the unparsed values of their columns */
+const RAW_TRANSFORMERS: readonly string[] = ['SimpleImputer', 'OneHotEncoder', 'OrdinalEncoder', 'TfidfVectorizer'];
+const IMPUTE_STRATEGIES = ['mean', 'median', 'most_frequent'] as const;
+const REMAINDERS = ['passthrough', 'drop'] as const;
+
+/**
+ * Python helpers building the ColumnTransformer of the Column Transformers
+ * parameter, and replacing missing values of TF-IDF columns by empty texts.
+ */
+const COLUMN_TRANSFORMER_SCRIPT = `from sklearn.compose import ColumnTransformer
+${pythonClassRegistry('COLUMN_TRANSFORMERS', COLUMN_TRANSFORMERS)}
+
+def column_transformer(specs, feature_columns, remainder):
+    transformers = []
+    for i, spec in enumerate(specs):
+        name = f"{spec['transformer'].lower()}_{i}"
+        indexes = [feature_columns.index(col) for col in spec['columns']]
+        if spec['transformer'] == 'TfidfVectorizer':
+            # Vectorizers read a single column of texts, selected by a scalar index
+            for j, index in enumerate(indexes):
+                transformers.append((f'{name}_{j}', COLUMN_TRANSFORMERS['TfidfVectorizer'](**spec['kwargs']), index))
+        else:
+            transformers.append((name, COLUMN_TRANSFORMERS[spec['transformer']](**spec['kwargs']), indexes))
+    return ColumnTransformer(transformers, remainder=remainder, sparse_threshold=0)
+
+def fill_text_columns(X, specs, feature_columns):
+    text_columns = [col for spec in specs or [] if spec['transformer'] == 'TfidfVectorizer' for col in spec['columns']]
+    if not text_columns:
+        return X
+    X = X.astype(object)
+    for col in text_columns:
+        j = feature_columns.index(col)
+        X[:, j] = ['' if value is None or value != value else str(value) for value in X[:, j]]
+    return X`;
+
+interface ColumnTransformerSpec extends IDataObject {
+  transformer: (typeof COLUMN_TRANSFORMERS)[number];
+  columns: string[];
+  kwargs: IDataObject;
+}
+
+/**
+ * Resolves the columns and keyword arguments of the Column Transformers
+ * parameter. Encoders, imputers and vectorizers may select columns of any type.
+ */
+function columnTransformerSpecs(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+  itemIndex: number,
+  targetColumn: string,
+): ColumnTransformerSpec[] {
+  const collection = this.getNodeParameter('columnTransformers', itemIndex, {}) as { transformers?: IDataObject[] };
+  return (collection.transformers ?? []).map((entry) => {
+    const transformer = assertAllowed(this.getNode(), 'transformer', entry.transformer, COLUMN_TRANSFORMERS);
+    const columns = selectColumns.call(this, entry.columns as string, items, {
+      exclude: [targetColumn],
+      numeric: !RAW_TRANSFORMERS.includes(transformer),
+    });
+
+    const kwargs: IDataObject = {};
+    if (transformer === 'SimpleImputer') {
+      kwargs.strategy = assertAllowed(this.getNode(), 'imputeStrategy', entry.imputeStrategy, IMPUTE_STRATEGIES);
+    } else if (transformer === 'OneHotEncoder') {
+      kwargs.handle_unknown = 'ignore';
+    } else if (transformer === 'OrdinalEncoder') {
+      kwargs.handle_unknown = 'use_encoded_value';
+      kwargs.unknown_value = -1;
+    } else if (transformer === 'TfidfVectorizer') {
+      kwargs.max_features = (entry.maxFeatures as number) || null;
+    }
+    return { transformer, columns, kwargs };
+  });
+}
+
 export class SklearnPipeline implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Pipeline',
     name: 'sklearnPipeline',
     icon: 'file:sklearn.svg',
     group: ['transform'],
-    version: 1,
+    version: [1, 2],
+    defaultVersion: 2,
     subtitle: '={{$parameter["operation"]}}',
     description: 'Create and use sklearn pipelines chaining transformers and estimators',
     defaults: {
@@ -20,6 +224,7 @@ export class SklearnPipeline implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: [...pythonEnvironmentCredentials, ...modelSigningCredentials],
     properties: [
       {
         displayName: 'Operation',
@@ -45,6 +250,12 @@ export class SklearnPipeline implements INodeType {
             description: 'Transform data (for transformer-only pipelines)',
             action: 'Transform',
           },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -59,7 +270,8 @@ export class SklearnPipeline implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -81,6 +293,7 @@ export class SklearnPipeline implements INodeType {
         type: 'multiOptions',
         displayOptions: {
           show: {
+            '@version': [1],
             operation: ['train'],
           },
         },
@@ -95,6 +308,36 @@ export class SklearnPipeline implements INodeType {
         default: ['StandardScaler'],
         description: 'Preprocessing steps to include in the pipeline',
       },
+      {
+        displayName: 'PCA Components',
+        name: 'pcaComponents',
+        type: 'number',
+        displayOptions: {
+          show: {
+            '@version': [1],
+            operation: ['train'],
+          },
+        },
+        default: 2,
+        description: 'Number of PCA components (if PCA is selected)',
+      },
+      {
+        displayName: 'Polynomial Degree',
+        name: 'polyDegree',
+        type: 'number',
+        displayOptions: {
+          show: {
+            '@version': [1],
+            operation: ['train'],
+          },
+        },
+        default: 2,
+        description: 'Polynomial degree (if Polynomial Features is selected)',
+      },
+      pipelineStepsProperty({
+        '@version': [2],
+        operation: ['train'],
+      }),
       {
         displayName: 'Estimator',
         name: 'estimator',
@@ -119,36 +362,288 @@ export class SklearnPipeline implements INodeType {
         description: 'Final estimator in the pipeline',
       },
       {
-        displayName: 'PCA Components',
-        name: 'pcaComponents',
-        type: 'number',
+        displayName: 'Estimator Options',
+        name: 'estimatorOptions',
+        type: 'collection',
+        placeholder: 'Add Option',
         displayOptions: {
           show: {
             operation: ['train'],
           },
+          hide: {
+            estimator: ['none'],
+          },
         },
-        default: 2,
-        description: 'Number of PCA components (if PCA is selected)',
+        default: {},
+        options: [
+          {
+            displayName: 'C',
+            name: 'C',
+            type: 'number',
+            displayOptions: {
+              show: {
+                '/estimator': ['LogisticRegression', 'SVC', 'SVR'],
+              },
+            },
+            typeOptions: {
+              minValue: 0,
+              numberPrecision: 4,
+            },
+            default: 1,
+            description: 'Inverse of the regularization strength',
+          },
+          {
+            displayName: 'Fit Intercept',
+            name: 'fitIntercept',
+            type: 'boolean',
+            displayOptions: {
+              show: {
+                '/estimator': ['LinearRegression', 'LogisticRegression'],
+              },
+            },
+            default: true,
+            description: 'Whether to fit an intercept',
+          },
+          {
+            displayName: 'Kernel',
+            name: 'kernel',
+            type: 'options',
+            displayOptions: {
+              show: {
+                '/estimator': ['SVC', 'SVR'],
+              },
+            },
+            options: [
+              { name: 'Linear', value: 'linear' },
+              { name: 'Polynomial', value: 'poly' },
+              { name: 'RBF', value: 'rbf' },
+              { name: 'Sigmoid', value: 'sigmoid' },
+            ],
+            default: 'rbf',
+          },
+          {
+            displayName: 'Learning Rate',
+            name: 'learningRate',
+            type: 'number',
+            displayOptions: {
+              show: {
+                '/estimator': ['GradientBoostingClassifier', 'GradientBoostingRegressor'],
+              },
+            },
+            typeOptions: {
+              minValue: 0,
+              numberPrecision: 4,
+            },
+            default: 0.1,
+            description: 'Shrinkage of the contribution of each tree',
+          },
+          {
+            displayName: 'Max Depth',
+            name: 'maxDepth',
+            type: 'number',
+            displayOptions: {
+              show: {
+                '/estimator': TREE_ENSEMBLES,
+              },
+            },
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 0,
+            description:
+              'Maximum depth of the trees. 0 keeps the estimator default, unlimited for Random Forest and 3 for Gradient Boosting.',
+          },
+          {
+            displayName: 'Max Iterations',
+            name: 'maxIter',
+            type: 'number',
+            displayOptions: {
+              show: {
+                '/estimator': ['LogisticRegression'],
+              },
+            },
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 100,
+            description: 'Maximum number of solver iterations',
+          },
+          {
+            displayName: 'Number of Estimators',
+            name: 'nEstimators',
+            type: 'number',
+            displayOptions: {
+              show: {
+                '/estimator': TREE_ENSEMBLES,
+              },
+            },
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 100,
+            description: 'Number of trees',
+          },
+          {
+            displayName: 'Random State',
+            name: 'randomState',
+            type: 'number',
+            displayOptions: {
+              show: {
+                '/estimator': ['LogisticRegression', ...TREE_ENSEMBLES],
+              },
+            },
+            default: 42,
+            description: 'Random seed for reproducibility',
+          },
+        ],
       },
       {
-        displayName: 'Polynomial Degree',
-        name: 'polyDegree',
-        type: 'number',
+        displayName: 'Estimator Parameters (JSON)',
+        name: 'estimatorParameters',
+        type: 'string',
         displayOptions: {
           show: {
             operation: ['train'],
           },
+          hide: {
+            estimator: ['none'],
+          },
         },
-        default: 2,
-        description: 'Polynomial degree (if Polynomial Features is selected)',
+        default: '',
+        placeholder: '{"n_estimators": 300, "min_samples_leaf": 2}',
+        description:
+          "JSON object of scikit-learn parameters of the estimator, overriding the options above. Parameters must be listed by the estimator's get_params().",
+      },
+      {
+        displayName: 'Column Transformers',
+        name: 'columnTransformers',
+        type: 'fixedCollection',
+        typeOptions: {
+          multipleValues: true,
+        },
+        displayOptions: {
+          show: {
+            operation: ['train'],
+          },
+        },
+        default: {},
+        placeholder: 'Add Column Transformer',
+        description:
+          'Transformers applied to groups of columns, combined in a ColumnTransformer that runs before the steps',
+        options: [
+          {
+            displayName: 'Transformer',
+            name: 'transformers',
+            values: [
+              {
+                displayName: 'Columns',
+                name: 'columns',
+                type: 'string',
+                default: '',
+                placeholder: 'age,income',
+                description:
+                  'Comma-separated list of column names or patterns. They are added to the feature columns when missing.',
+              },
+              {
+                displayName: 'Transformer',
+                name: 'transformer',
+                type: 'options',
+                options: [
+                  { name: 'Standard Scaler', value: 'StandardScaler' },
+                  { name: 'MinMax Scaler', value: 'MinMaxScaler' },
+                  { name: 'Robust Scaler', value: 'RobustScaler' },
+                  {
+                    name: 'Simple Imputer',
+                    value: 'SimpleImputer',
+                    description: 'Fill missing values of the columns',
+                  },
+                  {
+                    name: 'One-Hot Encoder',
+                    value: 'OneHotEncoder',
+                    description: 'One 0/1 feature per category, all 0 for unseen categories',
+                  },
+                  {
+                    name: 'Ordinal Encoder',
+                    value: 'OrdinalEncoder',
+                    description: 'One feature holding the index of the category, -1 for unseen categories',
+                  },
+                  {
+                    name: 'TF-IDF Vectorizer',
+                    value: 'TfidfVectorizer',
+                    description: 'TF-IDF features of each text column',
+                  },
+                ],
+                default: 'StandardScaler',
+              },
+              {
+                displayName: 'Impute Strategy',
+                name: 'imputeStrategy',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    transformer: ['SimpleImputer'],
+                  },
+                },
+                options: [
+                  { name: 'Mean', value: 'mean' },
+                  { name: 'Median', value: 'median' },
+                  { name: 'Most Frequent', value: 'most_frequent' },
+                ],
+                default: 'mean',
+              },
+              {
+                displayName: 'Max Features',
+                name: 'maxFeatures',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    transformer: ['TfidfVectorizer'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 0,
+                },
+                default: 0,
+                description: 'Maximum number of terms per column. 0 keeps every term.',
+              },
+            ],
+          },
+        ],
       },
+      {
+        displayName: 'Remainder',
+        name: 'remainder',
+        type: 'options',
+        displayOptions: {
+          show: {
+            operation: ['train'],
+          },
+        },
+        options: [
+          {
+            name: 'Pass Through',
+            value: 'passthrough',
+            description: 'Keep the feature columns no column transformer uses',
+          },
+          {
+            name: 'Drop',
+            value: 'drop',
+            description: 'Leave out the feature columns no column transformer uses',
+          },
+        ],
+        default: 'passthrough',
+        description: 'What to do with feature columns not used by a column transformer',
+      },
+      groupByProperty({ operation: ['train'] }),
+      ...modelSourceProperties({ operation: ['predict', 'transform', 'exportOnnx'] }),
       {
         displayName: 'Pipeline Data',
         name: 'pipelineData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict', 'transform'],
+            operation: ['predict', 'transform', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -166,230 +661,222 @@ export class SklearnPipeline implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict', 'transform'] }, { operation: ['train'] }),
+      ...modelOutputProperties({ operation: ['train'] }),
+      ...modelSerializationProperties,
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = await getModelSerialization.call(this);
 
     try {
       if (operation === 'train') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-        const preprocessors = this.getNodeParameter('preprocessors', 0) as string[];
-        const estimator = this.getNodeParameter('estimator', 0) as string;
-        const pcaComponents = this.getNodeParameter('pcaComponents', 0) as number;
-        const polyDegree = this.getNodeParameter('polyDegree', 0) as number;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const isRegressor = ['LinearRegression', 'RandomForestRegressor', 'SVR', 'GradientBoostingRegressor'].includes(estimator);
-        const hasTarget = targetColumn && targetColumn.trim() !== '' && estimator !== 'none';
-
-        const trainingData = items.map((item, idx) => {
-          const features = featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const targetColumn = this.getNodeParameter('targetColumn', itemIndex) as string;
+          const steps =
+            this.getNode().typeVersion === 1
+              ? legacyPipelineSteps.call(this, itemIndex)
+              : resolvePipelineSteps.call(this, itemIndex);
+          const estimator = assertAllowed(
+            this.getNode(),
+            'estimator',
+            this.getNodeParameter('estimator', itemIndex),
+            ESTIMATOR_OPTIONS,
+          );
+          const estimatorParams = estimator === 'none' ? {} : estimatorParameters.call(this, itemIndex, estimator);
+
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items, { exclude: [targetColumn] });
+          const columnTransformers = columnTransformerSpecs.call(this, group.items, itemIndex, targetColumn);
+          const remainder = assertAllowed(
+            this.getNode(),
+            'remainder',
+            this.getNodeParameter('remainder', itemIndex, 'passthrough'),
+            REMAINDERS,
+          );
+          const rawColumns = [
+            ...new Set(
+              columnTransformers
+                .filter((spec) => RAW_TRANSFORMERS.includes(spec.transformer))
+                .flatMap((spec) => spec.columns),
+            ),
+          ];
+          const inputColumns = [...new Set([...featureColumns, ...columnTransformers.flatMap((spec) => spec.columns)])];
+
+          const isRegressor = ['LinearRegression', 'RandomForestRegressor', 'SVR', 'GradientBoostingRegressor'].includes(estimator);
+          const hasTarget = targetColumn && targetColumn.trim() !== '' && estimator !== 'none';
+
+          const featureRows = extractFeatureRows.call(this, group, inputColumns, {
+            exclude: [targetColumn],
+            rawColumns,
           });
-
-          let target = null;
-          if (hasTarget) {
-            target = item.json[targetColumn];
-            if (target === undefined || target === null) {
-              throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
+          const trainingData = featureRows.items.map((item, idx) => {
+            let target = null;
+            if (hasTarget) {
+              target = columnValue(item.json, targetColumn);
+              if (target === undefined || target === null) {
+                throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: featureRows.itemIndexes[idx] });
+              }
+              target = isRegressor ? parseFloat(String(target)) : target;
             }
-            target = isRegressor ? parseFloat(String(target)) : target;
-          }
-
-          return { features, target };
-        });
 
-        const preprocessorImports: Record<string, string> = {
-          StandardScaler: 'from sklearn.preprocessing import StandardScaler',
-          MinMaxScaler: 'from sklearn.preprocessing import MinMaxScaler',
-          RobustScaler: 'from sklearn.preprocessing import RobustScaler',
-          Normalizer: 'from sklearn.preprocessing import Normalizer',
-          PCA: 'from sklearn.decomposition import PCA',
-          PolynomialFeatures: 'from sklearn.preprocessing import PolynomialFeatures',
-        };
-
-        const estimatorImports: Record<string, string> = {
-          LogisticRegression: 'from sklearn.linear_model import LogisticRegression',
-          RandomForestClassifier: 'from sklearn.ensemble import RandomForestClassifier',
-          RandomForestRegressor: 'from sklearn.ensemble import RandomForestRegressor',
-          LinearRegression: 'from sklearn.linear_model import LinearRegression',
-          SVC: 'from sklearn.svm import SVC',
-          SVR: 'from sklearn.svm import SVR',
-          GradientBoostingClassifier: 'from sklearn.ensemble import GradientBoostingClassifier',
-          GradientBoostingRegressor: 'from sklearn.ensemble import GradientBoostingRegressor',
-        };
-
-        const preprocessorParams: Record<string, string> = {
-          StandardScaler: 'StandardScaler()',
-          MinMaxScaler: 'MinMaxScaler()',
-          RobustScaler: 'RobustScaler()',
-          Normalizer: 'Normalizer()',
-          PCA: `PCA(n_components=${pcaComponents})`,
-          PolynomialFeatures: `PolynomialFeatures(degree=${polyDegree})`,
-        };
-
-        const imports = [
-          'from sklearn.pipeline import Pipeline',
-          ...preprocessors.map((p) => preprocessorImports[p]),
-          ...(estimator !== 'none' ? [estimatorImports[estimator]] : []),
-        ].join('\n');
-
-        const steps = preprocessors.map((p, i) => `('${p.toLowerCase()}_${i}', ${preprocessorParams[p]})`);
-        if (estimator !== 'none') {
-          steps.push(`('estimator', ${estimator}())`);
-        }
+            return { features: featureRows.rows[idx], target };
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
-${imports}
-
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
-${hasTarget ? "y = np.array([d['target'] for d in data])" : ''}
-
-pipeline = Pipeline([
-    ${steps.join(',\n    ')}
-])
-
-${hasTarget ? 'pipeline.fit(X, y)' : 'pipeline.fit(X)'}
-
-pipeline_bytes = pickle.dumps(pipeline)
-pipeline_b64 = base64.b64encode(pipeline_bytes).decode('utf-8')
+from sklearn.pipeline import Pipeline
+${pythonClassRegistry('ESTIMATORS', ESTIMATORS)}
+${MODEL_SERIALIZATION_SCRIPT}
+${FEATURE_ARRAY_SCRIPT}
+${COLUMN_TRANSFORMER_SCRIPT}
+${PIPELINE_STEPS_SCRIPT}
+
+data = payload['training_data']
+params = payload['params']
+X = feature_array([d['features'] for d in data])
+
+steps = []
+if params['column_transformers']:
+    steps.append(('columns', column_transformer(params['column_transformers'], params['feature_columns'], params['remainder'])))
+    X = fill_text_columns(X, params['column_transformers'], params['feature_columns'])
+steps += pipeline_steps(params['steps'])
+if params['estimator'] != 'none':
+    steps.append(('estimator', create_step(ESTIMATORS, params['estimator'], params['estimator_params'])))
+
+pipeline = Pipeline(steps)
+
+if params['has_target']:
+    y = np.array([d['target'] for d in data])
+    pipeline.fit(X, y)
+else:
+    pipeline.fit(X)
 
 result = {
-    'pipeline_pickle': pipeline_b64,
-    'steps': ${JSON.stringify([...preprocessors, ...(estimator !== 'none' ? [estimator] : [])])},
-    'has_estimator': ${estimator !== 'none' ? 'True' : 'False'},
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'pipeline_envelope': dump_model(pipeline, X, params['feature_columns']),
+    'steps': (
+        (['ColumnTransformer'] if params['column_transformers'] else [])
+        + [step['type'] for step in params['steps']]
+        + ([params['estimator']] if params['estimator'] != 'none' else [])
+    ),
+    'has_estimator': params['estimator'] != 'none',
+    'step_params': {name: _json_safe(step.get_params(deep=False)) for name, step in pipeline.steps},
+    'feature_columns': params['feature_columns'],
+    'column_transformers': params['column_transformers'],
+    'raw_columns': params['raw_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical']
 }
 
-${hasTarget ? "result['score'] = float(pipeline.score(X, y))" : ''}
+if params['has_target']:
+    result['score'] = float(pipeline.score(X, y))
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(trainingData)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            training_data: trainingData,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: {
+              steps,
+              estimator,
+              estimator_params: estimatorParams,
+              has_target: Boolean(hasTarget),
+              column_transformers: columnTransformers,
+              remainder,
+              raw_columns: rawColumns,
+              feature_columns: featureRows.columns,
+            },
+            serialization,
           });
-        });
 
-        const result = JSON.parse(resultData);
+          const result = JSON.parse(resultData);
 
-        const outputJson: any = {
-          pipeline: resultData,
-          steps: result.steps,
-          has_estimator: result.has_estimator,
-          feature_columns: result.feature_columns,
-          training_samples: items.length,
-        };
+          const outputJson: any = {
+            ...group.fields,
+            steps: result.steps,
+            has_estimator: result.has_estimator,
+            step_params: result.step_params,
+            feature_columns: result.feature_columns,
+            training_samples: featureRows.items.length,
+            missing_values: featureRows.summary,
+          };
 
-        if (result.score !== undefined) {
-          outputJson.score = result.score;
-        }
+          if (result.score !== undefined) {
+            outputJson.score = result.score;
+          }
 
-        returnData.push({ json: outputJson });
+          returnData.push(await withModelOutput.call(this, resultData, 'pipeline.json', outputJson, 'pipeline'));
+        }
 
       } else if (operation === 'predict' || operation === 'transform') {
-        const pipelineDataStr = this.getNodeParameter('pipelineData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const pipelineInfo = JSON.parse(pipelineDataStr);
-
-        const features = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
-
-        const method = operation === 'predict' && pipelineInfo.has_estimator ? 'predict' : 'transform';
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns', 'pipelineData');
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
+${MODEL_SERIALIZATION_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
+${COLUMN_TRANSFORMER_SCRIPT}
 
-pipeline_data = json.loads(sys.argv[1])
-X = np.array(json.loads(sys.argv[2]))
+def predict(pipeline_data, X, feature_columns):
+    pipeline = load_model(pipeline_data, 'pipeline', feature_columns)
+    X = fill_text_columns(X, pipeline_data.get('column_transformers'), feature_columns)
 
-pipeline_bytes = base64.b64decode(pipeline_data['pipeline_pickle'])
-pipeline = pickle.loads(pipeline_bytes)
+    use_estimator = payload['predict'] and pipeline_data.get('has_estimator')
+    output = pipeline.predict(X) if use_estimator else pipeline.transform(X)
 
-output = pipeline.${method}(X)
+    result = {'output': output.tolist()}
 
-result = {'output': output.tolist()}
+    # Try to get probabilities for classifiers
+    if use_estimator:
+        try:
+            result['probabilities'] = pipeline.predict_proba(X).tolist()
+        except Exception:
+            pass
 
-# Try to get probabilities for classifiers
-if '${method}' == 'predict':
-    try:
-        result['probabilities'] = pipeline.predict_proba(X).tolist()
-    except:
-        pass
+    return result
 
-print(json.dumps(result))
+run_prediction_groups(predict)
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, pipelineDataStr, JSON.stringify(features)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const result = await runPredictionGroups.call(this, runtime, pythonScript, groups, {
+          predict: operation === 'predict',
+          serialization,
         });
 
-        const result = JSON.parse(resultData);
+        const pipelines = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!pipelines[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           const newJson: any = { ...items[i].json };
 
-          if (operation === 'predict' && pipelineInfo.has_estimator) {
+          if (operation === 'predict' && pipelines[i].has_estimator) {
             newJson.prediction = result.output[i];
             if (result.probabilities) {
               newJson.probabilities = result.probabilities[i];
@@ -407,6 +894,20 @@ print(json.dumps(result))
 
           returnData.push({ json: newJson });
         }
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+${MODEL_SERIALIZATION_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    return load_model(model_data, 'pipeline')
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'pipeline', 'pipelineData')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -3,9 +3,31 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addMissingValueHints,
+  extractFeatureRows,
+  missingValueProperties,
+  MissingValueSummary,
+  rowsByItem,
+} from '../shared/MissingValues';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnPolynomialFeatures implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Polynomial Features',
@@ -20,6 +42,7 @@ export class SklearnPolynomialFeatures implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -53,7 +76,8 @@ export class SklearnPolynomialFeatures implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -119,21 +143,24 @@ export class SklearnPolynomialFeatures implements INodeType {
         description: 'Comma-separated list of feature column names',
         required: true,
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties({}, { operation: ['fitTransform'] }),
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fitTransform') {
@@ -142,74 +169,73 @@ export class SklearnPolynomialFeatures implements INodeType {
         const includeBias = this.getNodeParameter('includeBias', 0) as boolean;
         const interactionOnly = this.getNodeParameter('interactionOnly', 0) as boolean;
 
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
+        const featureColumns = selectColumns.call(this, featureColumnsStr, items);
 
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          featureColumns,
+        );
+        const data = featureRows.rows;
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import PolynomialFeatures
+${MODEL_METADATA_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
+params = payload['params']
 
 poly = PolynomialFeatures(
-    degree=${degree},
-    include_bias=${includeBias ? 'True' : 'False'},
-    interaction_only=${interactionOnly ? 'True' : 'False'}
+    degree=params['degree'],
+    include_bias=params['include_bias'],
+    interaction_only=params['interaction_only']
 )
 
 transformed = poly.fit_transform(X)
-feature_names = poly.get_feature_names_out(${JSON.stringify(featureColumns)}).tolist()
+feature_names = poly.get_feature_names_out(params['feature_columns']).tolist()
 
 result = {
     'transformed': transformed.tolist(),
     'feature_names': feature_names,
     'n_input_features': poly.n_input_features_,
     'n_output_features': poly.n_output_features_,
-    'degree': ${degree},
-    'include_bias': ${includeBias ? 'True' : 'False'},
-    'interaction_only': ${interactionOnly ? 'True' : 'False'},
-    'input_columns': ${JSON.stringify(featureColumns)}
+    'degree': params['degree'],
+    'include_bias': params['include_bias'],
+    'interaction_only': params['interaction_only'],
+    'input_columns': params['feature_columns'],
+    'imputation': payload['imputation']
 }
+result['metadata'] = model_metadata(poly, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          imputation: featureRows.imputation,
+          feature_dtypes: featureRows.dtypes,
+          params: {
+            degree,
+            include_bias: includeBias,
+            interaction_only: interactionOnly,
+            feature_columns: featureColumns,
+          },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+        for (let i = 0; i < featureRows.items.length; i++) {
+          const newJson: any = { ...featureRows.items[i].json };
 
           result.feature_names.forEach((name: string, idx: number) => {
             newJson[name] = result.transformed[i][idx];
           });
 
           if (i === 0) {
+            newJson.missing_values = featureRows.summary;
             newJson.transformer = resultData;
             newJson.polynomial_features = result.feature_names;
             newJson.n_output_features = result.n_output_features;
@@ -219,29 +245,34 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform') {
-        const transformerDataStr = this.getNodeParameter('transformerData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const transformerInfo = JSON.parse(transformerDataStr);
-
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
-
-        const pythonScript = `
+        const outputs = new Array<INodeExecutionData>(items.length);
+        const summaries: MissingValueSummary[] = [];
+
+        // Items may read different transformers, each applied with its own
+        for (const group of await groupModelItems.call(this, 'transformerData')) {
+          const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', group.itemIndexes[0]) as string;
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items);
+          const transformerInfo = JSON.parse(group.modelJson);
+
+          const featureRows = extractFeatureRows.call(
+            this,
+            group,
+            featureColumns,
+            { model: transformerInfo },
+          );
+          summaries.push(featureRows.summary);
+          const data = featureRows.rows;
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import PolynomialFeatures
+${MODEL_METADATA_SCRIPT}
+
+X = np.array(payload['data'], dtype=float)
+transformer_data = payload['transformer']
 
-X = np.array(json.loads(sys.argv[1]))
-transformer_data = json.loads(sys.argv[2])
+check_model_metadata(transformer_data, payload['feature_columns'])
 
 poly = PolynomialFeatures(
     degree=transformer_data['degree'],
@@ -257,38 +288,45 @@ feature_names = poly.get_feature_names_out(transformer_data['input_columns']).to
 
 result = {
     'transformed': transformed.tolist(),
-    'feature_names': feature_names
+    'feature_names': feature_names,
+    'model_warnings': MODEL_WARNINGS
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data), transformerDataStr]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const result = JSON.parse(resultData);
+          let featureNames: string[] = [];
+          let transformed: number[][] = [];
+          if (data.length > 0) {
+            const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+              data,
+              transformer: transformerInfo,
+              feature_columns: featureColumns,
+              serialization,
+            });
+
+            const result = JSON.parse(resultData);
+            addModelWarnings.call(this, result);
+            featureNames = result.feature_names;
+            transformed = result.transformed;
+          }
+          const transformedByItem = rowsByItem(featureRows, transformed, items.length);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+          for (const i of group.itemIndexes) {
+            const newJson: any = { ...items[i].json };
+            const features = transformedByItem[i];
 
-          result.feature_names.forEach((name: string, idx: number) => {
-            newJson[name] = result.transformed[i][idx];
-          });
+            if (features) {
+              featureNames.forEach((name, idx) => {
+                newJson[name] = features[idx];
+              });
+            }
 
-          returnData.push({ json: newJson });
+            outputs[i] = { json: newJson };
+          }
         }
+        addMissingValueHints.call(this, summaries);
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -3,9 +3,35 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addMissingValueHints,
+  extractFeatureRows,
+  FEATURE_LIST_SCRIPT,
+  missingValueProperties,
+  MissingValueSummary,
+  rowsByItem,
+} from '../shared/MissingValues';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const QUANTILE_RANGES = ['25-75', '10-90', '5-95'] as const;
+
 export class SklearnRobustScaler implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Robust Scaler',
@@ -20,6 +46,7 @@ export class SklearnRobustScaler implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -130,90 +157,97 @@ export class SklearnRobustScaler implements INodeType {
         description: 'Comma-separated list of columns to transform',
         required: true,
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties({}, { operation: ['fitTransform'] }),
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fitTransform') {
         const columnsStr = this.getNodeParameter('columns', 0) as string;
         const withCentering = this.getNodeParameter('withCentering', 0) as boolean;
         const withScaling = this.getNodeParameter('withScaling', 0) as boolean;
-        const quantileRange = this.getNodeParameter('quantileRange', 0) as string;
-        const columns = columnsStr.split(',').map((col) => col.trim());
+        const quantileRange = assertAllowed(
+          this.getNode(),
+          'quantileRange',
+          this.getNodeParameter('quantileRange', 0),
+          QUANTILE_RANGES,
+        );
+        const columns = selectColumns.call(this, columnsStr, items);
 
         const [qMin, qMax] = quantileRange.split('-').map(Number);
 
-        const data = items.map((item, idx) => {
-          return columns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          columns,
+        );
+        const data = featureRows.rows;
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import RobustScaler
+${MODEL_METADATA_SCRIPT}
+${FEATURE_LIST_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
+params = payload['params']
 
 scaler = RobustScaler(
-    with_centering=${withCentering ? 'True' : 'False'},
-    with_scaling=${withScaling ? 'True' : 'False'},
-    quantile_range=(${qMin}, ${qMax})
+    with_centering=params['with_centering'],
+    with_scaling=params['with_scaling'],
+    quantile_range=tuple(params['quantile_range'])
 )
 
 scaled = scaler.fit_transform(X)
 
 result = {
-    'scaled': scaled.tolist(),
+    'scaled': feature_list(scaled),
     'center': scaler.center_.tolist() if scaler.center_ is not None else None,
     'scale': scaler.scale_.tolist() if scaler.scale_ is not None else None,
-    'columns': ${JSON.stringify(columns)},
-    'with_centering': ${withCentering ? 'True' : 'False'},
-    'with_scaling': ${withScaling ? 'True' : 'False'},
-    'quantile_range': [${qMin}, ${qMax}]
+    'columns': params['columns'],
+    'imputation': payload['imputation'],
+    'with_centering': params['with_centering'],
+    'with_scaling': params['with_scaling'],
+    'quantile_range': params['quantile_range']
 }
+result['metadata'] = model_metadata(scaler, X, params['columns'], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          imputation: featureRows.imputation,
+          feature_dtypes: featureRows.dtypes,
+          params: {
+            columns,
+            with_centering: withCentering,
+            with_scaling: withScaling,
+            quantile_range: [qMin, qMax],
+          },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+        for (let i = 0; i < featureRows.items.length; i++) {
+          const newJson: any = { ...featureRows.items[i].json };
 
           columns.forEach((col, idx) => {
             newJson[`${col}_scaled`] = result.scaled[i][idx];
@@ -221,6 +255,7 @@ print(json.dumps(result))
 
           if (i === 0) {
             newJson.scaler = resultData;
+            newJson.missing_values = featureRows.summary;
             if (result.center) {
               newJson.center = Object.fromEntries(columns.map((col, idx) => [col, result.center[idx]]));
             }
@@ -233,31 +268,38 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform' || operation === 'inverseTransform') {
-        const scalerDataStr = this.getNodeParameter('scalerData', 0) as string;
-        const columnsStr = this.getNodeParameter('transformColumns', 0) as string;
-        const columns = columnsStr.split(',').map((col) => col.trim());
-        const scalerInfo = JSON.parse(scalerDataStr);
-
-        const data = items.map((item, idx) => {
-          return columns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
-
-        const transformMethod = operation === 'inverseTransform' ? 'inverse_transform' : 'transform';
-
-        const pythonScript = `
+        const outputs = new Array<INodeExecutionData>(items.length);
+        const summaries: MissingValueSummary[] = [];
+
+        // Items may read different scalers, each transformed with its own
+        for (const group of await groupModelItems.call(this, 'scalerData')) {
+          const columnsStr = this.getNodeParameter('transformColumns', group.itemIndexes[0]) as string;
+          const columns = selectColumns.call(this, columnsStr, group.items);
+          const scalerInfo = JSON.parse(group.modelJson);
+          const inverse = operation === 'inverseTransform';
+
+          // Values recorded in training are not scaled, so inverse transforms cannot impute them
+          const featureRows = extractFeatureRows.call(
+            this,
+            group,
+            columns,
+            { model: inverse ? {} : scalerInfo },
+          );
+          summaries.push(featureRows.summary);
+          const data = featureRows.rows;
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import RobustScaler
+${MODEL_METADATA_SCRIPT}
+${FEATURE_LIST_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
-scaler_data = json.loads(sys.argv[2])
+X = np.array(payload['data'], dtype=float)
+scaler_data = payload['scaler']
+
+# Inverse transforms read scaled columns, so only the versions are checked
+check_model_metadata(scaler_data, None if payload['inverse'] else payload['columns'])
 
 scaler = RobustScaler(
     with_centering=scaler_data['with_centering'],
@@ -271,42 +313,48 @@ if scaler_data['center'] is not None:
 if scaler_data['scale'] is not None:
     scaler.scale_ = np.array(scaler_data['scale'])
 
-result_data = scaler.${transformMethod}(X)
+result_data = scaler.inverse_transform(X) if payload['inverse'] else scaler.transform(X)
 
 result = {
-    'transformed': result_data.tolist()
+    'transformed': feature_list(result_data),
+    'model_warnings': MODEL_WARNINGS
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data), scalerDataStr]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const result = JSON.parse(resultData);
-        const suffix = operation === 'inverseTransform' ? '_original' : '_scaled';
+          let transformed: number[][] = [];
+          if (data.length > 0) {
+            const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+              data,
+              scaler: scalerInfo,
+              inverse,
+              columns,
+              serialization,
+            });
+
+            const result = JSON.parse(resultData);
+            addModelWarnings.call(this, result);
+            transformed = result.transformed;
+          }
+          const suffix = inverse ? '_original' : '_scaled';
+          const transformedByItem = rowsByItem(featureRows, transformed, items.length);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+          for (const i of group.itemIndexes) {
+            const newJson: any = { ...items[i].json };
+            const transformedFeatures = transformedByItem[i];
 
-          columns.forEach((col, idx) => {
-            newJson[`${col}${suffix}`] = result.transformed[i][idx];
-          });
+            if (transformedFeatures) {
+              columns.forEach((col, idx) => {
+                newJson[`${col}${suffix}`] = transformedFeatures[idx];
+              });
+            }
 
-          returnData.push({ json: newJson });
+            outputs[i] = { json: newJson };
+          }
         }
+        addMissingValueHints.call(this, summaries);
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -6,6 +6,25 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const STRATEGIES = ['mean', 'median', 'most_frequent', 'constant'] as const;
+
 export class SklearnSimpleImputer implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Simple Imputer',
@@ -20,6 +39,7 @@ export class SklearnSimpleImputer implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -114,27 +134,29 @@ export class SklearnSimpleImputer implements INodeType {
         description: 'Comma-separated list of columns to transform',
         required: true,
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fitTransform') {
         const columnsStr = this.getNodeParameter('columns', 0) as string;
-        const strategy = this.getNodeParameter('strategy', 0) as string;
-        const columns = columnsStr.split(',').map((col) => col.trim());
+        const strategy = assertAllowed(this.getNode(), 'strategy', this.getNodeParameter('strategy', 0), STRATEGIES);
+        const columns = selectColumns.call(this, columnsStr, items);
 
         let fillValue = '0';
         if (strategy === 'constant') {
@@ -144,7 +166,7 @@ export class SklearnSimpleImputer implements INodeType {
         const data = items.map((item, idx) => {
           const row: Record<string, any> = {};
           columns.forEach((col) => {
-            const value = item.json[col];
+            const value = columnValue(item.json, col);
             row[col] = value === undefined || value === null || value === '' ? null : value;
           });
           return row;
@@ -152,14 +174,15 @@ export class SklearnSimpleImputer implements INodeType {
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.impute import SimpleImputer
+${MODEL_METADATA_SCRIPT}
 
-data = json.loads(sys.argv[1])
-columns = ${JSON.stringify(columns)}
-strategy = '${strategy}'
-fill_value = ${strategy === 'constant' ? `'${fillValue}'` : 'None'}
+data = payload['data']
+params = payload['params']
+columns = params['columns']
+strategy = params['strategy']
+fill_value = params['fill_value']
 
 # Build array
 X = []
@@ -182,23 +205,15 @@ result = {
     'strategy': strategy,
     'fill_value': fill_value
 }
+result['metadata'] = model_metadata(imputer, X, columns, result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          params: { columns, strategy, fill_value: strategy === 'constant' ? fillValue : null },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
@@ -221,32 +236,37 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform') {
-        const imputerDataStr = this.getNodeParameter('imputerData', 0) as string;
-        const columnsStr = this.getNodeParameter('transformColumns', 0) as string;
-        const columns = columnsStr.split(',').map((col) => col.trim());
-        const imputerInfo = JSON.parse(imputerDataStr);
-
-        const data = items.map((item) => {
-          const row: Record<string, any> = {};
-          columns.forEach((col) => {
-            const value = item.json[col];
-            row[col] = value === undefined || value === null || value === '' ? null : value;
+        const outputs = new Array<INodeExecutionData>(items.length);
+
+        // Items may read different imputers, each applied with its own
+        for (const group of await groupModelItems.call(this, 'imputerData')) {
+          const columnsStr = this.getNodeParameter('transformColumns', group.itemIndexes[0]) as string;
+          const columns = selectColumns.call(this, columnsStr, group.items);
+          const imputerInfo = JSON.parse(group.modelJson);
+
+          const data = group.items.map((item) => {
+            const row: Record<string, any> = {};
+            columns.forEach((col) => {
+              const value = columnValue(item.json, col);
+              row[col] = value === undefined || value === null || value === '' ? null : value;
+            });
+            return row;
           });
-          return row;
-        });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.impute import SimpleImputer
+${MODEL_METADATA_SCRIPT}
 
-data = json.loads(sys.argv[1])
-imputer_data = json.loads(sys.argv[2])
+data = payload['data']
+imputer_data = payload['imputer']
 columns = imputer_data['columns']
 strategy = imputer_data['strategy']
 fill_value = imputer_data['fill_value']
 
+check_model_metadata(imputer_data, payload['columns'])
+
 X = []
 for row in data:
     X.append([row[col] for col in columns])
@@ -265,38 +285,34 @@ imputer.statistics_ = np.array(imputer_data['statistics'])
 imputed = imputer.transform(X)
 
 result = {
-    'imputed': imputed.tolist()
+    'imputed': imputed.tolist(),
+    'model_warnings': MODEL_WARNINGS
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data), imputerDataStr]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            data,
+            imputer: imputerInfo,
+            columns,
+            serialization,
           });
-        });
 
-        const result = JSON.parse(resultData);
+          const result = JSON.parse(resultData);
+          addModelWarnings.call(this, result);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+          for (let i = 0; i < group.items.length; i++) {
+            const newJson: any = { ...group.items[i].json };
 
-          columns.forEach((col, idx) => {
-            newJson[col] = result.imputed[i][idx];
-          });
+            columns.forEach((col, idx) => {
+              newJson[col] = result.imputed[i][idx];
+            });
 
-          returnData.push({ json: newJson });
+            outputs[group.itemIndexes[i]] = { json: newJson };
+          }
         }
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
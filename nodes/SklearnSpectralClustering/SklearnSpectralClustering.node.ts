@@ -3,9 +3,21 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const AFFINITIES = ['rbf', 'nearest_neighbors', 'precomputed'] as const;
+
 export class SklearnSpectralClustering implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Spectral Clustering',
@@ -20,6 +32,7 @@ export class SklearnSpectralClustering implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Feature Columns',
@@ -27,7 +40,8 @@ export class SklearnSpectralClustering implements INodeType {
         type: 'string',
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -68,57 +82,55 @@ export class SklearnSpectralClustering implements INodeType {
         default: 42,
         description: 'Random seed for reproducibility',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties(),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
 
     const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
     const nClusters = this.getNodeParameter('nClusters', 0) as number;
-    const affinity = this.getNodeParameter('affinity', 0) as string;
+    const affinity = assertAllowed(this.getNode(), 'affinity', this.getNodeParameter('affinity', 0), AFFINITIES);
     const randomState = this.getNodeParameter('randomState', 0) as number;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
 
     let nNeighbors = 10;
     if (affinity === 'nearest_neighbors') {
       nNeighbors = this.getNodeParameter('nNeighbors', 0) as number;
     }
 
-    const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
     try {
-      const data = items.map((item, idx) => {
-        return featureColumns.map((col) => {
-          const value = item.json[col];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-          }
-          return parseFloat(String(value));
-        });
-      });
+      const featureColumns = selectColumns.call(this, featureColumnsStr, items);
+
+      const featureRows = extractFeatureRows.call(
+        this,
+        { items, itemIndexes: items.map((_, idx) => idx) },
+        featureColumns,
+      );
+      const data = featureRows.rows;
 
       const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.cluster import SpectralClustering
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
+params = payload['params']
 
 clustering = SpectralClustering(
-    n_clusters=${nClusters},
-    affinity='${affinity}',
-    n_neighbors=${nNeighbors},
-    random_state=${randomState},
+    n_clusters=params['n_clusters'],
+    affinity=params['affinity'],
+    n_neighbors=params['n_neighbors'],
+    random_state=params['random_state'],
     assign_labels='kmeans'
 )
 
@@ -126,34 +138,24 @@ labels = clustering.fit_predict(X)
 
 result = {
     'labels': labels.tolist(),
-    'n_clusters': ${nClusters},
-    'affinity': '${affinity}'
+    'n_clusters': params['n_clusters'],
+    'affinity': params['affinity']
 }
 
 print(json.dumps(result))
 `;
 
-      const { spawn } = require('child_process');
-      const resultData = await new Promise<string>((resolve, reject) => {
-        const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-        let output = '';
-        let errorOutput = '';
-
-        python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-        python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-        python.on('close', (code: number) => {
-          if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-          else resolve(output.trim());
-        });
+      const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+        data,
+        params: { n_clusters: nClusters, affinity, n_neighbors: nNeighbors, random_state: randomState },
       });
 
       const result = JSON.parse(resultData);
 
-      for (let i = 0; i < items.length; i++) {
+      for (let i = 0; i < featureRows.items.length; i++) {
         returnData.push({
           json: {
-            ...items[i].json,
+            ...featureRows.items[i].json,
             cluster: result.labels[i],
             n_clusters: result.n_clusters,
           },
@@ -6,6 +6,54 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { categoricalFeatureProperties } from '../shared/CategoricalFeatures';
+import { columnValue, selectColumns } from '../shared/ColumnSelection';
+import { pythonClassRegistry } from '../shared/Estimators';
+import {
+  groupByProperty,
+  groupPredictionItems,
+  itemModels,
+  PREDICTION_GROUPS_SCRIPT,
+  runPredictionGroups,
+  splitItemGroups,
+} from '../shared/ItemGroups';
+import { extractFeatureRows, missingValueProperties } from '../shared/MissingValues';
+import {
+  modelOutputProperties,
+  modelSourceProperties,
+  withModelOutput,
+} from '../shared/ModelArtifacts';
+import {
+  getModelSerialization,
+  MODEL_SERIALIZATION_SCRIPT,
+  modelSerializationProperties,
+  modelSigningCredentials,
+} from '../shared/ModelSerialization';
+import {
+  exportOnnxModels,
+  ONNX_EXPORT_SCRIPT,
+  onnxExportProperties,
+} from '../shared/OnnxModels';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllAllowed, assertAllowed } from '../shared/Validation';
+
+const BASE_ESTIMATORS = [
+  'RandomForestClassifier',
+  'DecisionTreeClassifier',
+  'SVC',
+  'KNeighborsClassifier',
+  'GradientBoostingClassifier',
+  'GaussianNB',
+] as const;
+const FINAL_ESTIMATORS = ['LogisticRegression', 'RandomForestClassifier', 'GradientBoostingClassifier'] as const;
+const ALL_ESTIMATORS = [...new Set([...BASE_ESTIMATORS, ...FINAL_ESTIMATORS])];
+
 export class SklearnStackingClassifier implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Stacking Classifier',
@@ -20,6 +68,7 @@ export class SklearnStackingClassifier implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: [...pythonEnvironmentCredentials, ...modelSigningCredentials],
     properties: [
       {
         displayName: 'Operation',
@@ -39,6 +88,12 @@ export class SklearnStackingClassifier implements INodeType {
             description: 'Make predictions',
             action: 'Predict',
           },
+          {
+            name: 'Export to ONNX',
+            value: 'exportOnnx',
+            description: 'Convert a trained model to ONNX',
+            action: 'Export a model to ONNX',
+          },
         ],
         default: 'train',
       },
@@ -53,7 +108,8 @@ export class SklearnStackingClassifier implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -119,13 +175,16 @@ export class SklearnStackingClassifier implements INodeType {
         default: 5,
         description: 'Number of cross-validation folds for generating meta-features',
       },
+      groupByProperty({ operation: ['train'] }),
+      ...modelSourceProperties({ operation: ['predict', 'exportOnnx'] }),
       {
         displayName: 'Model Data',
         name: 'modelData',
         type: 'string',
         displayOptions: {
           show: {
-            operation: ['predict'],
+            operation: ['predict', 'exportOnnx'],
+            modelSource: ['parameter'],
           },
         },
         default: '',
@@ -143,190 +202,159 @@ export class SklearnStackingClassifier implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
-        required: true,
-      },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
+        description:
+          'Comma-separated list of feature column names or patterns. Leave empty to use the columns the model was trained on.',
       },
+      ...categoricalFeatureProperties({ operation: ['train'] }),
+      ...missingValueProperties({ operation: ['train', 'predict'] }, { operation: ['train'] }),
+      ...modelOutputProperties({ operation: ['train'] }),
+      ...modelSerializationProperties,
+      ...onnxExportProperties({ operation: ['exportOnnx'] }),
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = await getModelSerialization.call(this);
 
     try {
       if (operation === 'train') {
-        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
-        const targetColumn = this.getNodeParameter('targetColumn', 0) as string;
-        const estimators = this.getNodeParameter('estimators', 0) as string[];
-        const finalEstimator = this.getNodeParameter('finalEstimator', 0) as string;
-        const cv = this.getNodeParameter('cv', 0) as number;
-
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const trainingData = items.map((item, idx) => {
-          const features = featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
+        for (const group of splitItemGroups.call(this, items)) {
+          const itemIndex = group.itemIndexes[0];
+          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
+          const targetColumn = this.getNodeParameter('targetColumn', itemIndex) as string;
+          const estimators = assertAllAllowed(
+            this.getNode(),
+            'estimators',
+            this.getNodeParameter('estimators', itemIndex) as unknown[],
+            BASE_ESTIMATORS,
+          );
+          const finalEstimator = assertAllowed(
+            this.getNode(),
+            'finalEstimator',
+            this.getNodeParameter('finalEstimator', itemIndex),
+            FINAL_ESTIMATORS,
+          );
+          const cv = this.getNodeParameter('cv', itemIndex) as number;
+
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items, { exclude: [targetColumn] });
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns, { exclude: [targetColumn] });
+          const trainingData = featureRows.items.map((item, idx) => {
+            const target = columnValue(item.json, targetColumn);
+            if (target === undefined || target === null) {
+              throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: featureRows.itemIndexes[idx] });
             }
-            return parseFloat(String(value));
-          });
 
-          const target = item.json[targetColumn];
-          if (target === undefined || target === null) {
-            throw new NodeOperationError(this.getNode(), `Target column '${targetColumn}' not found`, { itemIndex: idx });
-          }
-
-          return { features, target };
-        });
-
-        const estimatorImports: Record<string, string> = {
-          LogisticRegression: 'from sklearn.linear_model import LogisticRegression',
-          RandomForestClassifier: 'from sklearn.ensemble import RandomForestClassifier',
-          DecisionTreeClassifier: 'from sklearn.tree import DecisionTreeClassifier',
-          SVC: 'from sklearn.svm import SVC',
-          KNeighborsClassifier: 'from sklearn.neighbors import KNeighborsClassifier',
-          GradientBoostingClassifier: 'from sklearn.ensemble import GradientBoostingClassifier',
-          GaussianNB: 'from sklearn.naive_bayes import GaussianNB',
-        };
-
-        const allEstimators = [...new Set([...estimators, finalEstimator])];
-        const imports = allEstimators.map((e) => estimatorImports[e]).join('\n');
-        const estimatorList = estimators.map((e, i) => `('${e.toLowerCase()}_${i}', ${e}())`).join(', ');
+            return { features: featureRows.rows[idx], target };
+          });
 
-        const pythonScript = `
+          const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
 from sklearn.ensemble import StackingClassifier
-${imports}
+${pythonClassRegistry('ESTIMATORS', ALL_ESTIMATORS)}
+${MODEL_SERIALIZATION_SCRIPT}
 
-data = json.loads(sys.argv[1])
-X = np.array([d['features'] for d in data])
+data = payload['training_data']
+params = payload['params']
+X = np.array([d['features'] for d in data], dtype=float)
 y = np.array([d['target'] for d in data])
 
-estimators = [${estimatorList}]
+estimators = [(f'{name.lower()}_{i}', ESTIMATORS[name]()) for i, name in enumerate(params['estimators'])]
 
 model = StackingClassifier(
     estimators=estimators,
-    final_estimator=${finalEstimator}(),
-    cv=${cv}
+    final_estimator=ESTIMATORS[params['final_estimator']](),
+    cv=params['cv']
 )
 
 model.fit(X, y)
 
-model_bytes = pickle.dumps(model)
-model_b64 = base64.b64encode(model_bytes).decode('utf-8')
-
 result = {
-    'model_pickle': model_b64,
+    'model_envelope': dump_model(model, X, params['feature_columns']),
     'score': float(model.score(X, y)),
-    'base_estimators': ${JSON.stringify(estimators)},
-    'final_estimator': '${finalEstimator}',
+    'base_estimators': params['estimators'],
+    'final_estimator': params['final_estimator'],
     'classes': model.classes_.tolist(),
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'categorical': payload['categorical']
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(trainingData)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            training_data: trainingData,
+            imputation: featureRows.imputation,
+            feature_dtypes: featureRows.dtypes,
+            categorical: featureRows.categorical,
+            params: { estimators, final_estimator: finalEstimator, cv, feature_columns: featureRows.columns },
+            serialization,
           });
-        });
-
-        const result = JSON.parse(resultData);
-
-        returnData.push({
-          json: {
-            model: resultData,
-            score: result.score,
-            base_estimators: result.base_estimators,
-            final_estimator: result.final_estimator,
-            classes: result.classes,
-            feature_columns: result.feature_columns,
-            training_samples: items.length,
-          },
-        });
+
+          const result = JSON.parse(resultData);
+
+          returnData.push(
+            await withModelOutput.call(this, resultData, 'stacking-classifier.json', {
+              ...group.fields,
+              score: result.score,
+              base_estimators: result.base_estimators,
+              final_estimator: result.final_estimator,
+              classes: result.classes,
+              feature_columns: result.feature_columns,
+              training_samples: featureRows.items.length,
+              missing_values: featureRows.summary,
+            }),
+          );
+        }
 
       } else if (operation === 'predict') {
-        const modelDataStr = this.getNodeParameter('modelData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('predictFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-        const features = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const groups = await groupPredictionItems.call(this, 'predictFeatureColumns');
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
-import pickle
-import base64
+${MODEL_SERIALIZATION_SCRIPT}
+${PREDICTION_GROUPS_SCRIPT}
 
-model_data = json.loads(sys.argv[1])
-X = np.array(json.loads(sys.argv[2]))
+def predict(model_data, X, feature_columns):
+    model = load_model(model_data, feature_names=feature_columns)
 
-model_bytes = base64.b64decode(model_data['model_pickle'])
-model = pickle.loads(model_bytes)
+    predictions = model.predict(X).tolist()
+    probabilities = model.predict_proba(X).tolist()
 
-predictions = model.predict(X).tolist()
-probabilities = model.predict_proba(X).tolist()
+    result = {
+        'predictions': predictions,
+        'probabilities': probabilities
+    }
 
-result = {
-    'predictions': predictions,
-    'probabilities': probabilities
-}
+    return result
 
-print(json.dumps(result))
+run_prediction_groups(predict)
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, modelDataStr, JSON.stringify(features)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+        const result = await runPredictionGroups.call(this, runtime, pythonScript, groups, { serialization });
 
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
-
-        const result = JSON.parse(resultData);
+        const models = itemModels(groups, items.length);
 
         for (let i = 0; i < items.length; i++) {
+          if (!models[i]) {
+            // Left out by the missing value policy
+            returnData.push({ json: items[i].json });
+            continue;
+          }
           returnData.push({
             json: {
               ...items[i].json,
@@ -335,6 +363,20 @@ print(json.dumps(result))
             },
           });
         }
+      } else if (operation === 'exportOnnx') {
+        const pythonScript = `
+${MODEL_SERIALIZATION_SCRIPT}
+${ONNX_EXPORT_SCRIPT}
+
+def load(model_data):
+    return load_model(model_data)
+
+run_onnx_export(load)
+`;
+
+        returnData.push(
+          ...(await exportOnnxModels.call(this, runtime, pythonScript, { serialization }, 'stacking-classifier')),
+        );
       }
     } catch (error) {
       if (this.continueOnFail()) {
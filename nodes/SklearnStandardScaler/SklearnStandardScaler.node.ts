@@ -3,9 +3,38 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addMissingValueHints,
+  extractFeatureRows,
+  FEATURE_LIST_SCRIPT,
+  missingValueProperties,
+  MissingValueSummary,
+  rowsByItem,
+} from '../shared/MissingValues';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import {
+  checkNativeModel,
+  getInferenceEngine,
+  inferenceEngineProperty,
+  transformStandard,
+} from '../shared/NativeInference';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnStandardScaler implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Standard Scaler',
@@ -20,6 +49,7 @@ export class SklearnStandardScaler implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -115,6 +145,7 @@ export class SklearnStandardScaler implements INodeType {
         description: 'Comma-separated list of feature column names (must match fitted columns)',
         required: true,
       },
+      inferenceEngineProperty({ operation: ['transform'] }),
       {
         displayName: 'Output Prefix',
         name: 'outputPrefix',
@@ -122,170 +153,163 @@ export class SklearnStandardScaler implements INodeType {
         default: 'scaled_',
         description: 'Prefix to add to scaled column names',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties({}, { operation: ['fit', 'fitTransform'] }),
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
     const outputPrefix = this.getNodeParameter('outputPrefix', 0) as string;
 
-    for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
-      try {
-        if (operation === 'fit' || operation === 'fitTransform') {
-          const featureColumnsStr = this.getNodeParameter('featureColumns', itemIndex) as string;
-          const withMean = this.getNodeParameter('withMean', itemIndex) as boolean;
-          const withStd = this.getNodeParameter('withStd', itemIndex) as boolean;
-
-          const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-
-          // Extract data from all items
-          const data = items.map((item) => {
-            const features = featureColumns.map((col) => {
-              const value = item.json[col];
-              if (value === undefined || value === null) {
-                throw new NodeOperationError(
-                  this.getNode(),
-                  `Feature column '${col}' not found in item`,
-                  { itemIndex }
-                );
-              }
-              return parseFloat(String(value));
-            });
-            return features;
-          });
+    try {
+      if (operation === 'fit' || operation === 'fitTransform') {
+        const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
+        const withMean = this.getNodeParameter('withMean', 0) as boolean;
+        const withStd = this.getNodeParameter('withStd', 0) as boolean;
 
-          // Create Python script
-          const pythonScript = `
+        const featureColumns = selectColumns.call(this, featureColumnsStr, items);
+
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          featureColumns,
+        );
+        const data = featureRows.rows;
+
+        // Create Python script
+        const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.preprocessing import StandardScaler
+${MODEL_METADATA_SCRIPT}
+${FEATURE_LIST_SCRIPT}
 
 # Read input data
-data = json.loads(sys.argv[1])
-X = np.array(data)
+data = payload['data']
+params = payload['params']
+X = np.array(data, dtype=float)
 
 # Fit scaler
-scaler = StandardScaler(with_mean=${withMean ? 'True' : 'False'}, with_std=${withStd ? 'True' : 'False'})
+scaler = StandardScaler(with_mean=params['with_mean'], with_std=params['with_std'])
 scaler.fit(X)
 
 result = {
     'mean': scaler.mean_.tolist() if hasattr(scaler, 'mean_') else None,
     'scale': scaler.scale_.tolist() if hasattr(scaler, 'scale_') else None,
     'var': scaler.var_.tolist() if hasattr(scaler, 'var_') else None,
-    'feature_columns': ${JSON.stringify(featureColumns)},
-    'with_mean': ${withMean ? 'True' : 'False'},
-    'with_std': ${withStd ? 'True' : 'False'}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation'],
+    'with_mean': params['with_mean'],
+    'with_std': params['with_std']
 }
 
-${operation === 'fitTransform' ? "result['transformed'] = scaler.transform(X).tolist()" : ''}
+if params['fit_transform']:
+    result['transformed'] = feature_list(scaler.transform(X))
+
+result['metadata'] = model_metadata(scaler, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
-          const { spawn } = require('child_process');
-          const resultData = await new Promise<string>((resolve, reject) => {
-            const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-            let output = '';
-            let errorOutput = '';
-
-            python.stdout.on('data', (data: Buffer) => {
-              output += data.toString();
-            });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          imputation: featureRows.imputation,
+          feature_dtypes: featureRows.dtypes,
+          params: {
+            with_mean: withMean,
+            with_std: withStd,
+            feature_columns: featureColumns,
+            fit_transform: operation === 'fitTransform',
+          },
+          serialization,
+        });
 
-            python.stderr.on('data', (data: Buffer) => {
-              errorOutput += data.toString();
-            });
+        const result = JSON.parse(resultData);
 
-            python.on('close', (code: number) => {
-              if (code !== 0) {
-                reject(new Error(`Python script failed: ${errorOutput}`));
-              } else {
-                resolve(output.trim());
-              }
-            });
+        if (operation === 'fit') {
+          returnData.push({
+            json: {
+              scaler: resultData,
+              mean: result.mean,
+              scale: result.scale,
+              variance: result.var,
+              feature_columns: result.feature_columns,
+              fitted_samples: featureRows.items.length,
+              missing_values: featureRows.summary,
+            },
           });
+        } else {
+          // fitTransform - return transformed data with original data
+          for (let i = 0; i < featureRows.items.length; i++) {
+            const transformedFeatures = result.transformed[i];
+            const newJson: any = { ...featureRows.items[i].json };
 
-          const result = JSON.parse(resultData);
+            // Add scaled features with prefix
+            featureColumns.forEach((col, idx) => {
+              newJson[`${outputPrefix}${col}`] = transformedFeatures[idx];
+            });
 
-          if (operation === 'fit') {
-            returnData.push({
-              json: {
-                scaler: resultData,
+            // Add scaler info only to first item
+            if (i === 0) {
+              newJson.scaler = resultData;
+              newJson.scaler_info = {
                 mean: result.mean,
                 scale: result.scale,
                 variance: result.var,
-                feature_columns: result.feature_columns,
-                fitted_samples: items.length,
-              },
-            });
-          } else {
-            // fitTransform - return transformed data with original data
-            for (let i = 0; i < items.length; i++) {
-              const transformedFeatures = result.transformed[i];
-              const newJson: any = { ...items[i].json };
-
-              // Add scaled features with prefix
-              featureColumns.forEach((col, idx) => {
-                newJson[`${outputPrefix}${col}`] = transformedFeatures[idx];
-              });
-
-              // Add scaler info only to first item
-              if (i === 0) {
-                newJson.scaler = resultData;
-                newJson.scaler_info = {
-                  mean: result.mean,
-                  scale: result.scale,
-                  variance: result.var,
-                };
-              }
-
-              returnData.push({ json: newJson });
+              };
+              newJson.missing_values = featureRows.summary;
             }
-          }
-        } else if (operation === 'transform') {
-          const scalerDataStr = this.getNodeParameter('scalerData', itemIndex) as string;
-          const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', itemIndex) as string;
-
-          const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-          const scalerData = JSON.parse(scalerDataStr);
-
-          // Extract data from all items
-          const data = items.map((item) => {
-            const features = featureColumns.map((col) => {
-              const value = item.json[col];
-              if (value === undefined || value === null) {
-                throw new NodeOperationError(
-                  this.getNode(),
-                  `Feature column '${col}' not found in item`,
-                  { itemIndex }
-                );
-              }
-              return parseFloat(String(value));
-            });
-            return features;
-          });
 
-          // Create Python script for transform
-          const pythonScript = `
+            returnData.push({ json: newJson });
+          }
+        }
+      } else if (operation === 'transform') {
+        const outputs = new Array<INodeExecutionData>(items.length);
+        const summaries: MissingValueSummary[] = [];
+
+        // Items may read different scalers, each transformed with its own
+        for (const group of await groupModelItems.call(this, 'scalerData')) {
+          const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', group.itemIndexes[0]) as string;
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items);
+          const scalerData = JSON.parse(group.modelJson);
+
+          const featureRows = extractFeatureRows.call(this, group, featureColumns, { model: scalerData });
+          summaries.push(featureRows.summary);
+          const data = featureRows.rows as number[][];
+
+          let transformed: number[][];
+          if (data.length === 0) {
+            transformed = [];
+          } else if (getInferenceEngine.call(this) === 'native') {
+            const warnings = checkNativeModel.call(this, scalerData, featureColumns, serialization);
+            addModelWarnings.call(this, { model_warnings: warnings });
+            transformed = transformStandard.call(this, scalerData, data);
+          } else {
+            // Create Python script for transform
+            const pythonScript = `
 import json
-import sys
 import numpy as np
+${MODEL_METADATA_SCRIPT}
+${FEATURE_LIST_SCRIPT}
 
 # Read scaler and input data
-scaler_data = json.loads(sys.argv[1])
-data = json.loads(sys.argv[2])
-X = np.array(data)
+scaler_data = payload['scaler']
+data = payload['data']
+X = np.array(data, dtype=float)
+
+check_model_metadata(scaler_data, payload['feature_columns'])
 
 # Transform using stored parameters
 mean = np.array(scaler_data['mean']) if scaler_data['mean'] else 0
@@ -301,64 +325,52 @@ else:
     X_transformed = X
 
 result = {
-    'transformed': X_transformed.tolist()
+    'transformed': feature_list(X_transformed),
+    'model_warnings': MODEL_WARNINGS
 }
 
 print(json.dumps(result))
 `;
 
-          const { spawn } = require('child_process');
-          const resultData = await new Promise<string>((resolve, reject) => {
-            const python = spawn(pythonPath, [
-              '-c',
-              pythonScript,
-              scalerDataStr,
-              JSON.stringify(data),
-            ]);
-            let output = '';
-            let errorOutput = '';
-
-            python.stdout.on('data', (data: Buffer) => {
-              output += data.toString();
-            });
-
-            python.stderr.on('data', (data: Buffer) => {
-              errorOutput += data.toString();
-            });
-
-            python.on('close', (code: number) => {
-              if (code !== 0) {
-                reject(new Error(`Python script failed: ${errorOutput}`));
-              } else {
-                resolve(output.trim());
-              }
+            const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+              scaler: scalerData,
+              data,
+              feature_columns: featureColumns,
+              serialization,
             });
-          });
 
-          const result = JSON.parse(resultData);
+            const result = JSON.parse(resultData);
+            addModelWarnings.call(this, result);
+            transformed = result.transformed;
+          }
 
           // Return transformed data with original data
-          for (let i = 0; i < items.length; i++) {
-            const transformedFeatures = result.transformed[i];
-            const newJson: any = { ...items[i].json };
+          const transformedByItem = rowsByItem(featureRows, transformed, items.length);
+          for (const itemIndex of group.itemIndexes) {
+            const transformedFeatures = transformedByItem[itemIndex];
+            const newJson: any = { ...items[itemIndex].json };
 
-            // Add scaled features with prefix
-            featureColumns.forEach((col, idx) => {
-              newJson[`${outputPrefix}${col}`] = transformedFeatures[idx];
-            });
+            // Add scaled features with prefix, unless the item was left out by the missing value policy
+            if (transformedFeatures) {
+              featureColumns.forEach((col, idx) => {
+                newJson[`${outputPrefix}${col}`] = transformedFeatures[idx];
+              });
+            }
 
-            returnData.push({ json: newJson });
+            outputs[itemIndex] = { json: newJson };
           }
         }
-      } catch (error) {
-        if (this.continueOnFail()) {
-          returnData.push({
-            json: {
-              error: (error as Error).message,
-            },
-          });
-          continue;
-        }
+        addMissingValueHints.call(this, summaries);
+        returnData.push(...outputs);
+      }
+    } catch (error) {
+      if (this.continueOnFail()) {
+        returnData.push({
+          json: {
+            error: (error as Error).message,
+          },
+        });
+      } else {
         throw error;
       }
     }
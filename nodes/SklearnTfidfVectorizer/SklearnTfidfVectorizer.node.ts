@@ -6,6 +6,24 @@ import {
   NodeOperationError,
 } from 'n8n-workflow';
 
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const STOP_WORDS = ['none', 'english'] as const;
+
 export class SklearnTfidfVectorizer implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn TF-IDF Vectorizer',
@@ -20,6 +38,7 @@ export class SklearnTfidfVectorizer implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -147,21 +166,23 @@ export class SklearnTfidfVectorizer implements INodeType {
         description: 'Name of the column containing text',
         required: true,
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fitTransform') {
@@ -169,7 +190,12 @@ export class SklearnTfidfVectorizer implements INodeType {
         const maxFeatures = this.getNodeParameter('maxFeatures', 0) as number;
         const ngramMin = this.getNodeParameter('ngramMin', 0) as number;
         const ngramMax = this.getNodeParameter('ngramMax', 0) as number;
-        const stopWords = this.getNodeParameter('stopWords', 0) as string;
+        const stopWords = assertAllowed(
+          this.getNode(),
+          'stopWords',
+          this.getNodeParameter('stopWords', 0),
+          STOP_WORDS,
+        );
         const lowercase = this.getNodeParameter('lowercase', 0) as boolean;
 
         const texts = items.map((item, idx) => {
@@ -182,16 +208,17 @@ export class SklearnTfidfVectorizer implements INodeType {
 
         const pythonScript = `
 import json
-import sys
 from sklearn.feature_extraction.text import TfidfVectorizer
+${MODEL_METADATA_SCRIPT}
 
-texts = json.loads(sys.argv[1])
+texts = payload['texts']
+params = payload['params']
 
 vectorizer = TfidfVectorizer(
-    max_features=${maxFeatures},
-    ngram_range=(${ngramMin}, ${ngramMax}),
-    stop_words=${ stopWords === 'none' ? 'None' : `'${stopWords}'`},
-    lowercase=${lowercase ? 'True' : 'False'}
+    max_features=params['max_features'],
+    ngram_range=tuple(params['ngram_range']),
+    stop_words=params['stop_words'],
+    lowercase=params['lowercase']
 )
 
 tfidf_matrix = vectorizer.fit_transform(texts)
@@ -202,28 +229,26 @@ result = {
     'feature_names': feature_names,
     'vocabulary': vectorizer.vocabulary_,
     'idf': vectorizer.idf_.tolist(),
-    'max_features': ${maxFeatures},
-    'ngram_range': [${ngramMin}, ${ngramMax}],
-    'stop_words': ${stopWords === 'none' ? 'None' : `'${stopWords}'`},
-    'lowercase': ${lowercase ? 'True' : 'False'}
+    'max_features': params['max_features'],
+    'ngram_range': params['ngram_range'],
+    'stop_words': params['stop_words'],
+    'lowercase': params['lowercase']
 }
+result['metadata'] = model_metadata(vectorizer, texts, [params['text_column']], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(texts)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          texts,
+          params: {
+            max_features: maxFeatures,
+            ngram_range: [ngramMin, ngramMax],
+            stop_words: stopWords === 'none' ? null : stopWords,
+            lowercase,
+            text_column: textColumn,
+          },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
@@ -253,26 +278,31 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform') {
-        const vectorizerDataStr = this.getNodeParameter('vectorizerData', 0) as string;
-        const textColumn = this.getNodeParameter('transformTextColumn', 0) as string;
-        const vectorizerInfo = JSON.parse(vectorizerDataStr);
+        const outputs = new Array<INodeExecutionData>(items.length);
 
-        const texts = items.map((item, idx) => {
-          const value = item.json[textColumn];
-          if (value === undefined || value === null) {
-            throw new NodeOperationError(this.getNode(), `Text column '${textColumn}' not found`, { itemIndex: idx });
-          }
-          return String(value);
-        });
+        // Items may read different vectorizers, each applied with its own
+        for (const group of await groupModelItems.call(this, 'vectorizerData')) {
+          const textColumn = this.getNodeParameter('transformTextColumn', group.itemIndexes[0]) as string;
+          const vectorizerInfo = JSON.parse(group.modelJson);
 
-        const pythonScript = `
+          const texts = group.items.map((item, k) => {
+            const value = item.json[textColumn];
+            if (value === undefined || value === null) {
+              throw new NodeOperationError(this.getNode(), `Text column '${textColumn}' not found`, { itemIndex: group.itemIndexes[k] });
+            }
+            return String(value);
+          });
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.feature_extraction.text import TfidfVectorizer
+${MODEL_METADATA_SCRIPT}
 
-texts = json.loads(sys.argv[1])
-vectorizer_data = json.loads(sys.argv[2])
+texts = payload['texts']
+vectorizer_data = payload['vectorizer']
+
+check_model_metadata(vectorizer_data, [payload['text_column']])
 
 vectorizer = TfidfVectorizer(
     max_features=vectorizer_data['max_features'],
@@ -291,45 +321,41 @@ feature_names = list(vectorizer_data['vocabulary'].keys())
 
 result = {
     'tfidf': tfidf_matrix.toarray().tolist(),
-    'feature_names': sorted(feature_names, key=lambda x: vectorizer_data['vocabulary'][x])
+    'feature_names': sorted(feature_names, key=lambda x: vectorizer_data['vocabulary'][x]),
+    'model_warnings': MODEL_WARNINGS
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(texts), vectorizerDataStr]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
+          const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+            texts,
+            vectorizer: vectorizerInfo,
+            text_column: textColumn,
+            serialization,
           });
-        });
 
-        const result = JSON.parse(resultData);
+          const result = JSON.parse(resultData);
+          addModelWarnings.call(this, result);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+          for (let i = 0; i < group.items.length; i++) {
+            const newJson: any = { ...group.items[i].json };
 
-          const tfidfRow = result.tfidf[i];
-          const nonZeroFeatures: Record<string, number> = {};
-          tfidfRow.forEach((value: number, idx: number) => {
-            if (value > 0) {
-              nonZeroFeatures[result.feature_names[idx]] = value;
-            }
-          });
+            const tfidfRow = result.tfidf[i];
+            const nonZeroFeatures: Record<string, number> = {};
+            tfidfRow.forEach((value: number, idx: number) => {
+              if (value > 0) {
+                nonZeroFeatures[result.feature_names[idx]] = value;
+              }
+            });
 
-          newJson.tfidf_features = nonZeroFeatures;
-          newJson.tfidf_vector = tfidfRow;
+            newJson.tfidf_features = nonZeroFeatures;
+            newJson.tfidf_vector = tfidfRow;
 
-          returnData.push({ json: newJson });
+            outputs[group.itemIndexes[i]] = { json: newJson };
+          }
         }
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
@@ -5,6 +5,14 @@ import {
   INodeTypeDescription,
 } from 'n8n-workflow';
 
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+
 export class SklearnTrainTestSplit implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Train Test Split',
@@ -19,6 +27,7 @@ export class SklearnTrainTestSplit implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main', 'main'],
+    credentials: pythonEnvironmentCredentials,
     outputNames: ['Train', 'Test'],
     properties: [
       {
@@ -60,30 +69,28 @@ export class SklearnTrainTestSplit implements INodeType {
         placeholder: 'target',
         description: 'Column to use for stratified splitting (preserves class proportions). Leave empty to disable.',
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const testSize = this.getNodeParameter('testSize', 0) as number;
     const shuffle = this.getNodeParameter('shuffle', 0) as boolean;
     const stratifyColumn = this.getNodeParameter('stratifyColumn', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
 
     let randomState = 42;
     if (shuffle) {
       randomState = this.getNodeParameter('randomState', 0) as number;
     }
 
-    const data = items.map((item) => item.json);
-
     // Get stratify values if specified
     let stratifyValues: any[] | null = null;
     if (stratifyColumn && stratifyColumn.trim() !== '') {
@@ -92,16 +99,14 @@ export class SklearnTrainTestSplit implements INodeType {
 
     const pythonScript = `
 import json
-import sys
 from sklearn.model_selection import train_test_split
 
-data = json.loads(sys.argv[1])
-test_size = float(sys.argv[2])
-shuffle = sys.argv[3] == 'true'
-random_state = int(sys.argv[4]) if shuffle else None
-stratify_values = json.loads(sys.argv[5]) if sys.argv[5] != 'null' else None
+test_size = float(payload['test_size'])
+shuffle = payload['shuffle']
+random_state = int(payload['random_state']) if shuffle else None
+stratify_values = payload['stratify_values']
 
-indices = list(range(len(data)))
+indices = list(range(payload['n_samples']))
 
 if stratify_values:
     train_idx, test_idx = train_test_split(
@@ -127,27 +132,13 @@ result = {
 print(json.dumps(result))
 `;
 
-    const { spawn } = require('child_process');
-    const splitData = await new Promise<string>((resolve, reject) => {
-      const python = spawn(pythonPath, [
-        '-c',
-        pythonScript,
-        JSON.stringify(data),
-        String(testSize),
-        String(shuffle),
-        String(randomState),
-        stratifyValues ? JSON.stringify(stratifyValues) : 'null',
-      ]);
-      let output = '';
-      let errorOutput = '';
-
-      python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-      python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-      python.on('close', (code: number) => {
-        if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-        else resolve(output.trim());
-      });
+    // Only the item count is needed to compute the split indices
+    const splitData = await runPythonScript.call(this, runtime, pythonScript, {
+      n_samples: items.length,
+      test_size: testSize,
+      shuffle,
+      random_state: randomState,
+      stratify_values: stratifyValues,
     });
 
     const result = JSON.parse(splitData);
@@ -3,9 +3,34 @@ import {
   INodeExecutionData,
   INodeType,
   INodeTypeDescription,
-  NodeOperationError,
 } from 'n8n-workflow';
 
+import { selectColumns } from '../shared/ColumnSelection';
+import { groupModelItems } from '../shared/ItemGroups';
+import {
+  addMissingValueHints,
+  extractFeatureRows,
+  missingValueProperties,
+  MissingValueSummary,
+  rowsByItem,
+} from '../shared/MissingValues';
+import {
+  addModelWarnings,
+  getModelCompatibility,
+  MODEL_METADATA_SCRIPT,
+  modelCompatibilityProperties,
+} from '../shared/ModelSerialization';
+import { sklearnPythonEnvironmentTest } from '../shared/PythonEnvironment';
+import {
+  getPythonRuntime,
+  pythonEnvironmentCredentials,
+  pythonRuntimeProperties,
+  runPythonScript,
+} from '../shared/PythonRuntime';
+import { assertAllowed } from '../shared/Validation';
+
+const ALGORITHMS = ['randomized', 'arpack'] as const;
+
 export class SklearnTruncatedSVD implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Sklearn Truncated SVD',
@@ -20,6 +45,7 @@ export class SklearnTruncatedSVD implements INodeType {
     },
     inputs: ['main'],
     outputs: ['main'],
+    credentials: pythonEnvironmentCredentials,
     properties: [
       {
         displayName: 'Operation',
@@ -53,7 +79,8 @@ export class SklearnTruncatedSVD implements INodeType {
         },
         default: '',
         placeholder: 'feature1,feature2,feature3',
-        description: 'Comma-separated list of feature column names',
+        description:
+          'Comma-separated list of feature column names or patterns, such as feature_* or /^f\\d+$/. Prefix an entry with ! to exclude the columns it matches.',
         required: true,
       },
       {
@@ -123,53 +150,59 @@ export class SklearnTruncatedSVD implements INodeType {
         description: 'Comma-separated list of feature column names',
         required: true,
       },
-      {
-        displayName: 'Python Path',
-        name: 'pythonPath',
-        type: 'string',
-        default: 'python3',
-        description: 'Path to Python executable with scikit-learn installed',
-      },
+      ...missingValueProperties({}, { operation: ['fitTransform'] }),
+      ...modelCompatibilityProperties,
+      ...pythonRuntimeProperties,
     ],
   };
 
+  methods = {
+    credentialTest: {
+      sklearnPythonEnvironmentTest,
+    },
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
     const operation = this.getNodeParameter('operation', 0) as string;
-    const pythonPath = this.getNodeParameter('pythonPath', 0) as string;
+    const runtime = await getPythonRuntime.call(this);
+    const serialization = getModelCompatibility.call(this);
 
     try {
       if (operation === 'fitTransform') {
         const featureColumnsStr = this.getNodeParameter('featureColumns', 0) as string;
         const nComponents = this.getNodeParameter('nComponents', 0) as number;
-        const algorithm = this.getNodeParameter('algorithm', 0) as string;
+        const algorithm = assertAllowed(
+          this.getNode(),
+          'algorithm',
+          this.getNodeParameter('algorithm', 0),
+          ALGORITHMS,
+        );
         const randomState = this.getNodeParameter('randomState', 0) as number;
 
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
+        const featureColumns = selectColumns.call(this, featureColumnsStr, items);
 
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
+        const featureRows = extractFeatureRows.call(
+          this,
+          { items, itemIndexes: items.map((_, idx) => idx) },
+          featureColumns,
+        );
+        const data = featureRows.rows;
 
         const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.decomposition import TruncatedSVD
+${MODEL_METADATA_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
+X = np.array(payload['data'], dtype=float)
+params = payload['params']
 
 svd = TruncatedSVD(
-    n_components=${nComponents},
-    algorithm='${algorithm}',
-    random_state=${randomState}
+    n_components=params['n_components'],
+    algorithm=params['algorithm'],
+    random_state=params['random_state']
 )
 
 transformed = svd.fit_transform(X)
@@ -180,39 +213,40 @@ result = {
     'explained_variance_ratio': svd.explained_variance_ratio_.tolist(),
     'singular_values': svd.singular_values_.tolist(),
     'components': svd.components_.tolist(),
-    'n_components': ${nComponents},
+    'n_components': params['n_components'],
     'total_variance_explained': float(sum(svd.explained_variance_ratio_)),
-    'feature_columns': ${JSON.stringify(featureColumns)}
+    'feature_columns': params['feature_columns'],
+    'imputation': payload['imputation']
 }
+result['metadata'] = model_metadata(svd, X, params['feature_columns'], result)
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data)]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
+        const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+          data,
+          imputation: featureRows.imputation,
+          feature_dtypes: featureRows.dtypes,
+          params: {
+            n_components: nComponents,
+            algorithm,
+            random_state: randomState,
+            feature_columns: featureColumns,
+          },
+          serialization,
         });
 
         const result = JSON.parse(resultData);
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+        for (let i = 0; i < featureRows.items.length; i++) {
+          const newJson: any = { ...featureRows.items[i].json };
 
           for (let j = 0; j < result.n_components; j++) {
             newJson[`svd_component_${j + 1}`] = result.transformed[i][j];
           }
 
           if (i === 0) {
+            newJson.missing_values = featureRows.summary;
             newJson.svd = resultData;
             newJson.explained_variance_ratio = result.explained_variance_ratio;
             newJson.total_variance_explained = result.total_variance_explained;
@@ -222,29 +256,32 @@ print(json.dumps(result))
         }
 
       } else if (operation === 'transform') {
-        const svdDataStr = this.getNodeParameter('svdData', 0) as string;
-        const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', 0) as string;
-        const featureColumns = featureColumnsStr.split(',').map((col) => col.trim());
-        const svdInfo = JSON.parse(svdDataStr);
-
-        const data = items.map((item, idx) => {
-          return featureColumns.map((col) => {
-            const value = item.json[col];
-            if (value === undefined || value === null) {
-              throw new NodeOperationError(this.getNode(), `Feature column '${col}' not found`, { itemIndex: idx });
-            }
-            return parseFloat(String(value));
-          });
-        });
-
-        const pythonScript = `
+        const outputs = new Array<INodeExecutionData>(items.length);
+        const summaries: MissingValueSummary[] = [];
+
+        // Items may read different models, each transformed with its own
+        for (const group of await groupModelItems.call(this, 'svdData')) {
+          const featureColumnsStr = this.getNodeParameter('transformFeatureColumns', group.itemIndexes[0]) as string;
+          const featureColumns = selectColumns.call(this, featureColumnsStr, group.items);
+          const svdInfo = JSON.parse(group.modelJson);
+
+          const featureRows = extractFeatureRows.call(
+            this,
+            group,
+            featureColumns,
+            { model: svdInfo },
+          );
+          summaries.push(featureRows.summary);
+          const data = featureRows.rows;
+
+          const pythonScript = `
 import json
-import sys
 import numpy as np
 from sklearn.decomposition import TruncatedSVD
+${MODEL_METADATA_SCRIPT}
 
-X = np.array(json.loads(sys.argv[1]))
-svd_data = json.loads(sys.argv[2])
+X = np.array(payload['data'], dtype=float)
+svd_data = payload['svd']
 
 svd = TruncatedSVD(n_components=svd_data['n_components'])
 svd.components_ = np.array(svd_data['components'])
@@ -252,41 +289,48 @@ svd.explained_variance_ = np.array(svd_data['explained_variance'])
 svd.explained_variance_ratio_ = np.array(svd_data['explained_variance_ratio'])
 svd.singular_values_ = np.array(svd_data['singular_values'])
 
+check_model_metadata(svd_data, payload['feature_columns'])
+
 transformed = svd.transform(X)
 
 result = {
-    'transformed': transformed.tolist()
+    'transformed': transformed.tolist(),
+    'model_warnings': MODEL_WARNINGS
 }
 
 print(json.dumps(result))
 `;
 
-        const { spawn } = require('child_process');
-        const resultData = await new Promise<string>((resolve, reject) => {
-          const python = spawn(pythonPath, ['-c', pythonScript, JSON.stringify(data), svdDataStr]);
-          let output = '';
-          let errorOutput = '';
-
-          python.stdout.on('data', (data: Buffer) => { output += data.toString(); });
-          python.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
-
-          python.on('close', (code: number) => {
-            if (code !== 0) reject(new Error(`Python script failed: ${errorOutput}`));
-            else resolve(output.trim());
-          });
-        });
+          let transformed: number[][] = [];
+          if (data.length > 0) {
+            const resultData = await runPythonScript.call(this, runtime, pythonScript, {
+              data,
+              svd: svdInfo,
+              feature_columns: featureColumns,
+              serialization,
+            });
+
+            const result = JSON.parse(resultData);
+            addModelWarnings.call(this, result);
+            transformed = result.transformed;
+          }
+          const transformedByItem = rowsByItem(featureRows, transformed, items.length);
 
-        const result = JSON.parse(resultData);
+          for (const i of group.itemIndexes) {
+            const newJson: any = { ...items[i].json };
+            const components = transformedByItem[i];
 
-        for (let i = 0; i < items.length; i++) {
-          const newJson: any = { ...items[i].json };
+            if (components) {
+              for (let j = 0; j < components.length; j++) {
+                newJson[`svd_component_${j + 1}`] = components[j];
+              }
+            }
 
-          for (let j = 0; j < result.transformed[i].length; j++) {
-            newJson[`svd_component_${j + 1}`] = result.transformed[i][j];
+            outputs[i] = { json: newJson };
           }
-
-          returnData.push({ json: newJson });
         }
+        addMissingValueHints.call(this, summaries);
+        returnData.push(...outputs);
       }
     } catch (error) {
       if (this.continueOnFail()) {
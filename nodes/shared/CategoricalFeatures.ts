@@ -0,0 +1,137 @@
+import {
+  IDataObject,
+  IDisplayOptions,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { columnValue } from './ColumnSelection';
+import { assertAllowed } from './Validation';
+
+const CATEGORICAL_ENCODINGS = ['oneHot', 'ordinal'] as const;
+
+/**
+ * Encoding of categorical feature columns, recorded with the model so that
+ * predictions encode them the same way.
+ */
+export interface CategoricalEncoding extends IDataObject {
+  encoding: (typeof CATEGORICAL_ENCODINGS)[number];
+  columns: string[];
+  /** Sorted categories seen in training, per column */
+  categories: Record<string, string[]>;
+}
+
+/**
+ * Properties of a training operation choosing columns encoded as categories.
+ */
+export function categoricalFeatureProperties(show: IDisplayOptions['show']): INodeProperties[] {
+  return [
+    {
+      displayName: 'Categorical Columns',
+      name: 'categoricalColumns',
+      type: 'string',
+      displayOptions: { show },
+      default: '',
+      placeholder: 'color,city',
+      description:
+        'Comma-separated list of columns, or patterns, holding categories such as strings. They are encoded inside the model, so predictions read them unencoded.',
+    },
+    {
+      displayName: 'Categorical Encoding',
+      name: 'categoricalEncoding',
+      type: 'options',
+      displayOptions: { show },
+      options: [
+        {
+          name: 'One-Hot',
+          value: 'oneHot',
+          description: 'One 0/1 feature per category, all 0 for categories not seen in training',
+        },
+        {
+          name: 'Ordinal',
+          value: 'ordinal',
+          description: 'One feature holding the index of the category, -1 for categories not seen in training',
+        },
+      ],
+      default: 'oneHot',
+    },
+  ];
+}
+
+/**
+ * The category of a value, or null for missing values, which are encoded like
+ * categories not seen in training.
+ */
+function categoryValue(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Collects the categories of the Categorical Columns of a group of items.
+ */
+export function fitCategoricalEncoding(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+  columns: string[],
+  itemIndex: number,
+): CategoricalEncoding {
+  const encoding = assertAllowed(
+    this.getNode(),
+    'categoricalEncoding',
+    this.getNodeParameter('categoricalEncoding', itemIndex, 'oneHot'),
+    CATEGORICAL_ENCODINGS,
+  );
+  const categories: Record<string, string[]> = {};
+  for (const col of columns) {
+    const values = new Set<string>();
+    for (const item of items) {
+      const value = categoryValue(columnValue(item.json, col));
+      if (value !== null) values.add(value);
+    }
+    if (values.size === 0) {
+      throw new NodeOperationError(this.getNode(), `Categorical column '${col}' has no values`);
+    }
+    categories[col] = [...values].sort();
+  }
+  return { encoding, columns, categories };
+}
+
+/**
+ * Names of the features a categorical encoding produces, `<column>_<category>`
+ * for one-hot encoding like the Sklearn One-Hot Encoder node.
+ */
+export function encodedColumnNames(encoding: CategoricalEncoding): string[] {
+  if (encoding.encoding === 'ordinal') return encoding.columns;
+  return encoding.columns.flatMap((col) => encoding.categories[col].map((category) => `${col}_${category}`));
+}
+
+/**
+ * Encodes the categorical columns of an item.
+ */
+export function encodeCategories(encoding: CategoricalEncoding, json: IDataObject): number[] {
+  return encoding.columns.flatMap((col) => {
+    const categories = encoding.categories[col];
+    const index = categories.indexOf(categoryValue(columnValue(json, col)) as string);
+    if (encoding.encoding === 'ordinal') return [index];
+    return categories.map((_, j) => (j === index ? 1 : 0));
+  });
+}
+
+/**
+ * Columns a model reads from the items: its numeric feature columns followed
+ * by its categorical columns, in place of the features encoded from them, and
+ * its raw columns, which follow the encoded features in `featureColumns`.
+ */
+export function modelInputColumns(
+  featureColumns: string[],
+  encoding: CategoricalEncoding | null,
+  rawColumns: string[] = [],
+): string[] {
+  if (!encoding) return featureColumns;
+  const encoded = encodedColumnNames(encoding);
+  const numeric = featureColumns.slice(0, featureColumns.length - rawColumns.length - encoded.length);
+  return [...numeric, ...encoding.columns, ...rawColumns];
+}
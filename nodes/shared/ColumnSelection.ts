@@ -0,0 +1,140 @@
+import { IDataObject, IExecuteFunctions, INodeExecutionData, NodeOperationError } from 'n8n-workflow';
+
+export interface ColumnSelectionOptions {
+  /** Columns never matched by patterns, such as the target column */
+  exclude?: string[];
+  /** Whether patterns only match columns holding numbers, the default */
+  numeric?: boolean;
+}
+
+/**
+ * Reads a column of an item. Names that are not keys of the item are read as
+ * dot-separated paths into nested objects.
+ */
+export function columnValue(json: IDataObject, column: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(json, column)) return json[column];
+
+  let value: unknown = json;
+  for (const key of column.split('.')) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return undefined;
+    if (!Object.prototype.hasOwnProperty.call(value, key)) return undefined;
+    value = (value as IDataObject)[key];
+  }
+  return value;
+}
+
+function isPattern(entry: string): boolean {
+  return /^\/.*\/[a-z]*$/.test(entry) || /[*?]/.test(entry);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compiles a `/regular expression/` or a wildcard pattern, where `*` matches
+ * any characters and `?` a single one.
+ */
+function patternRegExp(this: IExecuteFunctions, entry: string): RegExp {
+  const regex = entry.match(/^\/(.*)\/([a-z]*)$/);
+  if (!regex) {
+    const wildcard = entry
+      .split('*')
+      .map((part) => part.split('?').map(escapeRegExp).join('.'))
+      .join('.*');
+    return new RegExp(`^${wildcard}$`);
+  }
+  try {
+    // Global and sticky flags would make test() stateful
+    return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+  } catch (error) {
+    throw new NodeOperationError(this.getNode(), `Invalid column pattern '${entry}'`, {
+      description: (error as Error).message,
+    });
+  }
+}
+
+function isNumeric(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (typeof value === 'number') return true;
+  return typeof value === 'string' && Number.isFinite(Number(value));
+}
+
+/**
+ * Adds the columns of an item to `columns`, flattening nested objects into
+ * dot-separated paths, and records whether every value seen is numeric.
+ * Missing values do not make a column non-numeric.
+ */
+function collectColumns(json: IDataObject, prefix: string, columns: Map<string, boolean>): void {
+  for (const [key, value] of Object.entries(json)) {
+    const column = `${prefix}${key}`;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      collectColumns(value as IDataObject, `${column}.`, columns);
+      continue;
+    }
+    columns.set(column, (columns.get(column) ?? true) && isNumeric(value));
+  }
+}
+
+/**
+ * Resolves a comma-separated column list against the input items. Entries are
+ * column names or dot-separated paths, wildcard patterns such as `feature_*`,
+ * or regular expressions such as `/^f\d+$/`. Entries starting with `!` exclude
+ * the columns they match, and a list of exclusions alone selects every other
+ * column. Patterns match columns in order of first appearance, skipping the
+ * excluded option columns and, unless `numeric` is false, columns holding
+ * values other than numbers.
+ */
+export function selectColumns(
+  this: IExecuteFunctions,
+  spec: string,
+  items: INodeExecutionData[],
+  options: ColumnSelectionOptions = {},
+): string[] {
+  const entries = spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+  const includes = entries.filter((entry) => !entry.startsWith('!'));
+  const excludes = entries.filter((entry) => entry.startsWith('!')).map((entry) => entry.slice(1).trim());
+  if (entries.length === 0) {
+    throw new NodeOperationError(this.getNode(), 'No columns selected');
+  }
+  if (excludes.length === 0 && !includes.some(isPattern)) {
+    return includes;
+  }
+
+  const numericOnly = options.numeric !== false;
+  const available = new Map<string, boolean>();
+  for (const item of items) collectColumns(item.json, '', available);
+  const candidates = [...available.entries()]
+    .filter(([column, numeric]) => (numeric || !numericOnly) && !options.exclude?.includes(column))
+    .map(([column]) => column);
+
+  const selected = new Set<string>(includes.length === 0 ? candidates : []);
+  for (const entry of includes) {
+    if (!isPattern(entry)) {
+      selected.add(entry);
+      continue;
+    }
+    const regexp = patternRegExp.call(this, entry);
+    const matches = candidates.filter((column) => regexp.test(column));
+    if (matches.length === 0) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Column pattern '${entry}' matches no ${numericOnly ? 'numeric ' : ''}columns`,
+      );
+    }
+    matches.forEach((column) => selected.add(column));
+  }
+
+  const excluded = excludes.map((entry) => (isPattern(entry) ? patternRegExp.call(this, entry) : entry));
+  const columns = [...selected].filter(
+    (column) =>
+      !excluded.some((entry) => (typeof entry === 'string' ? entry === column : entry.test(column))),
+  );
+  if (columns.length === 0) {
+    throw new NodeOperationError(this.getNode(), `No columns selected by '${spec}'`);
+  }
+  return columns;
+}
@@ -0,0 +1,76 @@
+/**
+ * Module of every scikit-learn class that nodes may look up by name.
+ */
+const SKLEARN_CLASSES: Record<string, string> = {
+  LinearRegression: 'sklearn.linear_model',
+  LogisticRegression: 'sklearn.linear_model',
+  Ridge: 'sklearn.linear_model',
+  Lasso: 'sklearn.linear_model',
+  ElasticNet: 'sklearn.linear_model',
+  IsotonicRegression: 'sklearn.isotonic',
+  DecisionTreeClassifier: 'sklearn.tree',
+  DecisionTreeRegressor: 'sklearn.tree',
+  ExtraTreeRegressor: 'sklearn.tree',
+  RandomForestClassifier: 'sklearn.ensemble',
+  RandomForestRegressor: 'sklearn.ensemble',
+  GradientBoostingClassifier: 'sklearn.ensemble',
+  GradientBoostingRegressor: 'sklearn.ensemble',
+  IsolationForest: 'sklearn.ensemble',
+  VotingClassifier: 'sklearn.ensemble',
+  StackingClassifier: 'sklearn.ensemble',
+  CalibratedClassifierCV: 'sklearn.calibration',
+  DummyClassifier: 'sklearn.dummy',
+  DummyRegressor: 'sklearn.dummy',
+  SVC: 'sklearn.svm',
+  SVR: 'sklearn.svm',
+  KNeighborsClassifier: 'sklearn.neighbors',
+  KNeighborsRegressor: 'sklearn.neighbors',
+  KDTree: 'sklearn.neighbors',
+  BallTree: 'sklearn.neighbors',
+  GaussianNB: 'sklearn.naive_bayes',
+  BernoulliNB: 'sklearn.naive_bayes',
+  MultinomialNB: 'sklearn.naive_bayes',
+  MLPClassifier: 'sklearn.neural_network',
+  MLPRegressor: 'sklearn.neural_network',
+  KMeans: 'sklearn.cluster',
+  Pipeline: 'sklearn.pipeline',
+  ColumnTransformer: 'sklearn.compose',
+  StandardScaler: 'sklearn.preprocessing',
+  MinMaxScaler: 'sklearn.preprocessing',
+  RobustScaler: 'sklearn.preprocessing',
+  Normalizer: 'sklearn.preprocessing',
+  Binarizer: 'sklearn.preprocessing',
+  PolynomialFeatures: 'sklearn.preprocessing',
+  OneHotEncoder: 'sklearn.preprocessing',
+  OrdinalEncoder: 'sklearn.preprocessing',
+  LabelEncoder: 'sklearn.preprocessing',
+  LabelBinarizer: 'sklearn.preprocessing',
+  SimpleImputer: 'sklearn.impute',
+  TfidfVectorizer: 'sklearn.feature_extraction.text',
+  TfidfTransformer: 'sklearn.feature_extraction.text',
+  PCA: 'sklearn.decomposition',
+  TruncatedSVD: 'sklearn.decomposition',
+  NMF: 'sklearn.decomposition',
+  SelectKBest: 'sklearn.feature_selection',
+  SelectPercentile: 'sklearn.feature_selection',
+  VarianceThreshold: 'sklearn.feature_selection',
+};
+
+/**
+ * Generates the Python imports and a dictionary named `variable` mapping each
+ * class name to its class, so that scripts never evaluate user-provided names.
+ */
+export function pythonClassRegistry(variable: string, names: readonly string[]): string {
+  const byModule = new Map<string, string[]>();
+  for (const name of names) {
+    const module = SKLEARN_CLASSES[name];
+    if (!module) throw new Error(`Unknown scikit-learn class '${name}'`);
+    byModule.set(module, [...(byModule.get(module) ?? []), name]);
+  }
+
+  const imports = [...byModule.entries()].map(
+    ([module, classes]) => `from ${module} import ${classes.join(', ')}`,
+  );
+  const entries = names.map((name) => `    '${name}': ${name},`);
+  return [...imports, '', `${variable} = {`, ...entries, '}'].join('\n');
+}
@@ -0,0 +1,306 @@
+import { createHash } from 'crypto';
+import {
+  IDataObject,
+  IDisplayOptions,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { CategoricalEncoding, modelInputColumns } from './CategoricalFeatures';
+import { columnValue, selectColumns } from './ColumnSelection';
+import { addMissingValueHints, extractFeatureRows, FeatureValue, MissingValueSummary } from './MissingValues';
+import { modelDataKey, readModelData } from './ModelArtifacts';
+import { extractModelMetadata } from './ModelRegistry';
+import { addModelWarnings } from './ModelSerialization';
+import { PythonRuntimeOptions, runPythonScript } from './PythonRuntime';
+
+/**
+ * Python helper converting feature rows to a float array, or to an object
+ * array when raw columns hold strings, with NaN for missing values. It must
+ * follow `MODEL_METADATA_SCRIPT` or `MODEL_SERIALIZATION_SCRIPT`.
+ */
+export const FEATURE_ARRAY_SCRIPT = `def feature_array(rows):
+    try:
+        return _numpy.array(rows, dtype=float)
+    except (TypeError, ValueError):
+        return _numpy.array([[_numpy.nan if value is None else value for value in row] for row in rows], dtype=object)`;
+
+/**
+ * Python helper running a prediction function once per group of items sharing
+ * a model and feature columns. It must follow `MODEL_METADATA_SCRIPT` or
+ * `MODEL_SERIALIZATION_SCRIPT`. The function receives the model, the features
+ * of the group as built by `feature_array` and their column names, and returns
+ * a dict of lists holding one entry per row.
+ */
+export const PREDICTION_GROUPS_SCRIPT = `${FEATURE_ARRAY_SCRIPT}
+
+def run_prediction_groups(predict):
+    results = []
+    for group in payload['groups']:
+        X = feature_array(group['features'])
+        results.append(predict(group['model'], X, group['feature_columns']))
+    warnings = list(dict.fromkeys(MODEL_WARNINGS))
+    print(_json.dumps({'groups': results, 'model_warnings': warnings}))`;
+
+/**
+ * Items trained into one model.
+ */
+export interface ItemGroup {
+  /** Fields identifying the group, added to the output item of its model */
+  fields: IDataObject;
+  items: INodeExecutionData[];
+  itemIndexes: number[];
+}
+
+/**
+ * Items predicted with the same model and feature columns.
+ */
+export interface PredictionGroup {
+  model: IDataObject;
+  featureColumns: string[];
+  itemIndexes: number[];
+  features: FeatureValue[][];
+}
+
+/**
+ * Items transformed with the same model.
+ */
+export interface ModelItemGroup {
+  /** The model as read, parsed by each node */
+  modelJson: string;
+  items: INodeExecutionData[];
+  itemIndexes: number[];
+}
+
+/**
+ * Property splitting the items of a training operation into one model per
+ * distinct value of a column.
+ */
+export function groupByProperty(show: IDisplayOptions['show']): INodeProperties {
+  return {
+    displayName: 'Group By Column',
+    name: 'groupByColumn',
+    type: 'string',
+    displayOptions: { show },
+    default: '',
+    placeholder: 'store_id',
+    description:
+      'Train one model per distinct value of this column, each output as its own item along with the value. Leave empty to train a single model on every item.',
+  };
+}
+
+/**
+ * Splits the input items by the value of the Group By Column parameter, in
+ * order of first appearance, or returns every item as a single group.
+ */
+export function splitItemGroups(this: IExecuteFunctions, items: INodeExecutionData[]): ItemGroup[] {
+  const column = (this.getNodeParameter('groupByColumn', 0, '') as string).trim();
+  if (!column) {
+    return [{ fields: {}, items, itemIndexes: items.map((_, idx) => idx) }];
+  }
+
+  const groups = new Map<string, ItemGroup>();
+  items.forEach((item, idx) => {
+    const value = columnValue(item.json, column);
+    if (value === undefined || value === null) {
+      throw new NodeOperationError(this.getNode(), `Group column '${column}' not found in item`, {
+        itemIndex: idx,
+      });
+    }
+    const key = JSON.stringify(value);
+    let group = groups.get(key);
+    if (!group) {
+      group = { fields: { [column]: value as IDataObject[string] }, items: [], itemIndexes: [] };
+      groups.set(key, group);
+    }
+    group.items.push(item);
+    group.itemIndexes.push(idx);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * The columns a model was trained on, read when a prediction operation leaves
+ * its feature columns empty. Categorical columns are read unencoded.
+ */
+function modelFeatureColumns(this: IExecuteFunctions, model: IDataObject, itemIndex: number): string[] {
+  const metadata = extractModelMetadata(model);
+  const columns = Array.isArray(model.feature_columns)
+    ? (model.feature_columns as string[])
+    : (metadata?.features as IDataObject[] | undefined)?.map((feature) => feature.name as string);
+  if (!columns) {
+    throw new NodeOperationError(this.getNode(), 'The model does not record its feature columns', {
+      description: 'Set the feature columns of the prediction',
+      itemIndex,
+    });
+  }
+  return modelInputColumns(
+    columns,
+    (model.categorical as CategoricalEncoding | undefined) ?? null,
+    (model.raw_columns as string[] | undefined) ?? [],
+  );
+}
+
+/**
+ * Resolves the model and feature column parameters of every input item and
+ * groups the items using the same ones. Each distinct model is read once.
+ * Empty feature columns default to the columns the model was trained on, and
+ * items dropped by the missing value policy are left out of every group.
+ */
+export async function groupPredictionItems(
+  this: IExecuteFunctions,
+  featureParameter: string,
+  modelParameter = 'modelData',
+): Promise<PredictionGroup[]> {
+  const items = this.getInputData();
+  const models = new Map<string, { hash: string; model: IDataObject }>();
+  const groups = new Map<string, PredictionGroup>();
+  const summaries: MissingValueSummary[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const reference = modelDataKey.call(this, modelParameter, itemIndex);
+    let entry = models.get(reference);
+    if (!entry) {
+      const modelJson = await readModelData.call(this, modelParameter, itemIndex);
+      entry = {
+        hash: createHash('sha256').update(modelJson).digest('hex'),
+        model: JSON.parse(modelJson),
+      };
+      models.set(reference, entry);
+    }
+
+    const featureColumnsStr = this.getNodeParameter(featureParameter, itemIndex, '') as string;
+    const featureColumns = featureColumnsStr.trim()
+      ? selectColumns.call(this, featureColumnsStr, [items[itemIndex]], {
+          exclude: [extractModelMetadata(entry.model)?.target as string],
+        })
+      : modelFeatureColumns.call(this, entry.model, itemIndex);
+    const { columns, rows, summary } = extractFeatureRows.call(
+      this,
+      { items: [items[itemIndex]], itemIndexes: [itemIndex] },
+      featureColumns,
+      { model: entry.model },
+    );
+    summaries.push(summary);
+    if (rows.length === 0) continue;
+
+    const key = `${entry.hash}:${JSON.stringify(columns)}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { model: entry.model, featureColumns: columns, itemIndexes: [], features: [] };
+      groups.set(key, group);
+    }
+    group.itemIndexes.push(itemIndex);
+    group.features.push(rows[0]);
+  }
+  addMissingValueHints.call(this, summaries);
+  return [...groups.values()];
+}
+
+/**
+ * Groups the input items by the model they read, in order of first
+ * appearance, for transform operations whose model parameter may differ per
+ * item. Each distinct model is read once.
+ */
+export async function groupModelItems(this: IExecuteFunctions, modelParameter: string): Promise<ModelItemGroup[]> {
+  const items = this.getInputData();
+  const models = new Map<string, string>();
+  const groups = new Map<string, ModelItemGroup>();
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const reference = modelDataKey.call(this, modelParameter, itemIndex);
+    let hash = models.get(reference);
+    if (hash === undefined) {
+      const modelJson = await readModelData.call(this, modelParameter, itemIndex);
+      hash = createHash('sha256').update(modelJson).digest('hex');
+      models.set(reference, hash);
+      if (!groups.has(hash)) {
+        groups.set(hash, { modelJson, items: [], itemIndexes: [] });
+      }
+    }
+    const group = groups.get(hash) as ModelItemGroup;
+    group.items.push(items[itemIndex]);
+    group.itemIndexes.push(itemIndex);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * The model used by each input item.
+ */
+export function itemModels(groups: PredictionGroup[], itemCount: number): IDataObject[] {
+  const models = new Array<IDataObject>(itemCount);
+  for (const group of groups) {
+    for (const itemIndex of group.itemIndexes) models[itemIndex] = group.model;
+  }
+  return models;
+}
+
+/**
+ * Merges the per-row lists returned for each group back into input item order,
+ * so `result.<key>[itemIndex]` holds the entry of each item.
+ */
+function mergeGroupResults(
+  groups: PredictionGroup[],
+  results: IDataObject[],
+  itemCount: number,
+): Record<string, any[]> {
+  const merged: Record<string, any[]> = {};
+  groups.forEach((group, g) => {
+    for (const [key, rows] of Object.entries(results[g])) {
+      merged[key] ??= new Array(itemCount);
+      group.itemIndexes.forEach((itemIndex, row) => {
+        merged[key][itemIndex] = (rows as unknown[])[row];
+      });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Runs a script ending with `run_prediction_groups` on every group in a single
+ * Python call and merges the per-row lists it returns.
+ */
+export async function runPredictionGroups(
+  this: IExecuteFunctions,
+  runtime: PythonRuntimeOptions,
+  script: string,
+  groups: PredictionGroup[],
+  payload: IDataObject,
+): Promise<Record<string, any[]>> {
+  if (groups.length === 0) return {};
+
+  const output = await runPythonScript.call(this, runtime, script, {
+    ...payload,
+    groups: groups.map((group) => ({
+      model: group.model,
+      features: group.features,
+      feature_columns: group.featureColumns,
+    })),
+  });
+  const result = JSON.parse(output) as { groups: IDataObject[]; model_warnings: string[] };
+  addModelWarnings.call(this, result);
+
+  return mergeGroupResults(groups, result.groups, this.getInputData().length);
+}
+
+/**
+ * Evaluates every group in Node.js and merges the per-row lists returned by
+ * `predict`. Mismatches it adds to `warnings` are reported once as execution
+ * hints. Only pipelines have raw columns, so the features are numbers.
+ */
+export function runNativePredictionGroups(
+  this: IExecuteFunctions,
+  groups: PredictionGroup[],
+  predict: (model: IDataObject, X: number[][], featureColumns: string[], warnings: string[]) => IDataObject,
+): Record<string, any[]> {
+  const warnings: string[] = [];
+  const results = groups.map((group) =>
+    predict(group.model, group.features as number[][], group.featureColumns, warnings),
+  );
+  addModelWarnings.call(this, { model_warnings: [...new Set(warnings)] });
+
+  return mergeGroupResults(groups, results, this.getInputData().length);
+}
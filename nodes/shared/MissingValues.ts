@@ -0,0 +1,418 @@
+import {
+  IDataObject,
+  IDisplayOptions,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import {
+  CategoricalEncoding,
+  encodeCategories,
+  encodedColumnNames,
+  fitCategoricalEncoding,
+} from './CategoricalFeatures';
+import { columnValue, selectColumns } from './ColumnSelection';
+import { assertAllowed } from './Validation';
+
+const MISSING_VALUE_POLICIES = ['error', 'drop', 'impute', 'nan'] as const;
+const IMPUTE_STRATEGIES = ['mean', 'median', 'constant'] as const;
+
+export type MissingValuePolicy = (typeof MISSING_VALUE_POLICIES)[number];
+
+/**
+ * A feature value: a number, or the unparsed value of a raw column.
+ */
+export type FeatureValue = number | string | null;
+
+/**
+ * Properties choosing how feature values that are missing or not numbers are
+ * handled. Imputation settings are shown with `imputeShow`, as predictions
+ * impute the values recorded with the model.
+ */
+export function missingValueProperties(
+  show?: IDisplayOptions['show'],
+  imputeShow: IDisplayOptions['show'] = show,
+): INodeProperties[] {
+  return [
+    {
+      displayName: 'Missing Values',
+      name: 'missingValues',
+      type: 'options',
+      displayOptions: { show },
+      options: [
+        {
+          name: 'Error',
+          value: 'error',
+          description: 'Fail on the first empty or non-numeric feature value, naming its item and column',
+        },
+        {
+          name: 'Drop Rows',
+          value: 'drop',
+          description: 'Leave out items with an empty or non-numeric feature value',
+        },
+        {
+          name: 'Impute',
+          value: 'impute',
+          description:
+            'Replace empty and non-numeric feature values. Predictions use the values computed in training.',
+        },
+        {
+          name: 'Pass as NaN',
+          value: 'nan',
+          description: 'Pass empty and non-numeric feature values as NaN, for estimators that support missing values',
+        },
+      ],
+      default: 'error',
+    },
+    {
+      displayName: 'Impute Strategy',
+      name: 'imputeStrategy',
+      type: 'options',
+      displayOptions: { show: { ...imputeShow, missingValues: ['impute'] } },
+      options: [
+        { name: 'Mean', value: 'mean', description: 'Mean of the column' },
+        { name: 'Median', value: 'median', description: 'Median of the column' },
+        { name: 'Constant', value: 'constant', description: 'The Fill Value' },
+      ],
+      default: 'mean',
+    },
+    {
+      displayName: 'Fill Value',
+      name: 'imputeFillValue',
+      type: 'number',
+      displayOptions: { show: { ...imputeShow, missingValues: ['impute'], imputeStrategy: ['constant'] } },
+      default: 0,
+      description: 'Value replacing missing feature values',
+    },
+  ];
+}
+
+/**
+ * Missing or non-numeric feature values found in the rows of an operation.
+ */
+export interface MissingValueSummary {
+  policy: MissingValuePolicy;
+  /** Rows holding at least one missing or non-numeric feature value */
+  affected_rows: number;
+  /** Affected rows left out by the `drop` policy */
+  dropped_rows: number;
+  /** Missing or non-numeric values per feature column */
+  columns: Record<string, number>;
+  /** Input item indexes of the affected rows */
+  item_indexes: number[];
+}
+
+/**
+ * Feature rows of the items kept by the missing value policy. Missing values
+ * passed through are NaN, which reaches Python as `None` and becomes NaN in
+ * float arrays.
+ */
+export interface FeatureRows {
+  items: INodeExecutionData[];
+  itemIndexes: number[];
+  /**
+   * Names of the row features: the numeric columns, the features encoded from
+   * categorical columns, then the raw columns
+   */
+  columns: string[];
+  rows: FeatureValue[][];
+  /** Numpy dtypes of the input values of `columns`, before their conversion */
+  dtypes: string[];
+  summary: MissingValueSummary;
+  /** Strategy and values imputed per column, recorded with trained models */
+  imputation: IDataObject | null;
+  /** Encoding of the categorical columns, recorded with trained models */
+  categorical: CategoricalEncoding | null;
+}
+
+export interface FeatureRowOptions {
+  /** Model whose recorded imputation, categorical encoding and raw columns a prediction applies */
+  model?: IDataObject;
+  /** Columns never selected as categorical, such as the target column */
+  exclude?: string[];
+  /**
+   * Columns passed unparsed to transformers handling them in Python, such as
+   * encoders and imputers. The missing value policy does not apply to them.
+   */
+  rawColumns?: string[];
+}
+
+/**
+ * Parses a feature value, returning NaN for values that are empty or not
+ * numbers.
+ */
+function featureValue(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  return Number(value);
+}
+
+/**
+ * The numpy dtype pandas infers for the values of a JSON column, ignoring
+ * missing values. Features encoded from a categorical column have its dtype.
+ */
+function inputDtype(values: unknown[]): string {
+  const present = values.filter((value) => value !== undefined && value !== null && value !== '');
+  if (present.length > 0 && present.every((value) => typeof value === 'boolean')) {
+    return present.length === values.length ? 'bool' : 'object';
+  }
+  if (present.every((value) => typeof value === 'number')) {
+    const integers = present.length === values.length && present.every((value) => Number.isInteger(value));
+    return integers ? 'int64' : 'float64';
+  }
+  return 'object';
+}
+
+/**
+ * The value of a raw column, with missing values as null and nested values
+ * as JSON.
+ */
+function rawValue(value: unknown): FeatureValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Values replacing missing ones in training, computed per column from the
+ * values that are present.
+ */
+function imputationValues(
+  this: IExecuteFunctions,
+  rows: FeatureValue[][],
+  featureColumns: string[],
+  itemIndex: number,
+): Record<string, number> {
+  const strategy = assertAllowed(
+    this.getNode(),
+    'imputeStrategy',
+    this.getNodeParameter('imputeStrategy', itemIndex, 'mean'),
+    IMPUTE_STRATEGIES,
+  );
+  const fillValue = this.getNodeParameter('imputeFillValue', itemIndex, 0) as number;
+
+  const values: Record<string, number> = {};
+  featureColumns.forEach((col, j) => {
+    if (strategy === 'constant') {
+      values[col] = fillValue;
+      return;
+    }
+    const present = rows.map((row) => row[j] as number).filter((value) => Number.isFinite(value));
+    if (present.length === 0) {
+      throw new NodeOperationError(this.getNode(), `Feature column '${col}' has no numeric values to impute from`);
+    }
+    values[col] = strategy === 'mean' ? present.reduce((a, b) => a + b, 0) / present.length : median(present);
+  });
+  return values;
+}
+
+/**
+ * Reads the feature columns of a group of items, handling empty and
+ * non-numeric values with the Missing Values parameter of its first item, and
+ * appends the encoded Categorical Columns. Training computes the values to
+ * impute and the categories, while predictions pass their `model` to apply the
+ * ones recorded with it.
+ */
+export function extractFeatureRows(
+  this: IExecuteFunctions,
+  group: { items: INodeExecutionData[]; itemIndexes: number[] },
+  featureColumns: string[],
+  options: FeatureRowOptions = {},
+): FeatureRows {
+  const { model } = options;
+  const itemIndex = group.itemIndexes[0];
+  let categorical = (model?.categorical as CategoricalEncoding | undefined) ?? null;
+  if (!model) {
+    const spec = this.getNodeParameter('categoricalColumns', itemIndex, '') as string;
+    if (spec.trim()) {
+      const columns = selectColumns.call(this, spec, group.items, { exclude: options.exclude, numeric: false });
+      categorical = fitCategoricalEncoding.call(this, group.items, columns, itemIndex);
+    }
+  }
+  const rawColumns = (model ? (model.raw_columns as string[] | undefined) : options.rawColumns) ?? [];
+  const numericColumns = featureColumns.filter(
+    (col) => !categorical?.columns.includes(col) && !rawColumns.includes(col),
+  );
+  const columns = [...numericColumns, ...(categorical ? encodedColumnNames(categorical) : []), ...rawColumns];
+  const duplicate = columns.find((col, j) => columns.indexOf(col) !== j);
+  if (duplicate !== undefined) {
+    throw new NodeOperationError(this.getNode(), `Encoded categorical feature '${duplicate}' clashes with a column`);
+  }
+
+  const policy = assertAllowed(
+    this.getNode(),
+    'missingValues',
+    this.getNodeParameter('missingValues', itemIndex, 'error'),
+    MISSING_VALUE_POLICIES,
+  );
+  const summary: MissingValueSummary = {
+    policy,
+    affected_rows: 0,
+    dropped_rows: 0,
+    columns: {},
+    item_indexes: [],
+  };
+  const result: FeatureRows = {
+    items: [],
+    itemIndexes: [],
+    columns,
+    rows: [],
+    dtypes: [],
+    summary,
+    imputation: null,
+    categorical: model ? null : categorical,
+  };
+
+  group.items.forEach((item, idx) => {
+    const row: FeatureValue[] = numericColumns.map((col) => {
+      const raw = columnValue(item.json, col);
+      const value = featureValue(raw);
+      if (Number.isFinite(value)) return value;
+
+      if (policy === 'error') {
+        const message =
+          raw === undefined
+            ? `Feature column '${col}' not found in item`
+            : raw === null || raw === ''
+              ? `Feature column '${col}' is empty`
+              : `Feature column '${col}' holds the non-numeric value ${JSON.stringify(raw)}`;
+        throw new NodeOperationError(this.getNode(), message, {
+          description: 'Set Missing Values to drop, impute or pass these values to the estimator',
+          itemIndex: group.itemIndexes[idx],
+        });
+      }
+      summary.columns[col] = (summary.columns[col] ?? 0) + 1;
+      return NaN;
+    });
+
+    const affected = row.some((value) => typeof value === 'number' && Number.isNaN(value));
+    if (affected) {
+      summary.affected_rows++;
+      summary.item_indexes.push(group.itemIndexes[idx]);
+    }
+    if (affected && policy === 'drop') {
+      summary.dropped_rows++;
+      return;
+    }
+    result.items.push(item);
+    result.itemIndexes.push(group.itemIndexes[idx]);
+    result.rows.push(row);
+  });
+
+  if (result.rows.length === 0 && group.items.length > 0 && !model) {
+    throw new NodeOperationError(this.getNode(), 'Every item has a missing or non-numeric feature value', {
+      description: 'No rows are left after dropping them',
+    });
+  }
+
+  if (policy === 'impute') {
+    let fillValues: Record<string, number>;
+    if (!model) {
+      const strategy = this.getNodeParameter('imputeStrategy', itemIndex, 'mean') as string;
+      fillValues = imputationValues.call(this, result.rows, numericColumns, itemIndex);
+      result.imputation = { strategy, fill_values: fillValues };
+    } else {
+      fillValues = ((model.imputation as IDataObject | null)?.fill_values ?? {}) as Record<string, number>;
+    }
+    for (const row of result.rows) {
+      numericColumns.forEach((col, j) => {
+        if (!Number.isNaN(row[j] as number)) return;
+        if (typeof fillValues[col] !== 'number') {
+          throw new NodeOperationError(this.getNode(), `The model records no value to impute for '${col}'`, {
+            description: 'Train the model with Missing Values set to Impute',
+            itemIndex,
+          });
+        }
+        row[j] = fillValues[col];
+      });
+    }
+  }
+  result.items.forEach((item, r) => {
+    if (categorical) result.rows[r].push(...encodeCategories(categorical, item.json));
+    result.rows[r].push(...rawColumns.map((col) => rawValue(columnValue(item.json, col))));
+  });
+  const encoding = categorical;
+  const encodedSources = encoding
+    ? encoding.columns.flatMap((col) => (encoding.encoding === 'ordinal' ? [col] : encoding.categories[col].map(() => col)))
+    : [];
+  result.dtypes = [...numericColumns, ...encodedSources, ...rawColumns].map((col) =>
+    inputDtype(result.items.map((item) => columnValue(item.json, col))),
+  );
+  return result;
+}
+
+/**
+ * Python helper converting transformed features to nested lists with None for
+ * NaN, as transformers pass the missing values of the Pass as NaN policy
+ * through. It must follow `MODEL_METADATA_SCRIPT` or `MODEL_SERIALIZATION_SCRIPT`.
+ */
+export const FEATURE_LIST_SCRIPT = `def feature_list(X):
+    return [[None if _math.isnan(value) else value for value in row] for row in _numpy.asarray(X, dtype=float).tolist()]`;
+
+/**
+ * Lines up the rows computed from `featureRows` with the input items, leaving
+ * `undefined` for the items the missing value policy left out.
+ */
+export function rowsByItem<T>(featureRows: FeatureRows, rows: T[], itemCount: number): Array<T | undefined> {
+  const byItem = new Array<T | undefined>(itemCount);
+  featureRows.itemIndexes.forEach((itemIndex, r) => {
+    byItem[itemIndex] = rows[r];
+  });
+  return byItem;
+}
+
+const POLICY_OUTCOMES: Record<Exclude<MissingValuePolicy, 'error'>, string> = {
+  drop: 'left without a prediction',
+  impute: 'imputed with the values recorded in training',
+  nan: 'passed as NaN',
+};
+
+/**
+ * Reports the missing values found in the items of a prediction as execution
+ * hints, one per policy.
+ */
+export function addMissingValueHints(this: IExecuteFunctions, summaries: MissingValueSummary[]): void {
+  for (const [policy, outcome] of Object.entries(POLICY_OUTCOMES)) {
+    const affected = summaries.filter((summary) => summary.policy === policy && summary.affected_rows > 0);
+    if (affected.length === 0) continue;
+
+    const columns: Record<string, number> = {};
+    for (const summary of affected) {
+      for (const [col, count] of Object.entries(summary.columns)) columns[col] = (columns[col] ?? 0) + count;
+    }
+    const rows = affected.reduce((total, summary) => total + summary.affected_rows, 0);
+    const counts = Object.entries(columns).map(([col, count]) => `${col} (${count})`);
+    this.addExecutionHints({
+      message: `${rows} item(s) with missing or non-numeric feature values were ${outcome}: ${counts.join(', ')}`,
+      type: 'warning',
+      location: 'outputPane',
+    });
+  }
+}
+
+/**
+ * Fails for models that impute missing values or encode categorical columns,
+ * which formats holding only the estimator, such as ONNX or PMML, would lose.
+ */
+export function assertPlainFeatures(this: IExecuteFunctions, model: IDataObject, format: string, itemIndex: number) {
+  if (model.categorical) {
+    throw new NodeOperationError(this.getNode(), `Models with Categorical Columns cannot be exported to ${format}`, {
+      description: 'Encode the columns with the encoder nodes before training, or predict with the trainer node',
+      itemIndex,
+    });
+  }
+  if (model.imputation) {
+    throw new NodeOperationError(this.getNode(), `Models imputing missing values cannot be exported to ${format}`, {
+      description: 'Train with Missing Values set to error, drop rows or pass them as NaN',
+      itemIndex,
+    });
+  }
+}
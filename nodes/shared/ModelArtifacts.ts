@@ -0,0 +1,192 @@
+import {
+  IDataObject,
+  IDisplayOptions,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import {
+  readRegisteredModel,
+  registeredModelKey,
+  registryPathProperty,
+  registryReferenceProperties,
+} from './ModelRegistry';
+import { assertAllowed } from './Validation';
+
+const MODEL_OUTPUTS = ['binary', 'json'] as const;
+const MODEL_SOURCES = ['parameter', 'binary', 'registry'] as const;
+
+/**
+ * Properties choosing how a training operation outputs the trained model.
+ */
+export function modelOutputProperties(show: IDisplayOptions['show']): INodeProperties[] {
+  return [
+    {
+      displayName: 'Model Output',
+      name: 'modelOutput',
+      type: 'options',
+      displayOptions: { show },
+      options: [
+        {
+          name: 'Binary Property',
+          value: 'binary',
+          description: 'Write the model to binary data, to be stored with file, S3 or database nodes',
+        },
+        {
+          name: 'JSON String',
+          value: 'json',
+          description: 'Write the model as a JSON string to the output item',
+        },
+      ],
+      default: 'json',
+    },
+    {
+      displayName: 'Output Binary Property',
+      name: 'modelBinaryProperty',
+      type: 'string',
+      displayOptions: { show: { ...show, modelOutput: ['binary'] } },
+      default: 'model',
+      description: 'Name of the binary property to write the model to',
+    },
+  ];
+}
+
+/**
+ * Property choosing where a prediction operation reads the model from. The
+ * node's own model data parameter must be shown for the `parameter` source.
+ */
+export function modelSourceProperties(show: IDisplayOptions['show']): INodeProperties[] {
+  return [
+    {
+      displayName: 'Model Source',
+      name: 'modelSource',
+      type: 'options',
+      displayOptions: { show },
+      options: [
+        {
+          name: 'Binary Property',
+          value: 'binary',
+          description: 'Read the model from binary data of each input item',
+        },
+        {
+          name: 'JSON Parameter',
+          value: 'parameter',
+          description: 'Read the model from a JSON string parameter',
+        },
+        {
+          name: 'Model Registry',
+          value: 'registry',
+          description: 'Read a model registered with the Sklearn Model Registry node',
+        },
+      ],
+      default: 'parameter',
+    },
+    {
+      displayName: 'Input Binary Property',
+      name: 'modelBinaryProperty',
+      type: 'string',
+      displayOptions: { show: { ...show, modelSource: ['binary'] } },
+      default: 'model',
+      description: 'Name of the binary property holding the model',
+    },
+    registryPathProperty({ ...show, modelSource: ['registry'] }),
+    ...registryReferenceProperties({ ...show, modelSource: ['registry'] }),
+  ];
+}
+
+/**
+ * Builds an output item carrying the trained model, either as binary data or
+ * as a JSON string under `jsonKey`, depending on the Model Output parameter.
+ */
+export async function withModelOutput(
+  this: IExecuteFunctions,
+  modelJson: string,
+  fileName: string,
+  json: IDataObject,
+  jsonKey = 'model',
+): Promise<INodeExecutionData> {
+  const output = assertAllowed(
+    this.getNode(),
+    'modelOutput',
+    this.getNodeParameter('modelOutput', 0, 'json'),
+    MODEL_OUTPUTS,
+  );
+  if (output === 'json') {
+    return { json: { [jsonKey]: modelJson, ...json } };
+  }
+
+  const property = this.getNodeParameter('modelBinaryProperty', 0, 'model') as string;
+  const binary = await this.helpers.prepareBinaryData(
+    Buffer.from(modelJson, 'utf-8'),
+    fileName,
+    'application/json',
+  );
+  return { json, binary: { [property]: binary } };
+}
+
+/**
+ * Index of the item whose binary data holds the model of an item, failing when
+ * the item has no such binary property.
+ */
+export function binaryModelItem(this: IExecuteFunctions, itemIndex: number, property: string): number {
+  const item = this.getInputData()[itemIndex];
+  if (!item?.binary?.[property]) {
+    throw new NodeOperationError(this.getNode(), `Item has no binary property '${property}' holding the model`, {
+      description: 'Add the model to the binary data of every item, or check the name of the binary property',
+      itemIndex,
+    });
+  }
+  return itemIndex;
+}
+
+/**
+ * Identifies the model read by an item without reading it, so that items
+ * sharing a model only read it once.
+ */
+export function modelDataKey(this: IExecuteFunctions, parameterName = 'modelData', itemIndex = 0): string {
+  const source = assertAllowed(
+    this.getNode(),
+    'modelSource',
+    this.getNodeParameter('modelSource', 0, 'parameter'),
+    MODEL_SOURCES,
+  );
+  if (source === 'parameter') {
+    return `parameter:${this.getNodeParameter(parameterName, itemIndex) as string}`;
+  }
+  if (source === 'registry') {
+    return `registry:${registeredModelKey.call(this, itemIndex)}`;
+  }
+  const property = this.getNodeParameter('modelBinaryProperty', itemIndex, 'model') as string;
+  return `binary:${binaryModelItem.call(this, itemIndex, property)}:${property}`;
+}
+
+/**
+ * Reads the JSON model consumed by a prediction operation, from the binary
+ * data of an input item, the model registry or the given string parameter.
+ */
+export async function readModelData(
+  this: IExecuteFunctions,
+  parameterName = 'modelData',
+  itemIndex = 0,
+): Promise<string> {
+  const source = assertAllowed(
+    this.getNode(),
+    'modelSource',
+    this.getNodeParameter('modelSource', 0, 'parameter'),
+    MODEL_SOURCES,
+  );
+  if (source === 'parameter') {
+    return this.getNodeParameter(parameterName, itemIndex) as string;
+  }
+  if (source === 'registry') {
+    return readRegisteredModel.call(this, itemIndex);
+  }
+
+  const property = this.getNodeParameter('modelBinaryProperty', itemIndex, 'model') as string;
+  const binaryItem = binaryModelItem.call(this, itemIndex, property);
+  this.helpers.assertBinaryData(binaryItem, property);
+  const buffer = await this.helpers.getBinaryDataBuffer(binaryItem, property);
+  return buffer.toString('utf-8');
+}
@@ -0,0 +1,441 @@
+import {
+  IDataObject,
+  IDisplayOptions,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { assertPlainFeatures } from './MissingValues';
+import { modelDataKey, readModelData } from './ModelArtifacts';
+import { extractModelMetadata } from './ModelRegistry';
+import { addModelWarnings } from './ModelSerialization';
+import { checkNativeModel, ExportedTree, readTreeExport } from './NativeInference';
+import { assertAllowed } from './Validation';
+
+const MODEL_EXPORT_FORMATS = ['pmml', 'modelCard'] as const;
+
+export type ExportedModelKind = 'linear' | 'logistic' | 'trees';
+
+/**
+ * Model parameters shared by the PMML document and the model card.
+ */
+interface ModelDefinition {
+  estimator: string;
+  task: 'regression' | 'classification';
+  features: string[];
+  target: string;
+  classes: unknown[] | null;
+  metadata: IDataObject | null;
+  /** Regression tables, one per class for multiclass models */
+  tables?: Array<{ intercept: number; coefficients: number[]; targetCategory?: unknown }>;
+  normalization?: 'logit' | 'softmax';
+  trees?: ExportedTree[];
+}
+
+/**
+ * Properties of the Export Definition operation.
+ */
+export function modelExportProperties(show: IDisplayOptions['show']): INodeProperties[] {
+  return [
+    {
+      displayName: 'Export Format',
+      name: 'exportFormat',
+      type: 'options',
+      displayOptions: { show },
+      options: [
+        {
+          name: 'JSON Model Card',
+          value: 'modelCard',
+          description: 'Parameters of the model as JSON with sorted keys, to be read and diffed without Python',
+        },
+        {
+          name: 'PMML',
+          value: 'pmml',
+          description: 'Predictive Model Markup Language 4.4 document, read by most scoring engines',
+        },
+      ],
+      default: 'modelCard',
+    },
+    {
+      displayName: 'Output Binary Property',
+      name: 'exportBinaryProperty',
+      type: 'string',
+      displayOptions: { show },
+      default: 'export',
+      description: 'Name of the binary property to write the exported model to',
+    },
+  ];
+}
+
+function requireArray(this: IExecuteFunctions, model: IDataObject, key: string): unknown[] {
+  if (!Array.isArray(model[key])) {
+    throw new NodeOperationError(this.getNode(), `Model has no '${key}' parameters to export`, {
+      description: 'Retrain the model to record them',
+    });
+  }
+  return model[key] as unknown[];
+}
+
+/**
+ * Collects the parameters of a model in a form independent of the node that
+ * trained it.
+ */
+function describeModel(this: IExecuteFunctions, model: IDataObject, kind: ExportedModelKind): ModelDefinition {
+  const metadata = extractModelMetadata(model);
+  const features = requireArray.call(this, model, 'feature_columns') as string[];
+  const target = (metadata?.target as string | null) ?? 'target';
+
+  if (kind === 'linear') {
+    // Models trained before the metadata recorded the estimator class only
+    // record the Ridge or Lasso model type
+    const estimator = (metadata?.estimator ?? model.model_type ?? 'LinearRegression') as string;
+    return {
+      estimator,
+      task: 'regression',
+      features,
+      target,
+      classes: null,
+      metadata,
+      tables: [
+        {
+          intercept: Number(model.intercept),
+          coefficients: requireArray.call(this, model, 'coefficients') as number[],
+        },
+      ],
+    };
+  }
+
+  if (kind === 'logistic') {
+    const coefficients = requireArray.call(this, model, 'coefficients') as number[][];
+    const intercept = requireArray.call(this, model, 'intercept') as number[];
+    const classes = requireArray.call(this, model, 'classes');
+    const binary = coefficients.length === 1;
+    const tables = coefficients.map((weights, k) => ({
+      intercept: intercept[k],
+      coefficients: weights,
+      targetCategory: binary ? classes[1] : classes[k],
+    }));
+    if (binary) {
+      // The reference category of a binary model has a zero regression table
+      tables.push({ intercept: 0, coefficients: [], targetCategory: classes[0] });
+    }
+    return {
+      estimator: 'LogisticRegression',
+      task: 'classification',
+      features,
+      target,
+      classes,
+      metadata,
+      tables,
+      normalization: binary ? 'logit' : 'softmax',
+    };
+  }
+
+  const exported = readTreeExport.call(this, model);
+  if (exported.estimator !== 'decision_tree' && exported.estimator !== 'random_forest') {
+    throw new NodeOperationError(this.getNode(), `Cannot export '${exported.estimator}' models`);
+  }
+  const classes = exported.classes as unknown[] | null;
+  const family = exported.estimator === 'decision_tree' ? 'DecisionTree' : 'RandomForest';
+  return {
+    estimator: `${family}${classes ? 'Classifier' : 'Regressor'}`,
+    task: classes ? 'classification' : 'regression',
+    features,
+    target,
+    classes,
+    metadata,
+    trees: exported.trees as unknown as ExportedTree[],
+  };
+}
+
+function namedCoefficients(features: string[], coefficients: number[]): IDataObject {
+  return Object.fromEntries(features.map((name, j) => [name, coefficients[j]]));
+}
+
+/**
+ * Class probabilities of a leaf, from the class weights scikit-learn stores.
+ */
+function leafProbabilities(value: number[]): number[] {
+  const total = value.reduce((sum, weight) => sum + weight, 0) || 1;
+  return value.map((weight) => weight / total);
+}
+
+function leafClass(definition: ModelDefinition, value: number[]): unknown {
+  let best = 0;
+  for (let k = 1; k < value.length; k++) if (value[k] > value[best]) best = k;
+  return (definition.classes as unknown[])[best];
+}
+
+function cardTreeNode(definition: ModelDefinition, tree: ExportedTree, node: number): IDataObject {
+  const value = tree.value[node];
+  if (tree.children_left[node] === -1) {
+    return definition.classes
+      ? { class: leafClass(definition, value) as string, probabilities: leafProbabilities(value) }
+      : { value: value[0] };
+  }
+
+  const split: IDataObject = {
+    feature: definition.features[tree.feature[node]],
+    threshold: tree.threshold[node],
+    less_or_equal: cardTreeNode(definition, tree, tree.children_left[node]),
+    greater: cardTreeNode(definition, tree, tree.children_right[node]),
+  };
+  if (tree.missing_go_to_left) {
+    split.missing = tree.missing_go_to_left[node] === 1 ? 'less_or_equal' : 'greater';
+  }
+  return split;
+}
+
+/**
+ * Serializes the model as JSON with sorted keys, so that versions of a model
+ * can be compared line by line.
+ */
+function modelCard(definition: ModelDefinition): string {
+  const card: IDataObject = {
+    estimator: definition.estimator,
+    task: definition.task,
+    features: definition.features,
+    target: definition.target,
+    metadata: definition.metadata,
+  };
+  if (definition.classes) {
+    card.class_mapping = Object.fromEntries(definition.classes.map((label, k) => [String(k), label]));
+  }
+
+  const tables = definition.tables ?? [];
+  if (definition.normalization) {
+    card.link = definition.normalization;
+    card.decision_functions = tables
+      .filter((table) => table.coefficients.length > 0)
+      .map((table) => ({
+        class: table.targetCategory,
+        intercept: table.intercept,
+        coefficients: namedCoefficients(definition.features, table.coefficients),
+      }));
+  } else if (tables.length > 0) {
+    card.intercept = tables[0].intercept;
+    card.coefficients = namedCoefficients(definition.features, tables[0].coefficients);
+  }
+
+  if (definition.trees) {
+    card.split_rule = 'Rows whose feature is less than or equal to the threshold follow less_or_equal';
+    if (definition.trees.length > 1) card.aggregation = 'average';
+    card.trees = definition.trees.map((tree) => cardTreeNode(definition, tree, 0));
+  }
+
+  return JSON.stringify(
+    card,
+    (_, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.keys(value).sort().map((key) => [key, value[key]]))
+        : value,
+    2,
+  );
+}
+
+function xml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function pmmlMiningSchema(definition: ModelDefinition, indent: string): string[] {
+  return [
+    `${indent}<MiningSchema>`,
+    ...definition.features.map((name) => `${indent}  <MiningField name="${xml(name)}"/>`),
+    `${indent}  <MiningField name="${xml(definition.target)}" usageType="target"/>`,
+    `${indent}</MiningSchema>`,
+  ];
+}
+
+function pmmlTreeNode(
+  definition: ModelDefinition,
+  tree: ExportedTree,
+  node: number,
+  predicate: string,
+  indent: string,
+): string[] {
+  const value = tree.value[node];
+  const leaf = tree.children_left[node] === -1;
+  const score = leaf ? ` score="${xml(definition.classes ? leafClass(definition, value) : value[0])}"` : '';
+  const defaultChild =
+    !leaf && tree.missing_go_to_left
+      ? ` defaultChild="${tree.missing_go_to_left[node] === 1 ? tree.children_left[node] : tree.children_right[node]}"`
+      : '';
+  const lines = [`${indent}<Node id="${node}"${score}${defaultChild}>`, `${indent}  ${predicate}`];
+
+  if (leaf) {
+    if (definition.classes) {
+      const probabilities = leafProbabilities(value);
+      (definition.classes as unknown[]).forEach((label, k) => {
+        lines.push(
+          `${indent}  <ScoreDistribution value="${xml(label)}" recordCount="${value[k]}" probability="${probabilities[k]}"/>`,
+        );
+      });
+    }
+  } else {
+    const field = xml(definition.features[tree.feature[node]]);
+    const threshold = tree.threshold[node];
+    lines.push(
+      ...pmmlTreeNode(
+        definition,
+        tree,
+        tree.children_left[node],
+        `<SimplePredicate field="${field}" operator="lessOrEqual" value="${threshold}"/>`,
+        `${indent}  `,
+      ),
+      ...pmmlTreeNode(
+        definition,
+        tree,
+        tree.children_right[node],
+        `<SimplePredicate field="${field}" operator="greaterThan" value="${threshold}"/>`,
+        `${indent}  `,
+      ),
+    );
+  }
+  lines.push(`${indent}</Node>`);
+  return lines;
+}
+
+function pmmlTreeModel(definition: ModelDefinition, tree: ExportedTree, indent: string): string[] {
+  const missing = tree.missing_go_to_left ? ' missingValueStrategy="defaultChild"' : '';
+  return [
+    `${indent}<TreeModel functionName="${definition.task}" splitCharacteristic="binarySplit"${missing}>`,
+    ...pmmlMiningSchema(definition, `${indent}  `),
+    ...pmmlTreeNode(definition, tree, 0, '<True/>', `${indent}  `),
+    `${indent}</TreeModel>`,
+  ];
+}
+
+/**
+ * Writes the model as a PMML 4.4 document: a RegressionModel for linear and
+ * logistic regression, a TreeModel for decision trees and a MiningModel
+ * averaging TreeModel segments for random forests.
+ */
+function pmmlDocument(definition: ModelDefinition): string {
+  const trainedAt = definition.metadata?.trained_at;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<PMML xmlns="http://www.dmg.org/PMML-4_4" version="4.4">',
+    `  <Header description="${xml(definition.estimator)} exported by n8n-nodes-sklearn">`,
+    '    <Application name="n8n-nodes-sklearn"/>',
+    ...(trainedAt ? [`    <Timestamp>${xml(trainedAt)}</Timestamp>`] : []),
+    '  </Header>',
+    `  <DataDictionary numberOfFields="${definition.features.length + 1}">`,
+    ...definition.features.map((name) => `    <DataField name="${xml(name)}" optype="continuous" dataType="double"/>`),
+  ];
+  if (definition.classes) {
+    lines.push(
+      `    <DataField name="${xml(definition.target)}" optype="categorical" dataType="string">`,
+      ...definition.classes.map((label) => `      <Value value="${xml(label)}"/>`),
+      '    </DataField>',
+    );
+  } else {
+    lines.push(`    <DataField name="${xml(definition.target)}" optype="continuous" dataType="double"/>`);
+  }
+  lines.push('  </DataDictionary>');
+
+  if (definition.tables) {
+    const normalization = definition.normalization ? ` normalizationMethod="${definition.normalization}"` : '';
+    lines.push(
+      `  <RegressionModel functionName="${definition.task}" algorithmName="${definition.estimator}"${normalization}>`,
+      ...pmmlMiningSchema(definition, '    '),
+    );
+    for (const table of definition.tables) {
+      const category = table.targetCategory !== undefined ? ` targetCategory="${xml(table.targetCategory)}"` : '';
+      if (table.coefficients.length === 0) {
+        lines.push(`    <RegressionTable intercept="${table.intercept}"${category}/>`);
+        continue;
+      }
+      lines.push(
+        `    <RegressionTable intercept="${table.intercept}"${category}>`,
+        ...table.coefficients.map(
+          (coefficient, j) =>
+            `      <NumericPredictor name="${xml(definition.features[j])}" exponent="1" coefficient="${coefficient}"/>`,
+        ),
+        '    </RegressionTable>',
+      );
+    }
+    lines.push('  </RegressionModel>');
+  } else if (definition.trees && definition.trees.length === 1) {
+    lines.push(...pmmlTreeModel(definition, definition.trees[0], '  '));
+  } else if (definition.trees) {
+    lines.push(
+      `  <MiningModel functionName="${definition.task}" algorithmName="${definition.estimator}">`,
+      ...pmmlMiningSchema(definition, '    '),
+      '    <Segmentation multipleModelMethod="average">',
+    );
+    definition.trees.forEach((tree, t) => {
+      lines.push(
+        `      <Segment id="${t + 1}">`,
+        '        <True/>',
+        ...pmmlTreeModel(definition, tree, '        '),
+        '      </Segment>',
+      );
+    });
+    lines.push('    </Segmentation>', '  </MiningModel>');
+  }
+
+  lines.push('</PMML>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports the model read by each input item as a PMML document or a JSON
+ * model card, written to binary data. Models are checked like for native
+ * inference, so signed models cannot be exported.
+ */
+export async function exportModelDefinitions(
+  this: IExecuteFunctions,
+  kind: ExportedModelKind,
+  fileName: string,
+  serialization: IDataObject,
+): Promise<INodeExecutionData[]> {
+  const format = assertAllowed(
+    this.getNode(),
+    'exportFormat',
+    this.getNodeParameter('exportFormat', 0, 'modelCard'),
+    MODEL_EXPORT_FORMATS,
+  );
+  const property = this.getNodeParameter('exportBinaryProperty', 0, 'export') as string;
+  const [extension, mimeType] =
+    format === 'pmml' ? ['pmml', 'application/xml'] : ['model-card.json', 'application/json'];
+  const items = this.getInputData();
+  const exports = new Map<string, { estimator: string; content: string }>();
+  const warnings: string[] = [];
+  const returnData: INodeExecutionData[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const reference = modelDataKey.call(this, 'modelData', itemIndex);
+    let exported = exports.get(reference);
+    if (!exported) {
+      const model = JSON.parse(await readModelData.call(this, 'modelData', itemIndex)) as IDataObject;
+      warnings.push(...checkNativeModel.call(this, model, null, serialization));
+      assertPlainFeatures.call(this, model, format === 'pmml' ? 'PMML' : 'a model card', itemIndex);
+      const definition = describeModel.call(this, model, kind);
+      exported = {
+        estimator: definition.estimator,
+        content: format === 'pmml' ? pmmlDocument(definition) : modelCard(definition),
+      };
+      exports.set(reference, exported);
+    }
+
+    const binary = await this.helpers.prepareBinaryData(
+      Buffer.from(exported.content, 'utf-8'),
+      `${fileName}.${extension}`,
+      mimeType,
+    );
+    returnData.push({
+      json: { export_format: format, estimator: exported.estimator },
+      binary: { [property]: binary },
+    });
+  }
+
+  addModelWarnings.call(this, { model_warnings: [...new Set(warnings)] });
+  return returnData;
+}
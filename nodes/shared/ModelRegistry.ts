@@ -0,0 +1,395 @@
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import {
+  IDataObject,
+  IDisplayOptions,
+  IExecuteFunctions,
+  INode,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { assertAllowed } from './Validation';
+
+export const REGISTRY_STAGES = ['none', 'staging', 'production', 'archived'] as const;
+
+export type RegistryStage = (typeof REGISTRY_STAGES)[number];
+
+const REGISTRY_REFERENCES = ['latest', 'stage', 'version'] as const;
+const LOOKUP_STAGES = ['staging', 'production'] as const;
+
+/** Names become directory names, so they may not contain path separators */
+const MODEL_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+const VERSION_FILE = 'version.json';
+const MODEL_FILE = 'model.json';
+
+export interface RegisteredModelVersion extends IDataObject {
+  name: string;
+  version: number;
+  stage: RegistryStage;
+  description: string;
+  registered_at: string;
+  updated_at: string;
+  metadata: IDataObject | null;
+}
+
+export interface RegistryReference {
+  version?: number;
+  stage?: RegistryStage;
+}
+
+/**
+ * Property setting the directory of the model registry.
+ */
+export function registryPathProperty(show?: IDisplayOptions['show']): INodeProperties {
+  return {
+    displayName: 'Registry Path',
+    name: 'registryPath',
+    type: 'string',
+    displayOptions: show ? { show } : undefined,
+    default: '',
+    placeholder: '~/.n8n/sklearn-models',
+    description:
+      'Directory holding the registered models. Defaults to sklearn-models in the n8n user folder.',
+  };
+}
+
+/**
+ * Properties selecting a registered model by name and latest version, stage or
+ * version number.
+ */
+export function registryReferenceProperties(show: IDisplayOptions['show']): INodeProperties[] {
+  return [
+    {
+      displayName: 'Model Name',
+      name: 'registryModelName',
+      type: 'string',
+      displayOptions: { show },
+      default: '',
+      placeholder: 'churn-classifier',
+      description: 'Name the model was registered under',
+      required: true,
+    },
+    {
+      displayName: 'Model Reference',
+      name: 'registryReference',
+      type: 'options',
+      displayOptions: { show },
+      options: [
+        {
+          name: 'Latest Version',
+          value: 'latest',
+        },
+        {
+          name: 'Stage',
+          value: 'stage',
+          description: 'The version currently promoted to a stage',
+        },
+        {
+          name: 'Version Number',
+          value: 'version',
+        },
+      ],
+      default: 'latest',
+    },
+    {
+      displayName: 'Stage',
+      name: 'registryStage',
+      type: 'options',
+      displayOptions: { show: { ...show, registryReference: ['stage'] } },
+      options: [
+        {
+          name: 'Production',
+          value: 'production',
+        },
+        {
+          name: 'Staging',
+          value: 'staging',
+        },
+      ],
+      default: 'production',
+    },
+    {
+      displayName: 'Version',
+      name: 'registryVersion',
+      type: 'number',
+      displayOptions: { show: { ...show, registryReference: ['version'] } },
+      typeOptions: {
+        minValue: 1,
+      },
+      default: 1,
+    },
+  ];
+}
+
+/**
+ * Extracts the metadata recorded by the trainer from a model, whether it is an
+ * envelope of a serialized estimator or JSON state.
+ */
+export function extractModelMetadata(model: IDataObject): IDataObject | null {
+  if (model.metadata && typeof model.metadata === 'object') {
+    return model.metadata as IDataObject;
+  }
+  for (const [key, value] of Object.entries(model)) {
+    const envelope = value as IDataObject | null;
+    if (key.endsWith('_envelope') && envelope && typeof envelope.metadata === 'object') {
+      return envelope.metadata as IDataObject;
+    }
+  }
+  return null;
+}
+
+/**
+ * Models stored in a local directory as `<name>/<version>/model.json`, next to
+ * a `version.json` file describing the version. Versions are numbered from 1
+ * and at most one version of a model is in the staging or production stage.
+ */
+export class ModelRegistry {
+  constructor(
+    private node: INode,
+    readonly root: string,
+  ) {}
+
+  private modelDirectory(name: string): string {
+    if (!MODEL_NAME_PATTERN.test(name)) {
+      throw new NodeOperationError(this.node, `Invalid model name '${name}'`, {
+        description: 'Names may contain letters, digits, dots, dashes and underscores',
+      });
+    }
+    return join(this.root, name);
+  }
+
+  private async readVersion(name: string, version: number): Promise<RegisteredModelVersion | null> {
+    try {
+      const file = join(this.modelDirectory(name), String(version), VERSION_FILE);
+      return JSON.parse(await fs.readFile(file, 'utf-8')) as RegisteredModelVersion;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async writeVersion(info: RegisteredModelVersion): Promise<void> {
+    const file = join(this.modelDirectory(info.name), String(info.version), VERSION_FILE);
+    await fs.writeFile(file, JSON.stringify(info, null, 2));
+  }
+
+  private async versionNumbers(name: string): Promise<number[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.modelDirectory(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return entries
+      .filter((entry) => /^[1-9]\d*$/.test(entry))
+      .map(Number)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Lists the versions of a model, or of every model when no name is given.
+   */
+  async list(name?: string): Promise<RegisteredModelVersion[]> {
+    let names: string[];
+    if (name) {
+      names = [name];
+    } else {
+      try {
+        names = (await fs.readdir(this.root)).filter((entry) => MODEL_NAME_PATTERN.test(entry)).sort();
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+    }
+
+    const versions: RegisteredModelVersion[] = [];
+    for (const modelName of names) {
+      for (const version of await this.versionNumbers(modelName)) {
+        // Versions still being written have no version file yet
+        const info = await this.readVersion(modelName, version);
+        if (info) versions.push(info);
+      }
+    }
+    return versions;
+  }
+
+  /**
+   * Stores a model as the next version of `name`.
+   */
+  async register(name: string, modelJson: string, description: string): Promise<RegisteredModelVersion> {
+    let model: IDataObject;
+    try {
+      model = JSON.parse(modelJson) as IDataObject;
+    } catch (error) {
+      throw new NodeOperationError(this.node, 'The model to register is not valid JSON', {
+        description: (error as Error).message,
+      });
+    }
+
+    const directory = this.modelDirectory(name);
+    await fs.mkdir(directory, { recursive: true });
+    let version = ((await this.versionNumbers(name)).pop() ?? 0) + 1;
+    // Creating the version directory fails if a concurrent registration took the number
+    for (;;) {
+      try {
+        await fs.mkdir(join(directory, String(version)));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        version++;
+      }
+    }
+
+    const now = new Date().toISOString();
+    const info: RegisteredModelVersion = {
+      name,
+      version,
+      stage: 'none',
+      description,
+      registered_at: now,
+      updated_at: now,
+      metadata: extractModelMetadata(model),
+    };
+    await fs.writeFile(join(directory, String(version), MODEL_FILE), modelJson);
+    await this.writeVersion(info);
+    return info;
+  }
+
+  /**
+   * Finds the version of a model selected by version number, by stage, or the
+   * latest version when the reference is empty.
+   */
+  async find(name: string, reference: RegistryReference = {}): Promise<RegisteredModelVersion> {
+    const versions = await this.list(name);
+    let info: RegisteredModelVersion | undefined;
+    let description: string;
+    if (reference.version !== undefined) {
+      info = versions.find((candidate) => candidate.version === reference.version);
+      description = `version ${reference.version}`;
+    } else if (reference.stage !== undefined) {
+      info = versions.find((candidate) => candidate.stage === reference.stage);
+      description = `version in stage '${reference.stage}'`;
+    } else {
+      info = versions[versions.length - 1];
+      description = 'versions';
+    }
+
+    if (!info) {
+      throw new NodeOperationError(this.node, `Model '${name}' has no ${description}`, {
+        description: `Registry: ${this.root}`,
+      });
+    }
+    return info;
+  }
+
+  /**
+   * Reads the model stored for a version.
+   */
+  async read(info: RegisteredModelVersion): Promise<string> {
+    return fs.readFile(join(this.modelDirectory(info.name), String(info.version), MODEL_FILE), 'utf-8');
+  }
+
+  /**
+   * Moves a version to a stage, archiving the version that was in the staging
+   * or production stage before.
+   */
+  async promote(name: string, version: number, stage: RegistryStage): Promise<RegisteredModelVersion[]> {
+    const info = await this.find(name, { version });
+    const now = new Date().toISOString();
+    const changed: RegisteredModelVersion[] = [];
+
+    if (stage === 'staging' || stage === 'production') {
+      for (const other of await this.list(name)) {
+        if (other.version !== version && other.stage === stage) {
+          const archived = { ...other, stage: 'archived' as const, updated_at: now };
+          await this.writeVersion(archived);
+          changed.push(archived);
+        }
+      }
+    }
+
+    const promoted = { ...info, stage, updated_at: now };
+    await this.writeVersion(promoted);
+    return [promoted, ...changed];
+  }
+
+  /**
+   * Deletes a version and the model directory once no versions remain.
+   */
+  async delete(name: string, version: number): Promise<RegisteredModelVersion> {
+    const info = await this.find(name, { version });
+    const directory = this.modelDirectory(name);
+    await fs.rm(join(directory, String(version)), { recursive: true, force: true });
+    if ((await this.versionNumbers(name)).length === 0) {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+    return info;
+  }
+}
+
+/**
+ * Opens the registry in the directory set by the Registry Path parameter.
+ */
+export function getModelRegistry(this: IExecuteFunctions, itemIndex = 0): ModelRegistry {
+  const path = (this.getNodeParameter('registryPath', itemIndex, '') as string).trim();
+  let root: string;
+  if (!path) {
+    root = join(process.env.N8N_USER_FOLDER ?? homedir(), '.n8n', 'sklearn-models');
+  } else if (path === '~' || path.startsWith('~/')) {
+    root = join(homedir(), path.slice(1));
+  } else {
+    root = resolve(path);
+  }
+  return new ModelRegistry(this.getNode(), root);
+}
+
+/**
+ * Resolves the registry reference parameters of an item.
+ */
+function resolveRegistryReference(
+  this: IExecuteFunctions,
+  itemIndex: number,
+): { registry: ModelRegistry; name: string; reference: RegistryReference } {
+  const registry = getModelRegistry.call(this, itemIndex);
+  const name = this.getNodeParameter('registryModelName', itemIndex) as string;
+  const kind = assertAllowed(
+    this.getNode(),
+    'registryReference',
+    this.getNodeParameter('registryReference', itemIndex, 'latest'),
+    REGISTRY_REFERENCES,
+  );
+
+  let reference: RegistryReference = {};
+  if (kind === 'stage') {
+    const stage = assertAllowed(
+      this.getNode(),
+      'registryStage',
+      this.getNodeParameter('registryStage', itemIndex),
+      LOOKUP_STAGES,
+    );
+    reference = { stage };
+  } else if (kind === 'version') {
+    reference = { version: this.getNodeParameter('registryVersion', itemIndex) as number };
+  }
+  return { registry, name, reference };
+}
+
+/**
+ * Identifies the registered model an item refers to without reading it.
+ */
+export function registeredModelKey(this: IExecuteFunctions, itemIndex = 0): string {
+  const { registry, name, reference } = resolveRegistryReference.call(this, itemIndex);
+  return JSON.stringify([registry.root, name, reference]);
+}
+
+/**
+ * Reads the model selected by the registry reference parameters.
+ */
+export async function readRegisteredModel(this: IExecuteFunctions, itemIndex = 0): Promise<string> {
+  const { registry, name, reference } = resolveRegistryReference.call(this, itemIndex);
+  return registry.read(await registry.find(name, reference));
+}
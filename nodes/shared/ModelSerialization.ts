@@ -0,0 +1,449 @@
+import {
+  IDataObject,
+  IExecuteFunctions,
+  INodeCredentialDescription,
+  INodeProperties,
+} from 'n8n-workflow';
+
+import { pythonClassRegistry } from './Estimators';
+import { SCORE_FUNCS_SCRIPT } from './PipelineSteps';
+import { assertAllowed } from './Validation';
+
+const MODEL_FORMATS = ['pickle', 'skops'] as const;
+const MISMATCH_POLICIES = ['warn', 'error', 'ignore'] as const;
+
+/**
+ * Estimators saved by the nodes, and the fitted estimators they hold, which a
+ * skops model may contain.
+ */
+const SKOPS_TRUSTED_CLASSES = [
+  'LinearRegression',
+  'LogisticRegression',
+  'Ridge',
+  'Lasso',
+  'ElasticNet',
+  'IsotonicRegression',
+  'DecisionTreeClassifier',
+  'DecisionTreeRegressor',
+  'ExtraTreeRegressor',
+  'RandomForestClassifier',
+  'RandomForestRegressor',
+  'GradientBoostingClassifier',
+  'GradientBoostingRegressor',
+  'IsolationForest',
+  'VotingClassifier',
+  'StackingClassifier',
+  'CalibratedClassifierCV',
+  'DummyClassifier',
+  'DummyRegressor',
+  'SVC',
+  'SVR',
+  'KNeighborsClassifier',
+  'KNeighborsRegressor',
+  'KDTree',
+  'BallTree',
+  'GaussianNB',
+  'BernoulliNB',
+  'MultinomialNB',
+  'MLPClassifier',
+  'MLPRegressor',
+  'KMeans',
+  'Pipeline',
+  'ColumnTransformer',
+  'StandardScaler',
+  'MinMaxScaler',
+  'RobustScaler',
+  'Normalizer',
+  'Binarizer',
+  'PolynomialFeatures',
+  'OneHotEncoder',
+  'OrdinalEncoder',
+  'LabelEncoder',
+  'LabelBinarizer',
+  'SimpleImputer',
+  'TfidfVectorizer',
+  'TfidfTransformer',
+  'PCA',
+  'TruncatedSVD',
+  'NMF',
+  'SelectKBest',
+  'SelectPercentile',
+  'VarianceThreshold',
+] as const;
+
+/**
+ * Array types and private helpers of fitted estimators, by qualified name.
+ * Loss classes are listed under their modules before and after scikit-learn
+ * 1.4.
+ */
+const SKOPS_TRUSTED_TYPES = [
+  'numpy.ndarray',
+  'numpy.dtype',
+  'numpy.float64',
+  'numpy.int64',
+  'numpy.int32',
+  'numpy.random.mtrand.RandomState',
+  'builtins.slice',
+  'scipy.sparse._csr.csr_matrix',
+  'scipy.sparse._csr.csr_array',
+  'sklearn.tree._tree.Tree',
+  'sklearn.calibration._CalibratedClassifier',
+  'sklearn.calibration._SigmoidCalibration',
+  'sklearn.metrics._dist_metrics.EuclideanDistance64',
+  'sklearn.neural_network._stochastic_optimizers.AdamOptimizer',
+  'sklearn.neural_network._stochastic_optimizers.SGDOptimizer',
+  'sklearn.utils._bunch.Bunch',
+  'sklearn._loss.link.IdentityLink',
+  'sklearn._loss.link.Interval',
+  'sklearn._loss.link.LogitLink',
+  'sklearn._loss.link.MultinomialLogit',
+  'sklearn._loss.loss.AbsoluteError',
+  'sklearn._loss.loss.ExponentialLoss',
+  'sklearn._loss.loss.HalfBinomialLoss',
+  'sklearn._loss.loss.HalfMultinomialLoss',
+  'sklearn._loss.loss.HalfSquaredError',
+  'sklearn._loss.loss.HuberLoss',
+  'sklearn._loss.loss.PinballLoss',
+  'sklearn._loss._loss.CyAbsoluteError',
+  'sklearn._loss._loss.CyExponentialLoss',
+  'sklearn._loss._loss.CyHalfBinomialLoss',
+  'sklearn._loss._loss.CyHalfMultinomialLoss',
+  'sklearn._loss._loss.CyHalfSquaredError',
+  'sklearn._loss._loss.CyHuberLoss',
+  'sklearn._loss._loss.CyPinballLoss',
+  'sklearn.ensemble._gb_losses.BinomialDeviance',
+  'sklearn.ensemble._gb_losses.ExponentialLoss',
+  'sklearn.ensemble._gb_losses.HuberLossFunction',
+  'sklearn.ensemble._gb_losses.LeastAbsoluteError',
+  'sklearn.ensemble._gb_losses.LeastSquaresError',
+  'sklearn.ensemble._gb_losses.MultinomialDeviance',
+  'sklearn.ensemble._gb_losses.QuantileLossFunction',
+];
+
+/**
+ * Python helpers recording how a model was trained and checking that it fits
+ * the environment and input it is used with. Models stored as JSON state call
+ * `model_metadata` when trained and `check_model_metadata` before use, while
+ * `MODEL_SERIALIZATION_SCRIPT` applies both to serialized estimators. Non-fatal
+ * mismatches are added to `MODEL_WARNINGS`.
+ */
+export const MODEL_METADATA_SCRIPT = `import datetime as _datetime
+import hashlib as _hashlib
+import json as _json
+import math as _math
+import platform as _platform
+import numpy as _numpy
+import sklearn as _sklearn
+
+MODEL_WARNINGS = []
+
+class ModelIntegrityError(Exception):
+    pass
+
+class ModelCompatibilityError(Exception):
+    pass
+
+def _content_hash(data):
+    return 'sha256:' + _hashlib.sha256(data).hexdigest()
+
+def _state_hash(state):
+    # Numbers are hashed as floats since JSON round trips may drop the decimal point
+    def canonical(value):
+        if isinstance(value, dict):
+            return {str(k): canonical(v) for k, v in value.items()}
+        if isinstance(value, list):
+            return [canonical(v) for v in value]
+        if isinstance(value, (int, float)) and not isinstance(value, bool):
+            return float(value)
+        return value
+    content = {k: v for k, v in state.items() if k != 'metadata'}
+    return _content_hash(_json.dumps(canonical(content), sort_keys=True).encode('utf-8'))
+
+def _json_safe(value):
+    if isinstance(value, float) and not _math.isfinite(value):
+        return str(value)
+    if value is None or isinstance(value, (bool, int, float, str)):
+        return value
+    if isinstance(value, dict):
+        return {str(k): _json_safe(v) for k, v in value.items()}
+    if isinstance(value, (list, tuple)):
+        return [_json_safe(v) for v in value]
+    if hasattr(value, 'tolist'):
+        return _json_safe(value.tolist())
+    return repr(value)
+
+def _model_metadata(model, content_hash, X, feature_names):
+    serialization = payload['serialization']
+    X = _numpy.asarray(X)
+    # Features are converted to floats before they reach Python, so the nodes
+    # send the dtypes of their input values. Raw values are sent unconverted.
+    dtypes = payload.get('feature_dtypes')
+    if not dtypes or len(dtypes) != len(feature_names):
+        columns = X.T if X.ndim == 2 else [X]
+        dtypes = [str(_numpy.asarray(column.tolist()).dtype) for column in columns]
+    return {
+        'node_type': serialization['node_type'],
+        'node_version': serialization['node_version'],
+        'python_version': _platform.python_version(),
+        'sklearn_version': _sklearn.__version__,
+        'numpy_version': _numpy.__version__,
+        'trained_at': _datetime.datetime.now(_datetime.timezone.utc).isoformat(),
+        'features': [{'name': name, 'dtype': dtype} for name, dtype in zip(feature_names, dtypes)],
+        'target': serialization['target'] or None,
+        'classes': _json_safe(getattr(model, 'classes_', None)),
+        'n_samples': int(X.shape[0]),
+        'estimator': type(model).__name__,
+        'hyperparameters': _json_safe(model.get_params(deep=False)),
+        'content_hash': content_hash,
+    }
+
+def _model_mismatch(message):
+    policy = payload['serialization']['on_mismatch']
+    if policy == 'error':
+        raise ModelCompatibilityError(message)
+    if policy == 'warn':
+        MODEL_WARNINGS.append(message)
+
+def _check_compatibility(metadata, feature_names):
+    if not metadata:
+        _model_mismatch('Model has no metadata, so its compatibility cannot be checked. Retrain it to record it.')
+        return
+    if metadata['sklearn_version'] != _sklearn.__version__:
+        _model_mismatch(
+            f"Model was trained with scikit-learn {metadata['sklearn_version']} "
+            f"but scikit-learn {_sklearn.__version__} is installed"
+        )
+    if feature_names is None:
+        return
+    trained = [feature['name'] for feature in metadata['features']]
+    missing = [name for name in trained if name not in feature_names]
+    if missing:
+        _model_mismatch('Features used in training are missing: ' + ', '.join(missing))
+    elif trained != list(feature_names):
+        _model_mismatch('Features are not in the order used in training: ' + ', '.join(trained))
+
+def model_metadata(model, X, feature_names, state):
+    return _model_metadata(model, _state_hash(state), X, feature_names)
+
+def check_model_metadata(state, feature_names=None):
+    metadata = state.get('metadata')
+    if metadata and metadata.get('content_hash') != _state_hash(state):
+        raise ModelIntegrityError('Model data does not match the content hash in its metadata')
+    _check_compatibility(metadata, feature_names)`;
+
+/**
+ * Python helpers included in every script that saves or loads estimators.
+ * `dump_model` wraps the serialized estimator in an envelope recording its
+ * format, its metadata and, when a signing key is configured, an HMAC-SHA256
+ * signature. `load_model` verifies the signature, content hash and
+ * compatibility of the model before deserializing it.
+ */
+export const MODEL_SERIALIZATION_SCRIPT = `${MODEL_METADATA_SCRIPT}
+
+import base64 as _base64
+import hmac as _hmac
+import pickle as _pickle
+
+${pythonClassRegistry('SKOPS_CLASSES', SKOPS_TRUSTED_CLASSES)}
+${SCORE_FUNCS_SCRIPT}
+
+def _qualified_name(value):
+    return f'{value.__module__}.{value.__qualname__}'
+
+SKOPS_TRUSTED_TYPES = set(${JSON.stringify(SKOPS_TRUSTED_TYPES)})
+SKOPS_TRUSTED_TYPES.update(_qualified_name(cls) for cls in SKOPS_CLASSES.values())
+SKOPS_TRUSTED_TYPES.update(_qualified_name(func) for func in SCORE_FUNCS.values())
+
+class ModelSignatureError(Exception):
+    pass
+
+class UntrustedModelError(Exception):
+    pass
+
+def _model_signature(key, model_format, data):
+    message = model_format.encode('utf-8') + b'\\0' + data
+    return _hmac.new(key.encode('utf-8'), message, _hashlib.sha256).hexdigest()
+
+def dump_model(model, X, feature_names):
+    serialization = payload['serialization']
+    model_format = serialization['format']
+    if model_format == 'skops':
+        import skops.io as _sio
+        data = _sio.dumps(model)
+    else:
+        data = _pickle.dumps(model)
+    envelope = {
+        'format': model_format,
+        'data': _base64.b64encode(data).decode('utf-8'),
+        'metadata': _model_metadata(model, _content_hash(data), X, feature_names),
+    }
+    if serialization['key']:
+        envelope['signature'] = _model_signature(serialization['key'], model_format, data)
+    return envelope
+
+def load_model(container, name='model', feature_names=None):
+    envelope = container.get(name + '_envelope')
+    if envelope is None:
+        # Models trained before envelopes were introduced hold a bare pickle
+        envelope = {'format': 'pickle', 'data': container[name + '_pickle']}
+    key = payload['serialization']['key']
+    model_format = str(envelope.get('format'))
+    data = _base64.b64decode(envelope['data'])
+    signature = envelope.get('signature')
+    if key:
+        if not signature:
+            raise ModelSignatureError('Model is not signed. Retrain it with Sign Models enabled.')
+        if not _hmac.compare_digest(str(signature), _model_signature(key, model_format, data)):
+            raise ModelSignatureError(
+                'Model signature does not match the signing key. '
+                'The model was modified or signed with a different key.'
+            )
+    elif signature:
+        raise ModelSignatureError('Model is signed. Enable Sign Models to verify it before loading.')
+    metadata = envelope.get('metadata')
+    if metadata and metadata.get('content_hash') != _content_hash(data):
+        raise ModelIntegrityError('Model data does not match the content hash in its metadata')
+    _check_compatibility(metadata, feature_names)
+    if model_format == 'skops':
+        import skops.io as _sio
+        untrusted = _sio.get_untrusted_types(data=data)
+        rejected = [t for t in untrusted if t not in SKOPS_TRUSTED_TYPES]
+        if rejected:
+            raise UntrustedModelError('Model contains untrusted types: ' + ', '.join(rejected))
+        return _sio.loads(data, trusted=untrusted)
+    if model_format == 'pickle':
+        return _pickle.loads(data)
+    raise ValueError(f"Unsupported model format '{model_format}'")`;
+
+/**
+ * Properties of every node that checks the compatibility of the models it uses.
+ */
+export const modelCompatibilityProperties: INodeProperties[] = [
+  {
+    displayName: 'On Model Mismatch',
+    name: 'modelMismatch',
+    type: 'options',
+    options: [
+      {
+        name: 'Warn',
+        value: 'warn',
+        description: 'Load the model and report the mismatch as an execution hint',
+      },
+      {
+        name: 'Fail',
+        value: 'error',
+        description: 'Stop the execution with an error',
+      },
+      {
+        name: 'Ignore',
+        value: 'ignore',
+        description: 'Load the model without reporting the mismatch',
+      },
+    ],
+    default: 'warn',
+    description:
+      'What to do when a loaded model was trained with another scikit-learn version, on features missing from the input, or has no metadata',
+  },
+];
+
+/**
+ * Properties shared by every node that saves or loads trained estimators.
+ */
+export const modelSerializationProperties: INodeProperties[] = [
+  {
+    displayName: 'Model Format',
+    name: 'modelFormat',
+    type: 'options',
+    options: [
+      {
+        name: 'Pickle',
+        value: 'pickle',
+        description: 'Supports every estimator. Only load pickled models from trusted sources.',
+      },
+      {
+        name: 'Skops',
+        value: 'skops',
+        description:
+          'Loads without executing code, accepting only the estimators these nodes save and array types. Requires the skops package.',
+      },
+    ],
+    default: 'pickle',
+    description: 'Format of the models saved by this node. Models are always loaded in the format they were saved in.',
+  },
+  {
+    displayName: 'Sign Models',
+    name: 'signModels',
+    type: 'boolean',
+    default: false,
+    description:
+      'Whether to sign saved models with the key of a Sklearn Model Signing credential and refuse to load models whose signature does not match',
+  },
+  ...modelCompatibilityProperties,
+];
+
+/**
+ * Credential holding the key used to sign and verify models.
+ */
+export const modelSigningCredentials: INodeCredentialDescription[] = [
+  {
+    name: 'sklearnModelSigningApi',
+    required: true,
+    displayOptions: {
+      show: {
+        signModels: [true],
+      },
+    },
+  },
+];
+
+/**
+ * Reads the mismatch policy of the node along with the node details recorded in
+ * model metadata, to be sent to Python as the `serialization` entry of the
+ * payload by nodes storing models as JSON state.
+ */
+export function getModelCompatibility(this: IExecuteFunctions): IDataObject {
+  const onMismatch = assertAllowed(
+    this.getNode(),
+    'modelMismatch',
+    this.getNodeParameter('modelMismatch', 0, 'warn'),
+    MISMATCH_POLICIES,
+  );
+  const node = this.getNode();
+  return {
+    on_mismatch: onMismatch,
+    node_type: node.type,
+    node_version: node.typeVersion,
+    target: this.getNodeParameter('targetColumn', 0, '') as string,
+  };
+}
+
+/**
+ * Reads the model format and signing key of the node along with its
+ * compatibility settings, to be sent to Python as the `serialization` entry of
+ * the payload.
+ */
+export async function getModelSerialization(this: IExecuteFunctions): Promise<IDataObject> {
+  const format = assertAllowed(
+    this.getNode(),
+    'modelFormat',
+    this.getNodeParameter('modelFormat', 0, 'pickle'),
+    MODEL_FORMATS,
+  );
+  let key: string | null = null;
+  if (this.getNodeParameter('signModels', 0, false) as boolean) {
+    const credentials = await this.getCredentials('sklearnModelSigningApi');
+    key = credentials.signingKey as string;
+  }
+  return { format, key, ...getModelCompatibility.call(this) };
+}
+
+/**
+ * Reports the compatibility warnings returned by `load_model` in the
+ * `model_warnings` entry of a script result as execution hints.
+ */
+export function addModelWarnings(this: IExecuteFunctions, result: IDataObject): void {
+  const warnings = (result.model_warnings as string[] | undefined) ?? [];
+  for (const message of warnings) {
+    this.addExecutionHints({ message, type: 'warning', location: 'outputPane' });
+  }
+}
@@ -0,0 +1,449 @@
+import { createHash } from 'crypto';
+import {
+  IDataObject,
+  IDisplayOptions,
+  IExecuteFunctions,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { assertAllowed } from './Validation';
+
+const INFERENCE_ENGINES = ['python', 'native'] as const;
+
+const TREE_EXPORT_FORMAT = 'sklearn-trees/1';
+
+export type InferenceEngine = (typeof INFERENCE_ENGINES)[number];
+
+/**
+ * Property choosing whether an operation runs in Python or evaluates the
+ * exported model parameters in Node.js.
+ */
+export function inferenceEngineProperty(show: IDisplayOptions['show']): INodeProperties {
+  return {
+    displayName: 'Inference Engine',
+    name: 'inferenceEngine',
+    type: 'options',
+    displayOptions: { show },
+    options: [
+      {
+        name: 'Python',
+        value: 'python',
+        description: 'Run scikit-learn in a Python process',
+      },
+      {
+        name: 'Native (TypeScript)',
+        value: 'native',
+        description: 'Compute the output in Node.js from the exported model parameters, without Python',
+      },
+    ],
+    default: 'python',
+  };
+}
+
+export function getInferenceEngine(this: IExecuteFunctions): InferenceEngine {
+  return assertAllowed(
+    this.getNode(),
+    'inferenceEngine',
+    this.getNodeParameter('inferenceEngine', 0, 'python'),
+    INFERENCE_ENGINES,
+  );
+}
+
+/**
+ * Formats a number like Python's `repr(float(value))`.
+ */
+function pythonFloat(value: number): string {
+  if (value === 0) return Object.is(value, -0) ? '-0.0' : '0.0';
+
+  const [mantissa, exponentStr] = value.toExponential().split('e');
+  const exponent = Number(exponentStr);
+  const sign = mantissa.startsWith('-') ? '-' : '';
+  const digits = mantissa.replace('-', '').replace('.', '');
+
+  if (exponent < -4 || exponent >= 16) {
+    const significand = digits.length > 1 ? `${digits[0]}.${digits.slice(1)}` : digits;
+    const exponentSign = exponent < 0 ? '-' : '+';
+    return `${sign}${significand}e${exponentSign}${String(Math.abs(exponent)).padStart(2, '0')}`;
+  }
+  if (exponent < 0) {
+    return `${sign}0.${'0'.repeat(-exponent - 1)}${digits}`;
+  }
+  if (digits.length <= exponent + 1) {
+    return `${sign}${digits}${'0'.repeat(exponent + 1 - digits.length)}.0`;
+  }
+  return `${sign}${digits.slice(0, exponent + 1)}.${digits.slice(exponent + 1)}`;
+}
+
+/**
+ * Serializes a value like Python's `json.dumps(value, sort_keys=True)` after
+ * converting every number to a float.
+ */
+function pythonJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return pythonFloat(value);
+  if (typeof value === 'string') {
+    return JSON.stringify(value).replace(
+      /[\u007f-\uffff]/g,
+      (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+    );
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(pythonJson).join(', ')}]`;
+  }
+  const entries = Object.keys(value as IDataObject)
+    .sort()
+    .map((key) => `${pythonJson(key)}: ${pythonJson((value as IDataObject)[key])}`);
+  return `{${entries.join(', ')}}`;
+}
+
+/**
+ * Content hash of a model stored as JSON state, matching `_state_hash` of
+ * `MODEL_METADATA_SCRIPT`.
+ */
+function stateHash(state: IDataObject): string {
+  const content = Object.fromEntries(Object.entries(state).filter(([key]) => key !== 'metadata'));
+  return `sha256:${createHash('sha256').update(pythonJson(content), 'utf8').digest('hex')}`;
+}
+
+/**
+ * Applies the checks `load_model` and `check_model_metadata` run in Python
+ * before a model is evaluated natively, and returns the non-fatal mismatches.
+ * The exported parameters of serialized estimators are outside their content
+ * hash and signature, so signed models can only be verified in Python.
+ */
+export function checkNativeModel(
+  this: IExecuteFunctions,
+  model: IDataObject,
+  featureColumns: string[] | null,
+  serialization: IDataObject,
+): string[] {
+  const warnings: string[] = [];
+  const mismatch = (message: string) => {
+    if (serialization.on_mismatch === 'error') {
+      throw new NodeOperationError(this.getNode(), message);
+    }
+    if (serialization.on_mismatch === 'warn') warnings.push(message);
+  };
+
+  let metadata: IDataObject | undefined;
+  const envelope = model.model_envelope as IDataObject | undefined;
+  if (envelope || model.model_pickle !== undefined) {
+    if (serialization.key) {
+      throw new NodeOperationError(this.getNode(), 'Native inference cannot verify model signatures', {
+        description: 'Set Inference Engine to Python or disable Sign Models',
+      });
+    }
+    metadata = envelope?.metadata as IDataObject | undefined;
+  } else {
+    metadata = model.metadata as IDataObject | undefined;
+    if (metadata && metadata.content_hash !== stateHash(model)) {
+      throw new NodeOperationError(this.getNode(), 'Model data does not match the content hash in its metadata');
+    }
+  }
+
+  if (!metadata) {
+    mismatch('Model has no metadata, so its compatibility cannot be checked. Retrain it to record it.');
+    return warnings;
+  }
+  if (featureColumns) {
+    const trained = (metadata.features as IDataObject[]).map((feature) => feature.name as string);
+    const missing = trained.filter((name) => !featureColumns.includes(name));
+    if (missing.length > 0) {
+      mismatch(`Features used in training are missing: ${missing.join(', ')}`);
+    } else if (trained.join('\0') !== featureColumns.join('\0')) {
+      mismatch(`Features are not in the order used in training: ${trained.join(', ')}`);
+    }
+  }
+  return warnings;
+}
+
+function missingParameters(this: IExecuteFunctions, key: string): NodeOperationError {
+  return new NodeOperationError(this.getNode(), `Model has no '${key}' parameters to evaluate natively`, {
+    description: 'Retrain the model or set Inference Engine to Python',
+  });
+}
+
+function numberArray(this: IExecuteFunctions, model: IDataObject, key: string): number[] {
+  const value = model[key];
+  if (!Array.isArray(value)) {
+    throw missingParameters.call(this, key);
+  }
+  return value as number[];
+}
+
+function checkWidth(this: IExecuteFunctions, X: number[][], width: number): void {
+  if (X.length > 0 && X[0].length !== width) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `X has ${X[0].length} features, but the model is expecting ${width} features as input`,
+    );
+  }
+}
+
+function dot(row: number[], coefficients: number[]): number {
+  let sum = 0;
+  for (let j = 0; j < row.length; j++) sum += row[j] * coefficients[j];
+  return sum;
+}
+
+function argmax(row: number[]): number {
+  let best = 0;
+  for (let k = 1; k < row.length; k++) if (row[k] > row[best]) best = k;
+  return best;
+}
+
+/**
+ * Predictions of a linear regression, ridge, lasso or elastic net model from
+ * its `coefficients` and `intercept`.
+ */
+export function predictLinear(this: IExecuteFunctions, model: IDataObject, X: number[][]): number[] {
+  const coefficients = numberArray.call(this, model, 'coefficients');
+  const intercept = Number(model.intercept);
+  checkWidth.call(this, X, coefficients.length);
+  return X.map((row) => dot(row, coefficients) + intercept);
+}
+
+/**
+ * Class predictions and probabilities of a logistic regression model from its
+ * `coefficients`, `intercept` and `classes`. Binary models use the logistic
+ * function and multiclass models the softmax, or the logistic function of each
+ * class normalized to sum to 1 for one-vs-rest models, as liblinear fits them.
+ */
+export function predictLogistic(
+  this: IExecuteFunctions,
+  model: IDataObject,
+  X: number[][],
+): { predictions: unknown[]; probabilities: number[][] } {
+  const coefficients = numberArray.call(this, model, 'coefficients') as unknown as number[][];
+  const intercept = numberArray.call(this, model, 'intercept');
+  const classes = numberArray.call(this, model, 'classes') as unknown[];
+  checkWidth.call(this, X, coefficients[0].length);
+  // Models trained before `multi_class` was recorded only record the solver
+  const multiClass = model.multi_class ?? (model.solver === 'liblinear' ? 'ovr' : 'multinomial');
+
+  const probabilities = X.map((row) => {
+    const decision = coefficients.map((weights, k) => dot(row, weights) + intercept[k]);
+    if (decision.length === 1) {
+      const positive = 1 / (1 + Math.exp(-decision[0]));
+      return [1 - positive, positive];
+    }
+    if (multiClass === 'ovr') {
+      const sigmoid = decision.map((value) => 1 / (1 + Math.exp(-value)));
+      const total = sigmoid.reduce((sum, value) => sum + value, 0);
+      return sigmoid.map((value) => value / total);
+    }
+    const max = Math.max(...decision);
+    const exp = decision.map((value) => Math.exp(value - max));
+    const total = exp.reduce((sum, value) => sum + value, 0);
+    return exp.map((value) => value / total);
+  });
+
+  const predictions = probabilities.map((row) => classes[argmax(row)]);
+  return { predictions, probabilities };
+}
+
+/**
+ * Standardizes features with the `mean` and `scale` of a fitted StandardScaler.
+ */
+export function transformStandard(this: IExecuteFunctions, scaler: IDataObject, X: number[][]): number[][] {
+  const mean = scaler.with_mean ? numberArray.call(this, scaler, 'mean') : null;
+  const scale = scaler.with_std ? numberArray.call(this, scaler, 'scale') : null;
+  checkWidth.call(this, X, (scaler.feature_columns as string[]).length);
+  return X.map((row) =>
+    row.map((value, j) => {
+      const centered = mean ? value - mean[j] : value;
+      return scale ? centered / scale[j] : centered;
+    }),
+  );
+}
+
+/**
+ * Scales features with the `scale` and `min` of a fitted MinMaxScaler, or
+ * reverts the scaling.
+ */
+export function transformMinMax(
+  this: IExecuteFunctions,
+  scaler: IDataObject,
+  X: number[][],
+  inverse: boolean,
+): number[][] {
+  const scale = numberArray.call(this, scaler, 'scale');
+  const min = numberArray.call(this, scaler, 'min');
+  checkWidth.call(this, X, scale.length);
+  return X.map((row) =>
+    row.map((value, j) => (inverse ? (value - min[j]) / scale[j] : value * scale[j] + min[j])),
+  );
+}
+
+/**
+ * Python helper exporting the fitted trees of a decision tree, random forest
+ * or gradient boosting estimator as the `tree_export` read by `predictTrees`.
+ * It must follow `MODEL_METADATA_SCRIPT` or `MODEL_SERIALIZATION_SCRIPT`.
+ */
+export const TREE_EXPORT_SCRIPT = `def _export_tree(tree):
+    exported = {
+        'children_left': tree.children_left.tolist(),
+        'children_right': tree.children_right.tolist(),
+        'feature': tree.feature.tolist(),
+        'threshold': tree.threshold.tolist(),
+        'value': tree.value[:, 0, :].tolist(),
+    }
+    missing_go_to_left = getattr(tree, 'missing_go_to_left', None)
+    if missing_go_to_left is not None:
+        exported['missing_go_to_left'] = missing_go_to_left.tolist()
+    return exported
+
+def export_trees(model):
+    classes = getattr(model, 'classes_', None)
+    exported = {
+        'format': '${TREE_EXPORT_FORMAT}',
+        'task': 'regressor' if classes is None else 'classifier',
+        'classes': None if classes is None else classes.tolist(),
+        'n_features': int(model.n_features_in_),
+    }
+    if hasattr(model, 'tree_'):
+        exported['estimator'] = 'decision_tree'
+        exported['trees'] = [_export_tree(model.tree_)]
+    elif hasattr(model, 'learning_rate'):
+        exported['estimator'] = 'gradient_boosting'
+        exported['learning_rate'] = float(model.learning_rate)
+        exported['init'] = model._raw_predict_init(_numpy.zeros((1, model.n_features_in_)))[0].tolist()
+        exported['trees'] = [[_export_tree(tree.tree_) for tree in stage] for stage in model.estimators_]
+        if classes is not None and len(classes) == 2:
+            # Before 1.4, scikit-learn predicted the class of highest probability,
+            # which is the first class when the raw score is 0
+            to_decision = getattr(getattr(model, '_loss', None), '_raw_prediction_to_decision', None)
+            tie = 1 if to_decision is None else int(to_decision(_numpy.zeros((1, 1)))[0])
+            exported['binary_decision'] = 'sign' if tie == 1 else 'argmax'
+    else:
+        exported['estimator'] = 'random_forest'
+        exported['trees'] = [_export_tree(tree.tree_) for tree in model.estimators_]
+    return exported`;
+
+export interface ExportedTree {
+  children_left: number[];
+  children_right: number[];
+  feature: number[];
+  threshold: number[];
+  value: number[][];
+  missing_go_to_left?: number[];
+}
+
+/**
+ * Follows a row from the root of a tree to its leaf and returns the leaf value.
+ */
+function treeLeaf(this: IExecuteFunctions, tree: ExportedTree, row: number[]): number[] {
+  let node = 0;
+  while (tree.children_left[node] !== -1) {
+    const value = row[tree.feature[node]];
+    let left: boolean;
+    if (Number.isNaN(value)) {
+      if (!tree.missing_go_to_left) {
+        throw new NodeOperationError(this.getNode(), 'Input X contains NaN');
+      }
+      left = tree.missing_go_to_left[node] === 1;
+    } else {
+      // scikit-learn compares the features cast to float32 with the thresholds
+      left = Math.fround(value) <= tree.threshold[node];
+    }
+    node = left ? tree.children_left[node] : tree.children_right[node];
+  }
+  return tree.value[node];
+}
+
+/**
+ * Reads the `tree_export` of a decision tree, random forest or gradient
+ * boosting model.
+ */
+export function readTreeExport(this: IExecuteFunctions, model: IDataObject): IDataObject {
+  const exported = model.tree_export as IDataObject | undefined;
+  if (!exported || exported.format !== TREE_EXPORT_FORMAT) {
+    throw missingParameters.call(this, 'tree_export');
+  }
+  return exported;
+}
+
+/**
+ * Predictions, and probabilities for classifiers, of a decision tree, random
+ * forest or gradient boosting model from its `tree_export`. Forests average
+ * the class proportions or values of their trees. Gradient boosting adds the
+ * scaled leaf values of every stage to `init`, then applies the logistic
+ * function to binary models and the softmax to multiclass ones. Binary models
+ * predict the second class from a raw score of 0, unless their
+ * `binary_decision` is `argmax`.
+ */
+export function predictTrees(
+  this: IExecuteFunctions,
+  model: IDataObject,
+  X: number[][],
+): { predictions: unknown[]; probabilities?: number[][] } {
+  const exported = readTreeExport.call(this, model);
+  checkWidth.call(this, X, exported.n_features as number);
+  const classes = exported.classes as unknown[] | null;
+
+  if (exported.estimator === 'gradient_boosting') {
+    const learningRate = exported.learning_rate as number;
+    const stages = exported.trees as unknown as ExportedTree[][];
+    const raw = X.map((row) => {
+      const scores = [...(exported.init as number[])];
+      for (const stage of stages) {
+        stage.forEach((tree, k) => {
+          scores[k] += learningRate * treeLeaf.call(this, tree, row)[0];
+        });
+      }
+      return scores;
+    });
+
+    if (!classes) {
+      return { predictions: raw.map((scores) => scores[0]) };
+    }
+    if (raw.length > 0 && raw[0].length === 1) {
+      const probabilities = raw.map((scores) => {
+        const positive = 1 / (1 + Math.exp(-scores[0]));
+        return [1 - positive, positive];
+      });
+      const byProbability = exported.binary_decision === 'argmax';
+      return {
+        predictions: raw.map((scores, i) =>
+          classes[byProbability ? argmax(probabilities[i]) : scores[0] >= 0 ? 1 : 0],
+        ),
+        probabilities,
+      };
+    }
+    return {
+      predictions: raw.map((scores) => classes[argmax(scores)]),
+      probabilities: raw.map((scores) => {
+        const max = Math.max(...scores);
+        const exp = scores.map((value) => Math.exp(value - max));
+        const total = exp.reduce((sum, value) => sum + value, 0);
+        return exp.map((value) => value / total);
+      }),
+    };
+  }
+
+  const trees = exported.trees as unknown as ExportedTree[];
+  if (!classes) {
+    return {
+      predictions: X.map((row) => {
+        let sum = 0;
+        for (const tree of trees) sum += treeLeaf.call(this, tree, row)[0];
+        return sum / trees.length;
+      }),
+    };
+  }
+
+  const probabilities = X.map((row) => {
+    const proba = new Array<number>(classes.length).fill(0);
+    for (const tree of trees) {
+      const leaf = treeLeaf.call(this, tree, row);
+      const total = leaf.reduce((sum, value) => sum + value, 0) || 1;
+      leaf.forEach((value, k) => {
+        proba[k] += value / total;
+      });
+    }
+    return proba.map((value) => value / trees.length);
+  });
+  return { predictions: probabilities.map((row) => classes[argmax(row)]), probabilities };
+}
@@ -0,0 +1,159 @@
+import {
+  IDataObject,
+  IDisplayOptions,
+  IExecuteFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { assertPlainFeatures } from './MissingValues';
+import { modelDataKey, readModelData } from './ModelArtifacts';
+import { addModelWarnings } from './ModelSerialization';
+import { PythonRuntimeOptions, runPythonScript } from './PythonRuntime';
+
+/**
+ * Python helper converting models to ONNX with skl2onnx, once per distinct
+ * model of the input items. It must follow `MODEL_METADATA_SCRIPT` or
+ * `MODEL_SERIALIZATION_SCRIPT`. The function receives the model JSON and
+ * returns the estimator or pipeline to convert.
+ */
+export const ONNX_EXPORT_SCRIPT = `def run_onnx_export(load):
+    import base64
+    try:
+        from onnx import TensorProto, helper
+        from skl2onnx import convert_sklearn
+        from skl2onnx.common.data_types import FloatTensorType
+    except ImportError:
+        raise ImportError('Export to ONNX requires the skl2onnx package in the Python environment')
+    from sklearn.base import is_classifier
+
+    results = []
+    for model_data in payload['models']:
+        model = load(model_data)
+        feature_columns = list(model_data['feature_columns'])
+        final_estimator = model.steps[-1][1] if hasattr(model, 'steps') else model
+        options = {id(final_estimator): {'zipmap': False}} if is_classifier(final_estimator) else None
+        onx = convert_sklearn(
+            model,
+            initial_types=[('features', FloatTensorType([None, len(feature_columns)]))],
+            target_opset=payload['target_opset'] or None,
+            options=options,
+        )
+
+        # Declare one input per feature column, concatenated into the converted input
+        graph = onx.graph
+        names = {name for node in graph.node for name in list(node.input) + list(node.output)}
+        names.update(initializer.name for initializer in graph.initializer)
+        names.update(output.name for output in graph.output)
+        for name in feature_columns:
+            if name in names:
+                raise ValueError(f"Feature column '{name}' clashes with a name in the ONNX graph")
+        graph.node.insert(0, helper.make_node('Concat', feature_columns, ['features'], axis=1))
+        del graph.input[:]
+        graph.input.extend([helper.make_tensor_value_info(name, TensorProto.FLOAT, [None, 1]) for name in feature_columns])
+
+        results.append({
+            'onnx': base64.b64encode(onx.SerializeToString()).decode('ascii'),
+            'inputs': feature_columns,
+            'outputs': [output.name for output in graph.output],
+            'opset': max(opset.version for opset in onx.opset_import if opset.domain in ('', 'ai.onnx')),
+        })
+    warnings = list(dict.fromkeys(MODEL_WARNINGS))
+    print(_json.dumps({'models': results, 'model_warnings': warnings}))`;
+
+/**
+ * Properties of the Export to ONNX operation.
+ */
+export function onnxExportProperties(show: IDisplayOptions['show']): INodeProperties[] {
+  return [
+    {
+      displayName: 'Target Opset',
+      name: 'onnxTargetOpset',
+      type: 'number',
+      displayOptions: { show },
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 0,
+      description: 'ONNX operator set version to target. 0 uses the latest version supported by skl2onnx.',
+    },
+    {
+      displayName: 'Output Binary Property',
+      name: 'onnxBinaryProperty',
+      type: 'string',
+      displayOptions: { show },
+      default: 'onnx',
+      description: 'Name of the binary property to write the ONNX model to',
+    },
+  ];
+}
+
+/**
+ * Converts the model read by each input item to ONNX and outputs it as binary
+ * data. Items sharing a model share a single conversion, run in one Python call.
+ */
+export async function exportOnnxModels(
+  this: IExecuteFunctions,
+  runtime: PythonRuntimeOptions,
+  script: string,
+  payload: IDataObject,
+  fileName: string,
+  modelParameter = 'modelData',
+): Promise<INodeExecutionData[]> {
+  const items = this.getInputData();
+  const references = new Map<string, number>();
+  const models: IDataObject[] = [];
+  const itemModels: number[] = [];
+
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    const reference = modelDataKey.call(this, modelParameter, itemIndex);
+    let index = references.get(reference);
+    if (index === undefined) {
+      const model = JSON.parse(await readModelData.call(this, modelParameter, itemIndex)) as IDataObject;
+      if (!Array.isArray(model.feature_columns)) {
+        throw new NodeOperationError(this.getNode(), 'Model has no feature columns to name the ONNX inputs', {
+          itemIndex,
+        });
+      }
+      assertPlainFeatures.call(this, model, 'ONNX', itemIndex);
+      // The exported model declares one float input per feature column
+      const rawColumns = (model.raw_columns as string[] | undefined) ?? [];
+      if ((model.column_transformers as IDataObject[] | undefined)?.length || rawColumns.length) {
+        throw new NodeOperationError(this.getNode(), 'Pipelines with Column Transformers cannot be exported to ONNX', {
+          description: 'Transform the columns with the transformer nodes before training the pipeline',
+          itemIndex,
+        });
+      }
+      index = models.length;
+      models.push(model);
+      references.set(reference, index);
+    }
+    itemModels.push(index);
+  }
+  if (models.length === 0) return [];
+
+  const output = await runPythonScript.call(this, runtime, script, {
+    ...payload,
+    models,
+    target_opset: this.getNodeParameter('onnxTargetOpset', 0, 0) as number,
+  });
+  const result = JSON.parse(output) as { models: IDataObject[]; model_warnings: string[] };
+  addModelWarnings.call(this, result);
+
+  const property = this.getNodeParameter('onnxBinaryProperty', 0, 'onnx') as string;
+  const returnData: INodeExecutionData[] = [];
+  for (const index of itemModels) {
+    const exported = result.models[index];
+    const binary = await this.helpers.prepareBinaryData(
+      Buffer.from(exported.onnx as string, 'base64'),
+      `${fileName}.onnx`,
+      'application/octet-stream',
+    );
+    returnData.push({
+      json: { onnx_inputs: exported.inputs, onnx_outputs: exported.outputs, opset: exported.opset },
+      binary: { [property]: binary },
+    });
+  }
+  return returnData;
+}
@@ -0,0 +1,362 @@
+import { IDataObject, IDisplayOptions, IExecuteFunctions, INodeProperties, NodeOperationError } from 'n8n-workflow';
+
+import { pythonClassRegistry } from './Estimators';
+import { assertAllowed } from './Validation';
+
+export const PIPELINE_STEP_TYPES = [
+  'StandardScaler',
+  'MinMaxScaler',
+  'RobustScaler',
+  'Normalizer',
+  'Binarizer',
+  'SimpleImputer',
+  'OneHotEncoder',
+  'PCA',
+  'TruncatedSVD',
+  'NMF',
+  'PolynomialFeatures',
+  'SelectKBest',
+  'SelectPercentile',
+  'VarianceThreshold',
+] as const;
+
+export type PipelineStepType = (typeof PIPELINE_STEP_TYPES)[number];
+
+export const SCORE_FUNCS = [
+  'f_classif',
+  'mutual_info_classif',
+  'f_regression',
+  'mutual_info_regression',
+  'chi2',
+] as const;
+
+const IMPUTE_STRATEGIES = ['mean', 'median', 'most_frequent'] as const;
+const NORMS = ['l1', 'l2', 'max'] as const;
+
+/**
+ * Step names taken by the pipeline itself, its column transformer and its
+ * final estimator.
+ */
+const RESERVED_STEP_NAMES = ['columns', 'estimator', 'memory', 'steps', 'verbose'];
+
+export const SCORE_FUNCS_SCRIPT = `from sklearn.feature_selection import chi2, f_classif, f_regression, mutual_info_classif, mutual_info_regression
+
+SCORE_FUNCS = {
+    'f_classif': f_classif,
+    'mutual_info_classif': mutual_info_classif,
+    'f_regression': f_regression,
+    'mutual_info_regression': mutual_info_regression,
+    'chi2': chi2,
+}`;
+
+/**
+ * Python helpers creating pipeline steps from their keyword arguments, which
+ * must be parameters listed by `get_params()`. Lists are passed as tuples to
+ * parameters defaulting to tuples, such as `feature_range`, and score
+ * functions are looked up by name.
+ */
+export const PIPELINE_STEPS_SCRIPT = `${pythonClassRegistry('PIPELINE_STEPS', PIPELINE_STEP_TYPES)}
+${SCORE_FUNCS_SCRIPT}
+
+def create_step(classes, name, kwargs):
+    defaults = classes[name]().get_params(deep=False)
+    unknown = sorted(set(kwargs) - set(defaults))
+    if unknown:
+        raise ValueError(
+            f"Unknown parameters for {name}: {', '.join(unknown)}. "
+            f"Valid parameters: {', '.join(sorted(defaults))}"
+        )
+    kwargs = {
+        key: tuple(value) if isinstance(value, list) and isinstance(defaults[key], tuple) else value
+        for key, value in kwargs.items()
+    }
+    if 'score_func' in kwargs:
+        kwargs['score_func'] = SCORE_FUNCS[kwargs['score_func']]
+    return classes[name](**kwargs)
+
+def pipeline_steps(steps):
+    return [(step['name'], create_step(PIPELINE_STEPS, step['type'], step['kwargs'])) for step in steps]`;
+
+/**
+ * A pipeline step resolved from the Steps parameter.
+ */
+export interface PipelineStep extends IDataObject {
+  name: string;
+  type: PipelineStepType;
+  kwargs: IDataObject;
+}
+
+/**
+ * Property listing the transformers of a pipeline in order. Each step has a
+ * type, a name and its parameters.
+ */
+export function pipelineStepsProperty(show: IDisplayOptions['show']): INodeProperties {
+  return {
+    displayName: 'Steps',
+    name: 'pipelineSteps',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+      sortable: true,
+    },
+    displayOptions: { show },
+    default: {},
+    placeholder: 'Add Step',
+    description:
+      'Transformers applied in order before the estimator. A type may be used more than once. TF-IDF reads a single text column, so it is added as a column transformer.',
+    options: [
+      {
+        displayName: 'Step',
+        name: 'steps',
+        values: [
+          {
+            displayName: 'Type',
+            name: 'type',
+            type: 'options',
+            options: [
+              { name: 'Binarizer', value: 'Binarizer' },
+              { name: 'MinMax Scaler', value: 'MinMaxScaler' },
+              { name: 'NMF', value: 'NMF' },
+              { name: 'Normalizer', value: 'Normalizer' },
+              { name: 'One-Hot Encoder', value: 'OneHotEncoder' },
+              { name: 'PCA', value: 'PCA' },
+              { name: 'Polynomial Features', value: 'PolynomialFeatures' },
+              { name: 'Robust Scaler', value: 'RobustScaler' },
+              { name: 'Select K Best', value: 'SelectKBest' },
+              { name: 'Select Percentile', value: 'SelectPercentile' },
+              { name: 'Simple Imputer', value: 'SimpleImputer' },
+              { name: 'Standard Scaler', value: 'StandardScaler' },
+              { name: 'Truncated SVD', value: 'TruncatedSVD' },
+              { name: 'Variance Threshold', value: 'VarianceThreshold' },
+            ],
+            default: 'StandardScaler',
+          },
+          {
+            displayName: 'Name',
+            name: 'name',
+            type: 'string',
+            default: '',
+            placeholder: 'scaler',
+            description:
+              'Unique name of the step, made of letters, digits and single underscores. Leave empty to use the type and position, such as standardscaler_0.',
+          },
+          {
+            displayName: 'Components',
+            name: 'nComponents',
+            type: 'number',
+            displayOptions: {
+              show: {
+                type: ['PCA', 'TruncatedSVD', 'NMF'],
+              },
+            },
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 2,
+            description: 'Number of components to keep',
+          },
+          {
+            displayName: 'Degree',
+            name: 'degree',
+            type: 'number',
+            displayOptions: {
+              show: {
+                type: ['PolynomialFeatures'],
+              },
+            },
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 2,
+            description: 'Maximum degree of the polynomial features',
+          },
+          {
+            displayName: 'Threshold',
+            name: 'threshold',
+            type: 'number',
+            displayOptions: {
+              show: {
+                type: ['Binarizer', 'VarianceThreshold'],
+              },
+            },
+            typeOptions: {
+              numberPrecision: 4,
+            },
+            default: 0,
+            description:
+              'Values above it become 1 for the Binarizer. Features with a variance not above it are removed by the Variance Threshold.',
+          },
+          {
+            displayName: 'Impute Strategy',
+            name: 'strategy',
+            type: 'options',
+            displayOptions: {
+              show: {
+                type: ['SimpleImputer'],
+              },
+            },
+            options: [
+              { name: 'Mean', value: 'mean' },
+              { name: 'Median', value: 'median' },
+              { name: 'Most Frequent', value: 'most_frequent' },
+            ],
+            default: 'mean',
+          },
+          {
+            displayName: 'Norm',
+            name: 'norm',
+            type: 'options',
+            displayOptions: {
+              show: {
+                type: ['Normalizer'],
+              },
+            },
+            options: [
+              { name: 'L1', value: 'l1' },
+              { name: 'L2', value: 'l2' },
+              { name: 'Max', value: 'max' },
+            ],
+            default: 'l2',
+            description: 'Norm each row is scaled to',
+          },
+          {
+            displayName: 'Number of Features',
+            name: 'k',
+            type: 'number',
+            displayOptions: {
+              show: {
+                type: ['SelectKBest'],
+              },
+            },
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 10,
+            description: 'Number of features to keep',
+          },
+          {
+            displayName: 'Percentile',
+            name: 'percentile',
+            type: 'number',
+            displayOptions: {
+              show: {
+                type: ['SelectPercentile'],
+              },
+            },
+            typeOptions: {
+              minValue: 1,
+              maxValue: 100,
+            },
+            default: 10,
+            description: 'Percentage of features to keep',
+          },
+          {
+            displayName: 'Score Function',
+            name: 'scoreFunc',
+            type: 'options',
+            displayOptions: {
+              show: {
+                type: ['SelectKBest', 'SelectPercentile'],
+              },
+            },
+            options: [
+              { name: 'ANOVA F-Value (Classification)', value: 'f_classif' },
+              { name: 'Mutual Information (Classification)', value: 'mutual_info_classif' },
+              { name: 'F-Value (Regression)', value: 'f_regression' },
+              { name: 'Mutual Information (Regression)', value: 'mutual_info_regression' },
+              { name: 'Chi-Squared', value: 'chi2' },
+            ],
+            default: 'f_classif',
+            description: 'Function scoring each feature against the target',
+          },
+          {
+            displayName: 'Parameters (JSON)',
+            name: 'parameters',
+            type: 'string',
+            default: '',
+            placeholder: '{"with_mean": false}',
+            description:
+              "JSON object of scikit-learn parameters of the step, overriding the fields above. Parameters must be listed by the step's get_params().",
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Parses a JSON parameter holding the keyword arguments of a step.
+ */
+export function parseStepParameters(this: IExecuteFunctions, json: string, label: string): IDataObject {
+  if (!json.trim()) return {};
+  let kwargs;
+  try {
+    kwargs = JSON.parse(json);
+  } catch {
+    throw new NodeOperationError(this.getNode(), `Invalid JSON in ${label}`);
+  }
+  if (typeof kwargs !== 'object' || kwargs === null || Array.isArray(kwargs)) {
+    throw new NodeOperationError(this.getNode(), `${label} must be a JSON object`);
+  }
+  return kwargs as IDataObject;
+}
+
+/**
+ * Keyword arguments set by the fields of a step.
+ */
+function stepFieldKwargs(this: IExecuteFunctions, type: PipelineStepType, entry: IDataObject): IDataObject {
+  switch (type) {
+    case 'PCA':
+    case 'TruncatedSVD':
+    case 'NMF':
+      return { n_components: entry.nComponents ?? 2 };
+    case 'PolynomialFeatures':
+      return { degree: entry.degree ?? 2 };
+    case 'Binarizer':
+    case 'VarianceThreshold':
+      return { threshold: entry.threshold ?? 0 };
+    case 'SimpleImputer':
+      return { strategy: assertAllowed(this.getNode(), 'strategy', entry.strategy ?? 'mean', IMPUTE_STRATEGIES) };
+    case 'Normalizer':
+      return { norm: assertAllowed(this.getNode(), 'norm', entry.norm ?? 'l2', NORMS) };
+    case 'OneHotEncoder':
+      return { handle_unknown: 'ignore', sparse_output: false };
+    case 'SelectKBest':
+      return { k: entry.k ?? 10, score_func: entry.scoreFunc ?? 'f_classif' };
+    case 'SelectPercentile':
+      return { percentile: entry.percentile ?? 10, score_func: entry.scoreFunc ?? 'f_classif' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Resolves the Steps parameter into named steps and their keyword arguments,
+ * the Parameters JSON of each step overriding its fields.
+ */
+export function resolvePipelineSteps(this: IExecuteFunctions, itemIndex: number): PipelineStep[] {
+  const collection = this.getNodeParameter('pipelineSteps', itemIndex, {}) as { steps?: IDataObject[] };
+  const steps = (collection.steps ?? []).map((entry, position) => {
+    const type = assertAllowed(this.getNode(), 'type', entry.type, PIPELINE_STEP_TYPES);
+    const name = ((entry.name as string | undefined) ?? '').trim() || `${type.toLowerCase()}_${position}`;
+    if (!/^[A-Za-z0-9]+(_[A-Za-z0-9]+)*$/.test(name) || RESERVED_STEP_NAMES.includes(name)) {
+      throw new NodeOperationError(this.getNode(), `Invalid step name '${name}'`, {
+        description: `Step names are made of letters, digits and single underscores, other than ${RESERVED_STEP_NAMES.join(', ')}`,
+      });
+    }
+    const kwargs = {
+      ...stepFieldKwargs.call(this, type, entry),
+      ...parseStepParameters.call(this, (entry.parameters as string | undefined) ?? '', `Parameters of step '${name}'`),
+    };
+    if (kwargs.score_func !== undefined) {
+      kwargs.score_func = assertAllowed(this.getNode(), 'score_func', kwargs.score_func, SCORE_FUNCS);
+    }
+    return { name, type, kwargs };
+  });
+
+  const duplicate = steps.find((step, j) => steps.findIndex((other) => other.name === step.name) !== j);
+  if (duplicate) {
+    throw new NodeOperationError(this.getNode(), `Step name '${duplicate.name}' is used more than once`);
+  }
+  return steps;
+}
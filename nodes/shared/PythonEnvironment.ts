@@ -0,0 +1,116 @@
+import { execFile } from 'child_process';
+import { delimiter, join } from 'path';
+import {
+  ICredentialDataDecryptedObject,
+  ICredentialsDecrypted,
+  ICredentialTestFunctions,
+  IDataObject,
+  INodeCredentialTestResult,
+  jsonParse,
+} from 'n8n-workflow';
+
+export interface PythonEnvironment {
+  pythonPath: string;
+  /** Variables added to the environment of the Python process */
+  env: Record<string, string>;
+}
+
+const THREAD_LIMIT_VARIABLES = [
+  'OMP_NUM_THREADS',
+  'OPENBLAS_NUM_THREADS',
+  'MKL_NUM_THREADS',
+  'NUMEXPR_NUM_THREADS',
+];
+
+const VERSION_SCRIPT = `
+import json
+import platform
+import numpy
+import sklearn
+print(json.dumps({
+    'python': platform.python_version(),
+    'numpy': numpy.__version__,
+    'sklearn': sklearn.__version__,
+}))
+`;
+
+/**
+ * Resolves the interpreter and environment variables described by a
+ * Sklearn Python Environment credential.
+ */
+export function resolvePythonEnvironment(credentials: ICredentialDataDecryptedObject): PythonEnvironment {
+  const environmentType = credentials.environmentType as string;
+  const env: Record<string, string> = {};
+  let pythonPath = (credentials.pythonPath as string) || 'python3';
+
+  if (environmentType === 'virtualenv' || environmentType === 'conda') {
+    const root = credentials.environmentPath as string;
+    if (!root) throw new Error(`Environment Path is required for ${environmentType} environments`);
+    const isWindows = process.platform === 'win32';
+    let binDir = join(root, 'bin');
+    if (isWindows) binDir = environmentType === 'conda' ? root : join(root, 'Scripts');
+    pythonPath = join(binDir, isWindows ? 'python.exe' : 'python');
+    env.PATH = [binDir, process.env.PATH].filter(Boolean).join(delimiter);
+    env[environmentType === 'conda' ? 'CONDA_PREFIX' : 'VIRTUAL_ENV'] = root;
+  }
+
+  const extraPythonPath = (credentials.extraPythonPath as string | undefined)?.trim();
+  if (extraPythonPath) {
+    env.PYTHONPATH = [extraPythonPath, process.env.PYTHONPATH].filter(Boolean).join(delimiter);
+  }
+
+  const threadLimit = credentials.threadLimit as number | undefined;
+  if (threadLimit && threadLimit > 0) {
+    for (const name of THREAD_LIMIT_VARIABLES) env[name] = String(threadLimit);
+  }
+
+  const variables = credentials.environmentVariables;
+  const parsed = typeof variables === 'string' ? jsonParse<IDataObject>(variables || '{}') : variables;
+  for (const [name, value] of Object.entries((parsed ?? {}) as IDataObject)) {
+    env[name] = String(value);
+  }
+
+  return { pythonPath, env };
+}
+
+/**
+ * Credential test checking that the interpreter starts and has numpy and
+ * scikit-learn installed, reporting their versions.
+ */
+export async function sklearnPythonEnvironmentTest(
+  this: ICredentialTestFunctions,
+  credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+  let environment: PythonEnvironment;
+  try {
+    environment = resolvePythonEnvironment(credential.data ?? {});
+  } catch (error) {
+    return { status: 'Error', message: `Invalid environment: ${(error as Error).message}` };
+  }
+
+  return await new Promise<INodeCredentialTestResult>((resolve) => {
+    execFile(
+      environment.pythonPath,
+      ['-c', VERSION_SCRIPT],
+      { env: { ...process.env, ...environment.env }, timeout: 60_000 },
+      (error, stdout, stderr) => {
+        if (error) {
+          const lines = (stderr || error.message).trim().split('\n');
+          resolve({ status: 'Error', message: lines[lines.length - 1] });
+          return;
+        }
+        let versions: IDataObject;
+        try {
+          versions = JSON.parse(stdout) as IDataObject;
+        } catch {
+          resolve({ status: 'Error', message: `Unexpected output from Python: ${stdout.trim().slice(0, 200)}` });
+          return;
+        }
+        resolve({
+          status: 'OK',
+          message: `Python ${versions.python}, numpy ${versions.numpy}, scikit-learn ${versions.sklearn}`,
+        });
+      },
+    );
+  });
+}
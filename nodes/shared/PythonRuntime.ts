@@ -0,0 +1,353 @@
+import { spawn } from 'child_process';
+import {
+  IDataObject,
+  IExecuteFunctions,
+  INode,
+  INodeCredentialDescription,
+  INodeProperties,
+  NodeOperationError,
+} from 'n8n-workflow';
+
+import { PythonEnvironment, resolvePythonEnvironment } from './PythonEnvironment';
+import { getPythonWorker } from './PythonWorkerPool';
+
+export interface PythonRuntimeOptions {
+  pythonPath: string;
+  /** Variables added to the environment of the Python process */
+  env: Record<string, string>;
+  /** Timeout in seconds, 0 means no limit */
+  timeout: number;
+  /** Run jobs in a persistent worker that keeps scikit-learn imported */
+  useWorker: boolean;
+  /** Seconds without jobs after which the worker is stopped, 0 means never */
+  workerIdleTimeout: number;
+}
+
+export interface PythonTraceback {
+  exceptionType: string;
+  message: string;
+  line?: number;
+  traceback: string;
+}
+
+/**
+ * Prepended to every script. The payload is written to stdin as a single
+ * NDJSON line so that datasets are not bound by the kernel argument size limit.
+ */
+const PAYLOAD_PRELUDE = `import json as _json, sys as _sys
+payload = _json.loads(_sys.stdin.buffer.readline())
+`;
+const PRELUDE_LINES = PAYLOAD_PRELUDE.split('\n').length - 1;
+
+/**
+ * Properties shared by every node to configure the Python interpreter.
+ */
+export const pythonRuntimeProperties: INodeProperties[] = [
+  {
+    displayName: 'Python Environment',
+    name: 'pythonEnvironment',
+    type: 'options',
+    options: [
+      {
+        name: 'Python Path',
+        value: 'pythonPath',
+        description: 'Use the Python executable set on this node',
+      },
+      {
+        name: 'Credential',
+        value: 'credential',
+        description: 'Use the interpreter configured in a Sklearn Python Environment credential',
+      },
+    ],
+    default: 'pythonPath',
+  },
+  {
+    displayName: 'Python Path',
+    name: 'pythonPath',
+    type: 'string',
+    displayOptions: {
+      show: {
+        pythonEnvironment: ['pythonPath'],
+      },
+    },
+    default: 'python3',
+    description: 'Path to Python executable with scikit-learn installed',
+  },
+  {
+    displayName: 'Timeout',
+    name: 'pythonTimeout',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    default: 0,
+    description: 'Maximum time in seconds the Python job may run. 0 means no limit.',
+  },
+  {
+    displayName: 'Use Persistent Worker',
+    name: 'useWorker',
+    type: 'boolean',
+    default: false,
+    description:
+      'Whether to run the job in a long-lived Python process that keeps scikit-learn imported, avoiding interpreter startup on every execution',
+  },
+  {
+    displayName: 'Worker Idle Timeout',
+    name: 'workerIdleTimeout',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    displayOptions: {
+      show: {
+        useWorker: [true],
+      },
+    },
+    default: 300,
+    description: 'Seconds without jobs after which the worker is stopped. 0 means never.',
+  },
+];
+
+/**
+ * Credential shared by every node to select a configured Python environment.
+ */
+export const pythonEnvironmentCredentials: INodeCredentialDescription[] = [
+  {
+    name: 'sklearnPythonEnvironmentApi',
+    required: true,
+    testedBy: 'sklearnPythonEnvironmentTest',
+    displayOptions: {
+      show: {
+        pythonEnvironment: ['credential'],
+      },
+    },
+  },
+];
+
+/**
+ * Error raised when a Python job fails. Carries the exception type and message
+ * parsed from the Python traceback.
+ */
+export class PythonExecutionError extends NodeOperationError {
+  pythonExceptionType: string;
+
+  pythonMessage: string;
+
+  constructor(node: INode, parsed: PythonTraceback, itemIndex?: number) {
+    super(node, `${parsed.exceptionType}: ${parsed.message}`, {
+      description: parsed.traceback,
+      itemIndex,
+      type: parsed.exceptionType,
+    });
+    this.pythonExceptionType = parsed.exceptionType;
+    this.pythonMessage = parsed.message;
+  }
+}
+
+/**
+ * Parses the last traceback written to stderr by the Python interpreter.
+ */
+export function parsePythonTraceback(stderr: string, lineOffset = PRELUDE_LINES): PythonTraceback {
+  const traceback = stderr.trim();
+  const start = traceback.lastIndexOf('Traceback (most recent call last):');
+  const lines = (start === -1 ? traceback : traceback.slice(start)).split('\n');
+
+  let line: number | undefined;
+  let exceptionIndex = -1;
+  for (let i = start === -1 ? 0 : 1; i < lines.length; i++) {
+    const frame = lines[i].match(/^\s+File "<string>", line (\d+)/);
+    if (frame) {
+      line = parseInt(frame[1], 10) - lineOffset;
+      continue;
+    }
+    if (lines[i] !== '' && !/^\s/.test(lines[i])) {
+      exceptionIndex = i;
+      break;
+    }
+  }
+
+  if (exceptionIndex === -1) {
+    return {
+      exceptionType: 'PythonError',
+      message: traceback || 'Python process exited without output',
+      traceback,
+    };
+  }
+
+  const exceptionLine = lines[exceptionIndex];
+  const match = exceptionLine.match(/^([A-Za-z_][\w.]*)(?::\s?(.*))?$/);
+  if (!match) {
+    return { exceptionType: 'PythonError', message: exceptionLine, line, traceback };
+  }
+
+  const message = [match[2] ?? '', ...lines.slice(exceptionIndex + 1)].join('\n').trim();
+  return {
+    exceptionType: match[1].split('.').pop() as string,
+    message: message || match[1],
+    line,
+    traceback,
+  };
+}
+
+/**
+ * Reads the Python runtime configuration of the node.
+ */
+export async function getPythonRuntime(this: IExecuteFunctions): Promise<PythonRuntimeOptions> {
+  const source = this.getNodeParameter('pythonEnvironment', 0, 'pythonPath') as string;
+  let environment: PythonEnvironment;
+  if (source === 'credential') {
+    const credentials = await this.getCredentials('sklearnPythonEnvironmentApi');
+    try {
+      environment = resolvePythonEnvironment(credentials);
+    } catch (error) {
+      throw new NodeOperationError(this.getNode(), `Invalid environment: ${(error as Error).message}`, {
+        description: 'Check the Sklearn Python Environment credential',
+      });
+    }
+  } else {
+    environment = { pythonPath: this.getNodeParameter('pythonPath', 0) as string, env: {} };
+  }
+
+  return {
+    ...environment,
+    timeout: this.getNodeParameter('pythonTimeout', 0, 0) as number,
+    useWorker: this.getNodeParameter('useWorker', 0, false) as boolean,
+    workerIdleTimeout: this.getNodeParameter('workerIdleTimeout', 0, 300) as number,
+  };
+}
+
+/**
+ * Runs a Python script and resolves with its trimmed standard output.
+ * The script reads its input from the `payload` variable, delivered over stdin.
+ * The process is killed when the timeout expires or the execution is cancelled.
+ */
+export async function runPythonScript(
+  this: IExecuteFunctions,
+  runtime: PythonRuntimeOptions,
+  script: string,
+  payload: IDataObject = {},
+  itemIndex?: number,
+): Promise<string> {
+  const node = this.getNode();
+  const signal = this.getExecutionCancelSignal();
+
+  if (signal?.aborted) {
+    throw new NodeOperationError(node, 'Execution was cancelled', { itemIndex });
+  }
+
+  if (runtime.useWorker) {
+    return await runInWorker(node, runtime, script, payload, signal, itemIndex);
+  }
+
+  return await new Promise<string>((resolve, reject) => {
+    const python = spawn(runtime.pythonPath, ['-c', PAYLOAD_PRELUDE + script], {
+      env: { ...process.env, ...runtime.env },
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const onAbort = () => fail(new NodeOperationError(node, 'Execution was cancelled', { itemIndex }));
+
+    const cleanup = () => {
+      settled = true;
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    function fail(error: Error) {
+      if (settled) return;
+      cleanup();
+      python.kill('SIGKILL');
+      reject(error);
+    }
+
+    if (runtime.timeout > 0) {
+      timer = setTimeout(() => {
+        fail(
+          new NodeOperationError(node, `Python job timed out after ${runtime.timeout} seconds`, {
+            itemIndex,
+          }),
+        );
+      }, runtime.timeout * 1000);
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    python.stdout.on('data', (data: Buffer) => stdout.push(data));
+    python.stderr.on('data', (data: Buffer) => stderr.push(data));
+
+    python.on('error', (error: NodeJS.ErrnoException) => {
+      const message =
+        error.code === 'ENOENT'
+          ? `Python executable '${runtime.pythonPath}' not found`
+          : `Failed to start Python: ${error.message}`;
+      fail(new NodeOperationError(node, message, { itemIndex }));
+    });
+
+    // A failing script may exit before reading stdin; the exit code is reported on close
+    python.stdin.on('error', () => {});
+    python.stdin.end(JSON.stringify(payload) + '\n');
+
+    python.on('close', (code: number | null) => {
+      if (settled) return;
+      cleanup();
+      if (code !== 0) {
+        const parsed = parsePythonTraceback(Buffer.concat(stderr).toString('utf-8'));
+        reject(new PythonExecutionError(node, parsed, itemIndex));
+      } else {
+        resolve(Buffer.concat(stdout).toString('utf-8').trim());
+      }
+    });
+  });
+}
+
+/**
+ * Runs a script in the persistent worker of the interpreter. As a running
+ * script cannot be interrupted, a timeout or cancellation stops the worker.
+ */
+async function runInWorker(
+  node: INode,
+  runtime: PythonRuntimeOptions,
+  script: string,
+  payload: IDataObject,
+  signal: AbortSignal | undefined,
+  itemIndex?: number,
+): Promise<string> {
+  const worker = getPythonWorker(runtime.pythonPath, runtime.env, runtime.workerIdleTimeout);
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const interrupted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      worker.terminate();
+      reject(new NodeOperationError(node, 'Execution was cancelled', { itemIndex }));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    if (runtime.timeout > 0) {
+      timer = setTimeout(() => {
+        worker.terminate();
+        reject(
+          new NodeOperationError(node, `Python job timed out after ${runtime.timeout} seconds`, {
+            itemIndex,
+          }),
+        );
+      }, runtime.timeout * 1000);
+    }
+  });
+
+  try {
+    const response = await Promise.race([worker.run(script, payload), interrupted]);
+    if (!response.ok) {
+      throw new PythonExecutionError(node, parsePythonTraceback(response.traceback, 0), itemIndex);
+    }
+    return response.output.trim();
+  } catch (error) {
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(node, error as Error, { itemIndex });
+  } finally {
+    if (timer) clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
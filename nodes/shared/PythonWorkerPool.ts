@@ -0,0 +1,227 @@
+import { ChildProcessByStdio, spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { IDataObject } from 'n8n-workflow';
+
+/** File descriptor the worker writes its responses to */
+const PROTOCOL_FD = 3;
+
+/**
+ * Long-lived Python process that keeps numpy and scikit-learn imported and
+ * executes scripts sent as NDJSON requests over stdin. Each script runs with
+ * its own globals, `payload` bound to the request payload, and whatever it
+ * prints is returned as the response output. Responses are written to fd 3,
+ * so output written straight to fd 1 by C extensions cannot corrupt them.
+ */
+const WORKER_SCRIPT = `
+import contextlib
+import io
+import json
+import os
+import sys
+import traceback
+
+import numpy
+import sklearn
+
+protocol = os.fdopen(${PROTOCOL_FD}, 'w')
+
+def respond(message):
+    protocol.write(json.dumps(message) + '\\n')
+    protocol.flush()
+
+for line in sys.stdin:
+    if not line.strip():
+        continue
+    request = json.loads(line)
+    if request['method'] == 'ping':
+        respond({'id': request['id'], 'ok': True, 'output': sklearn.__version__})
+        continue
+    buffer = io.StringIO()
+    try:
+        with contextlib.redirect_stdout(buffer):
+            code = compile(request['script'], '<string>', 'exec')
+            exec(code, {'__name__': '__main__', 'payload': request['payload']})
+        respond({'id': request['id'], 'ok': True, 'output': buffer.getvalue()})
+    except BaseException:
+        # Skip the frame of this loop so the traceback starts in the job script
+        error_type, error, tb = sys.exc_info()
+        lines = traceback.format_exception(error_type, error, tb.tb_next)
+        respond({'id': request['id'], 'ok': False, 'traceback': ''.join(lines)})
+`;
+
+/** Time allowed for the worker to import its modules and answer the first ping */
+const STARTUP_TIMEOUT = 60_000;
+
+/** Interval between health checks of an idle worker */
+const HEALTH_CHECK_INTERVAL = 30_000;
+
+/** Time allowed for a health check to be answered */
+const HEALTH_CHECK_TIMEOUT = 10_000;
+
+export type WorkerResponse =
+  | { ok: true; output: string }
+  | { ok: false; traceback: string };
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+export class PythonWorker {
+  private process: ChildProcessByStdio<Writable, Readable, Readable>;
+
+  private pending = new Map<number, PendingRequest>();
+
+  private nextId = 1;
+
+  private stderr = '';
+
+  private idleTimer: NodeJS.Timeout | undefined;
+
+  private healthTimer: NodeJS.Timeout;
+
+  private ready: Promise<void>;
+
+  exited = false;
+
+  constructor(
+    readonly pythonPath: string,
+    env: Record<string, string>,
+    private idleTimeout: number,
+    private onExit: (worker: PythonWorker) => void,
+  ) {
+    this.process = spawn(pythonPath, ['-u', '-c', WORKER_SCRIPT], {
+      env: { ...process.env, ...env },
+      stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+    });
+
+    const protocol = this.process.stdio[PROTOCOL_FD] as Readable;
+    createInterface({ input: protocol, crlfDelay: Infinity }).on('line', (line) => {
+      if (!line.trim()) return;
+      let message: IDataObject;
+      try {
+        message = JSON.parse(line) as IDataObject;
+      } catch {
+        this.terminate(new Error(`Python worker sent an invalid response: ${line.slice(0, 200)}`));
+        return;
+      }
+      const request = this.pending.get(message.id as number);
+      if (!request) return;
+      this.pending.delete(message.id as number);
+      request.resolve(message as unknown as WorkerResponse);
+      this.scheduleIdleShutdown();
+    });
+
+    // Output written to fd 1 outside of a job is not part of any response
+    this.process.stdout.resume();
+
+    // Keep only the tail of stderr, used to explain unexpected exits
+    this.process.stderr.on('data', (data: Buffer) => {
+      this.stderr = (this.stderr + data.toString()).slice(-8192);
+    });
+    this.process.stdin.on('error', () => {});
+
+    this.process.on('error', (error: NodeJS.ErrnoException) => {
+      const message =
+        error.code === 'ENOENT'
+          ? `Python executable '${pythonPath}' not found`
+          : `Failed to start Python worker: ${error.message}`;
+      this.terminate(new Error(message));
+    });
+    this.process.on('exit', (code, signal) => {
+      const reason = signal ? `signal ${signal}` : `exit code ${code}`;
+      this.terminate(new Error(`Python worker stopped unexpectedly (${reason}): ${this.stderr.trim()}`));
+    });
+
+    this.healthTimer = setInterval(() => {
+      if (this.pending.size === 0) void this.healthCheck();
+    }, HEALTH_CHECK_INTERVAL);
+    this.healthTimer.unref();
+
+    this.ready = this.ping(STARTUP_TIMEOUT);
+    this.ready.catch((error: Error) => this.terminate(error));
+  }
+
+  /**
+   * Runs a script in the worker once it has finished starting up.
+   */
+  async run(script: string, payload: IDataObject): Promise<WorkerResponse> {
+    await this.ready;
+    return await this.send({ method: 'run', script, payload });
+  }
+
+  async ping(timeout = HEALTH_CHECK_TIMEOUT): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Python worker did not respond to health check')), timeout);
+    });
+    try {
+      await Promise.race([this.send({ method: 'ping' }), deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Stops the worker, rejecting every request still in flight.
+   */
+  terminate(error = new Error('Python worker was stopped')) {
+    if (this.exited) return;
+    this.exited = true;
+    clearInterval(this.healthTimer);
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.process.kill('SIGKILL');
+    for (const request of this.pending.values()) request.reject(error);
+    this.pending.clear();
+    this.onExit(this);
+  }
+
+  private async healthCheck() {
+    try {
+      await this.ping();
+    } catch (error) {
+      this.terminate(error as Error);
+    }
+  }
+
+  private async send(request: IDataObject): Promise<WorkerResponse> {
+    if (this.exited) throw new Error('Python worker was stopped');
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+
+    const id = this.nextId++;
+    return await new Promise<WorkerResponse>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.process.stdin.write(JSON.stringify({ ...request, id }) + '\n');
+    });
+  }
+
+  private scheduleIdleShutdown() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    if (this.pending.size > 0 || this.idleTimeout <= 0) return;
+    this.idleTimer = setTimeout(() => this.terminate(), this.idleTimeout * 1000);
+    this.idleTimer.unref();
+  }
+}
+
+const workers = new Map<string, PythonWorker>();
+
+/**
+ * Returns the running worker for the interpreter and environment, starting a
+ * new one if none is running or the previous one crashed.
+ */
+export function getPythonWorker(
+  pythonPath: string,
+  env: Record<string, string>,
+  idleTimeout: number,
+): PythonWorker {
+  const key = JSON.stringify([pythonPath, Object.entries(env).sort()]);
+  const existing = workers.get(key);
+  if (existing && !existing.exited) return existing;
+
+  const worker = new PythonWorker(pythonPath, env, idleTimeout, (stopped) => {
+    if (workers.get(key) === stopped) workers.delete(key);
+  });
+  workers.set(key, worker);
+  return worker;
+}
@@ -0,0 +1,104 @@
+import { IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+import { assertAllAllowed, assertAllowed } from './Validation';
+
+export const SCORING_METRICS = [
+  'accuracy',
+  'balanced_accuracy',
+  'f1_weighted',
+  'f1_macro',
+  'precision_weighted',
+  'recall_weighted',
+  'roc_auc',
+  'roc_auc_ovr',
+  'neg_log_loss',
+  'r2',
+  'neg_mean_squared_error',
+  'neg_root_mean_squared_error',
+  'neg_mean_absolute_error',
+  'neg_mean_absolute_percentage_error',
+] as const;
+
+export type ScoringMetric = (typeof SCORING_METRICS)[number];
+
+const SCORING_OPTIONS = [
+  { name: 'Accuracy (Classification)', value: 'accuracy' },
+  { name: 'Balanced Accuracy', value: 'balanced_accuracy' },
+  { name: 'F1 Score', value: 'f1_weighted' },
+  { name: 'F1 Score (Macro)', value: 'f1_macro' },
+  { name: 'Precision', value: 'precision_weighted' },
+  { name: 'Recall', value: 'recall_weighted' },
+  { name: 'ROC AUC', value: 'roc_auc' },
+  { name: 'ROC AUC (One-vs-Rest)', value: 'roc_auc_ovr' },
+  { name: 'Negative Log Loss', value: 'neg_log_loss' },
+  { name: 'R² Score (Regression)', value: 'r2' },
+  { name: 'Negative MSE', value: 'neg_mean_squared_error' },
+  { name: 'Negative RMSE', value: 'neg_root_mean_squared_error' },
+  { name: 'Negative MAE', value: 'neg_mean_absolute_error' },
+  { name: 'Negative MAPE', value: 'neg_mean_absolute_percentage_error' },
+];
+
+/**
+ * Python helpers passing the metrics of a node to scikit-learn, naming the
+ * keys of its results: `test_score` for a single metric, `test_<metric>` for
+ * several, and replacing non-finite floats, such as the scores of failed fits
+ * or of single-class folds, by null before results are dumped with
+ * `allow_nan=False`.
+ */
+export const SCORING_SCRIPT = `import math as _math
+
+def scoring_spec(metrics):
+    return metrics[0] if len(metrics) == 1 else list(metrics)
+
+def score_key(metrics, metric):
+    return 'score' if len(metrics) == 1 else metric
+
+def finite(value):
+    if isinstance(value, float) and not _math.isfinite(value):
+        return None
+    if isinstance(value, dict):
+        return {key: finite(item) for key, item in value.items()}
+    if isinstance(value, (list, tuple)):
+        return [finite(item) for item in value]
+    return value`;
+
+/**
+ * Properties choosing the main Scoring Metric and Additional Metrics evaluated
+ * in the same pass.
+ */
+export function scoringProperties(description: string, show?: IDisplayOptions['show']): INodeProperties[] {
+  return [
+    {
+      displayName: 'Scoring Metric',
+      name: 'scoring',
+      type: 'options',
+      displayOptions: { show },
+      options: SCORING_OPTIONS,
+      default: 'accuracy',
+      description,
+    },
+    {
+      displayName: 'Additional Metrics',
+      name: 'additionalMetrics',
+      type: 'multiOptions',
+      displayOptions: { show },
+      options: SCORING_OPTIONS,
+      default: [],
+      description: 'Other metrics evaluated in the same pass and reported for every fold',
+    },
+  ];
+}
+
+/**
+ * The metrics to evaluate, the Scoring Metric first.
+ */
+export function getScoringMetrics(this: IExecuteFunctions, itemIndex = 0): ScoringMetric[] {
+  const scoring = assertAllowed(this.getNode(), 'scoring', this.getNodeParameter('scoring', itemIndex), SCORING_METRICS);
+  const additional = assertAllAllowed(
+    this.getNode(),
+    'additionalMetrics',
+    this.getNodeParameter('additionalMetrics', itemIndex, []) as unknown[],
+    SCORING_METRICS,
+  );
+  return [...new Set([scoring, ...additional])];
+}
@@ -0,0 +1,31 @@
+import { INode, NodeOperationError } from 'n8n-workflow';
+
+/**
+ * Checks a parameter against its allowed values before it is sent to Python,
+ * where it may select an estimator class or function.
+ */
+export function assertAllowed<T extends string>(
+  node: INode,
+  name: string,
+  value: unknown,
+  allowed: readonly T[],
+): T {
+  if (typeof value !== 'string' || !(allowed as readonly string[]).includes(value)) {
+    throw new NodeOperationError(node, `Invalid value '${String(value)}' for parameter '${name}'`, {
+      description: `Allowed values: ${allowed.join(', ')}`,
+    });
+  }
+  return value as T;
+}
+
+/**
+ * Checks that every entry of a list parameter is an allowed value.
+ */
+export function assertAllAllowed<T extends string>(
+  node: INode,
+  name: string,
+  values: unknown[],
+  allowed: readonly T[],
+): T[] {
+  return values.map((value) => assertAllowed(node, name, value, allowed));
+}
@@ -0,0 +1,89 @@
+/**
+ * Checks the column lists of nodes/shared/ColumnSelection.ts, which the nodes
+ * resolve against their input items. Run `npm test`, which compiles the nodes
+ * first.
+ */
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { columnValue, selectColumns } = require('../dist/nodes/shared/ColumnSelection');
+
+const context = { getNode: () => ({ name: 'Column Selection Test' }) };
+
+const items = [
+  { json: { id: 'a', feature_1: 1, feature_2: '2.5', label: 'x', f3: null, 'f.4': 4 } },
+  { json: { id: 'b', feature_1: 3, feature_2: '', label: 'y', f3: 7, nested: { depth: 2, name: 'n' } } },
+];
+
+function select(spec, options) {
+  return selectColumns.call(context, spec, items, options);
+}
+
+describe('selectColumns', () => {
+  it('returns plain column names as listed, without reading the items', () => {
+    assert.deepEqual(select('label, feature_1,missing'), ['label', 'feature_1', 'missing']);
+  });
+
+  it('matches wildcards in order of first appearance', () => {
+    assert.deepEqual(select('feature_*'), ['feature_1', 'feature_2']);
+    assert.deepEqual(select('f?'), ['f3']);
+    assert.deepEqual(select('*'), ['feature_1', 'feature_2', 'f3', 'f.4', 'nested.depth']);
+  });
+
+  it('matches regular expressions with their flags', () => {
+    assert.deepEqual(select('/^F\\d$/i'), ['f3']);
+    assert.deepEqual(select('/_\\d$/g'), ['feature_1', 'feature_2']);
+  });
+
+  it('escapes regular expression characters of wildcards', () => {
+    assert.deepEqual(select('f.*'), ['f.4']);
+  });
+
+  it('flattens nested objects into dot-separated paths', () => {
+    assert.deepEqual(select('nested.*'), ['nested.depth']);
+    assert.deepEqual(select('nested.*', { numeric: false }), ['nested.depth', 'nested.name']);
+  });
+
+  it('only matches numeric columns unless numeric is false', () => {
+    assert.deepEqual(select('/^(id|f3)$/', { numeric: false }), ['id', 'f3']);
+    assert.deepEqual(select('/^(id|f3)$/'), ['f3']);
+  });
+
+  it('keeps listed names first and removes duplicates', () => {
+    assert.deepEqual(select('feature_2,feature_*,f3,f?'), ['feature_2', 'feature_1', 'f3']);
+  });
+
+  it('skips the excluded option columns', () => {
+    assert.deepEqual(select('feature_*', { exclude: ['feature_1'] }), ['feature_2']);
+  });
+
+  it('removes columns matched by entries starting with !', () => {
+    assert.deepEqual(select('feature_*,f3,!feature_1'), ['feature_2', 'f3']);
+    assert.deepEqual(select('!feature_*,!/^f/'), ['nested.depth']);
+  });
+
+  it('fails for patterns matching no columns', () => {
+    assert.throws(() => select('missing_*'), { message: "Column pattern 'missing_*' matches no numeric columns" });
+    assert.throws(() => select('/^id$/', { exclude: ['id'], numeric: false }), {
+      message: "Column pattern '/^id$/' matches no columns",
+    });
+  });
+
+  it('fails for invalid regular expressions', () => {
+    assert.throws(() => select('/(/'), { message: "Invalid column pattern '/(/'" });
+  });
+
+  it('fails when nothing is selected', () => {
+    assert.throws(() => select(' , '), { message: 'No columns selected' });
+    assert.throws(() => select('feature_1,!feature_1'), { message: "No columns selected by 'feature_1,!feature_1'" });
+  });
+});
+
+describe('columnValue', () => {
+  it('reads keys before dot-separated paths', () => {
+    assert.equal(columnValue(items[0].json, 'f.4'), 4);
+    assert.equal(columnValue(items[1].json, 'nested.depth'), 2);
+    assert.equal(columnValue(items[1].json, 'nested.missing'), undefined);
+    assert.equal(columnValue(items[0].json, 'id.length'), undefined);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Checks how nodes/shared/MissingValues.ts reads feature rows under each
+ * Missing Values policy. Run `npm test`, which compiles the nodes first.
+ */
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { addMissingValueHints, extractFeatureRows, rowsByItem } = require('../dist/nodes/shared/MissingValues');
+
+function createContext(parameters) {
+  const hints = [];
+  return {
+    hints,
+    getNode: () => ({ name: 'Missing Values Test' }),
+    getNodeParameter: (name, itemIndex, fallback) => (name in parameters ? parameters[name] : fallback),
+    addExecutionHints: (...added) => hints.push(...added),
+  };
+}
+
+function group(...rows) {
+  return { items: rows.map((json) => ({ json })), itemIndexes: rows.map((_, i) => i + 3) };
+}
+
+const rows = group({ a: 1, b: '2.5' }, { a: '', b: 4 }, { a: 'N/A', b: 6 }, { a: 7, b: null });
+
+describe('extractFeatureRows', () => {
+  describe('error policy', () => {
+    const context = createContext({ missingValues: 'error' });
+
+    it('parses numbers and numeric strings', () => {
+      const result = extractFeatureRows.call(context, group({ a: 1, b: '2.5' }, { a: -3, b: '1e3' }), ['a', 'b']);
+      assert.deepEqual(result.rows, [
+        [1, 2.5],
+        [-3, 1000],
+      ]);
+      assert.deepEqual(result.itemIndexes, [3, 4]);
+      assert.deepEqual(result.dtypes, ['int64', 'object']);
+      assert.equal(result.summary.affected_rows, 0);
+      assert.equal(result.imputation, null);
+    });
+
+    it('names the item and column of missing and non-numeric values', () => {
+      const cases = [
+        [{ b: 1 }, "Feature column 'a' not found in item"],
+        [{ a: null }, "Feature column 'a' is empty"],
+        [{ a: '  ' }, "Feature column 'a' holds the non-numeric value \"  \""],
+        [{ a: '' }, "Feature column 'a' is empty"],
+        [{ a: 'N/A' }, "Feature column 'a' holds the non-numeric value \"N/A\""],
+        [{ a: true }, "Feature column 'a' holds the non-numeric value true"],
+      ];
+      for (const [json, message] of cases) {
+        assert.throws(() => extractFeatureRows.call(context, group({ a: 1 }, json), ['a']), (error) => {
+          assert.equal(error.message, message);
+          assert.equal(error.context.itemIndex, 4);
+          assert.equal(error.description, 'Set Missing Values to drop, impute or pass these values to the estimator');
+          return true;
+        });
+      }
+    });
+  });
+
+  describe('drop policy', () => {
+    const context = createContext({ missingValues: 'drop' });
+
+    it('leaves out the items with missing or non-numeric values', () => {
+      const result = extractFeatureRows.call(context, rows, ['a', 'b']);
+      assert.deepEqual(result.rows, [[1, 2.5]]);
+      assert.deepEqual(result.itemIndexes, [3]);
+      assert.deepEqual(result.items, [rows.items[0]]);
+      assert.deepEqual(result.summary, {
+        policy: 'drop',
+        affected_rows: 3,
+        dropped_rows: 3,
+        columns: { a: 2, b: 1 },
+        item_indexes: [4, 5, 6],
+      });
+      assert.deepEqual([...rowsByItem(result, ['first'], 5)], [undefined, undefined, undefined, 'first', undefined]);
+    });
+
+    it('fails when training has no rows left', () => {
+      assert.throws(() => extractFeatureRows.call(context, group({ a: '' }, { a: 'x' }), ['a']), {
+        message: 'Every item has a missing or non-numeric feature value',
+      });
+    });
+
+    it('leaves predictions without rows', () => {
+      const result = extractFeatureRows.call(context, group({ a: '' }), ['a'], { model: {} });
+      assert.deepEqual(result.rows, []);
+      assert.equal(result.summary.dropped_rows, 1);
+    });
+  });
+
+  describe('impute policy', () => {
+    it('imputes the mean in training and records it', () => {
+      const context = createContext({ missingValues: 'impute', imputeStrategy: 'mean' });
+      const result = extractFeatureRows.call(context, rows, ['a', 'b']);
+      assert.deepEqual(result.rows, [
+        [1, 2.5],
+        [4, 4],
+        [4, 6],
+        [7, 4.166666666666667],
+      ]);
+      assert.deepEqual(result.imputation, { strategy: 'mean', fill_values: { a: 4, b: 4.166666666666667 } });
+      assert.equal(result.summary.affected_rows, 3);
+      assert.equal(result.summary.dropped_rows, 0);
+    });
+
+    it('imputes the median or a constant', () => {
+      const values = group({ a: 1 }, { a: 2 }, { a: 10 }, { a: '' });
+      const median = extractFeatureRows.call(
+        createContext({ missingValues: 'impute', imputeStrategy: 'median' }),
+        values,
+        ['a'],
+      );
+      assert.deepEqual(median.rows, [[1], [2], [10], [2]]);
+      const constant = extractFeatureRows.call(
+        createContext({ missingValues: 'impute', imputeStrategy: 'constant', imputeFillValue: -1 }),
+        values,
+        ['a'],
+      );
+      assert.deepEqual(constant.rows, [[1], [2], [10], [-1]]);
+      assert.deepEqual(constant.imputation, { strategy: 'constant', fill_values: { a: -1 } });
+    });
+
+    it('fails for columns without numeric values to impute from', () => {
+      const context = createContext({ missingValues: 'impute', imputeStrategy: 'mean' });
+      assert.throws(() => extractFeatureRows.call(context, group({ a: 1, b: '' }, { a: 2, b: 'x' }), ['a', 'b']), {
+        message: "Feature column 'b' has no numeric values to impute from",
+      });
+    });
+
+    it('imputes the values recorded with the model in predictions', () => {
+      const context = createContext({ missingValues: 'impute' });
+      const model = { imputation: { strategy: 'mean', fill_values: { a: 0.5, b: 9 } } };
+      const result = extractFeatureRows.call(context, rows, ['a', 'b'], { model });
+      assert.deepEqual(result.rows, [
+        [1, 2.5],
+        [0.5, 4],
+        [0.5, 6],
+        [7, 9],
+      ]);
+      assert.equal(result.imputation, null);
+    });
+
+    it('fails for models recording no value to impute', () => {
+      const context = createContext({ missingValues: 'impute' });
+      assert.throws(() => extractFeatureRows.call(context, rows, ['a', 'b'], { model: { imputation: null } }), {
+        message: "The model records no value to impute for 'a'",
+      });
+    });
+  });
+
+  describe('nan policy', () => {
+    it('passes missing and non-numeric values as NaN', () => {
+      const context = createContext({ missingValues: 'nan' });
+      const result = extractFeatureRows.call(context, rows, ['a', 'b']);
+      assert.deepEqual(result.rows, [
+        [1, 2.5],
+        [NaN, 4],
+        [NaN, 6],
+        [7, NaN],
+      ]);
+      assert.equal(result.summary.affected_rows, 3);
+      assert.equal(result.summary.dropped_rows, 0);
+    });
+  });
+
+  it('passes raw columns unparsed, after the numeric ones', () => {
+    const context = createContext({ missingValues: 'error' });
+    const texts = group({ a: 1, text: 'x' }, { a: 2, text: '' }, { a: 3, text: { k: 1 } });
+    const result = extractFeatureRows.call(context, texts, ['text', 'a'], { rawColumns: ['text'] });
+    assert.deepEqual(result.columns, ['a', 'text']);
+    assert.deepEqual(result.rows, [
+      [1, 'x'],
+      [2, null],
+      [3, '{"k":1}'],
+    ]);
+  });
+});
+
+describe('addMissingValueHints', () => {
+  it('adds one hint per policy with the counts per column', () => {
+    const context = createContext({ missingValues: 'drop' });
+    const first = extractFeatureRows.call(context, rows, ['a', 'b'], { model: {} });
+    const second = extractFeatureRows.call(context, group({ a: 'x' }), ['a'], { model: {} });
+    const nan = extractFeatureRows.call(createContext({ missingValues: 'nan' }), group({ a: 1 }), ['a']);
+    addMissingValueHints.call(context, [first.summary, second.summary, nan.summary]);
+    assert.deepEqual(
+      context.hints.map((hint) => hint.message),
+      ['4 item(s) with missing or non-numeric feature values were left without a prediction: a (3), b (1)'],
+    );
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Checks the PMML documents and model cards nodes/shared/ModelExport.ts writes
+ * from the parameters of trained models. Run `npm test`, which compiles the
+ * nodes first.
+ */
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { exportModelDefinitions } = require('../dist/nodes/shared/ModelExport');
+
+const serialization = { on_mismatch: 'ignore' };
+
+/**
+ * Exports a model read from the Model Data parameter and returns the output
+ * item with the exported file as text.
+ */
+async function exportModel(kind, model, exportFormat) {
+  const parameters = { modelSource: 'parameter', modelData: JSON.stringify(model), exportFormat };
+  const context = {
+    getNode: () => ({ name: 'Model Export Test' }),
+    getInputData: () => [{ json: {} }],
+    getNodeParameter: (name, itemIndex, fallback) => (name in parameters ? parameters[name] : fallback),
+    addExecutionHints: () => {},
+    helpers: {
+      prepareBinaryData: async (buffer, fileName, mimeType) => ({ text: buffer.toString('utf-8'), fileName, mimeType }),
+    },
+  };
+  const [output] = await exportModelDefinitions.call(context, kind, 'model', serialization);
+  return { json: output.json, file: output.binary.export };
+}
+
+/** Metadata of a serialized estimator, read without checking a content hash */
+function envelope(metadata) {
+  return { model_envelope: { format: 'pickle', data: '', metadata } };
+}
+
+const linear = {
+  coefficients: [1.5, -2],
+  intercept: 0.25,
+  feature_columns: ['size', 'a<b & "c\''],
+  ...envelope({ estimator: 'Ridge', target: 'price', trained_at: '2024-01-02T03:04:05+00:00' }),
+};
+
+function tree(featureValues) {
+  return {
+    children_left: [1, -1, -1],
+    children_right: [2, -1, -1],
+    feature: [0, -2, -2],
+    threshold: [0.5, -2, -2],
+    value: featureValues,
+  };
+}
+
+function forest(trees, classes) {
+  return {
+    feature_columns: ['x', 'y'],
+    tree_export: {
+      format: 'sklearn-trees/1',
+      estimator: trees.length === 1 ? 'decision_tree' : 'random_forest',
+      n_features: 2,
+      classes,
+      trees,
+    },
+  };
+}
+
+describe('model cards', () => {
+  it('name the estimator class recorded in the metadata of linear models', async () => {
+    const { json, file } = await exportModel('linear', linear, 'modelCard');
+    assert.equal(json.estimator, 'Ridge');
+    assert.equal(file.fileName, 'model.model-card.json');
+    const card = JSON.parse(file.text);
+    assert.equal(card.estimator, 'Ridge');
+    assert.equal(card.task, 'regression');
+    assert.equal(card.target, 'price');
+    assert.equal(card.intercept, 0.25);
+    assert.deepEqual(card.coefficients, { size: 1.5, 'a<b & "c\'': -2 });
+    assert.deepEqual(Object.keys(card), Object.keys(card).sort());
+  });
+
+  it('fall back to the model type or a linear regression for models without the estimator class', async () => {
+    const lasso = { ...linear, model_envelope: undefined, model_type: 'Lasso' };
+    assert.equal((await exportModel('linear', lasso, 'modelCard')).json.estimator, 'Lasso');
+    const plain = { ...linear, model_envelope: undefined };
+    assert.equal((await exportModel('linear', plain, 'modelCard')).json.estimator, 'LinearRegression');
+  });
+
+  it('list one decision function per class of multiclass logistic regressions', async () => {
+    const model = {
+      coefficients: [
+        [1, 0],
+        [0, 1],
+        [-1, -1],
+      ],
+      intercept: [0.1, 0.2, 0.3],
+      classes: ['a', 'b', 'c'],
+      feature_columns: ['x', 'y'],
+    };
+    const card = JSON.parse((await exportModel('logistic', model, 'modelCard')).file.text);
+    assert.equal(card.link, 'softmax');
+    assert.deepEqual(card.class_mapping, { 0: 'a', 1: 'b', 2: 'c' });
+    assert.deepEqual(card.decision_functions[2], { class: 'c', coefficients: { x: -1, y: -1 }, intercept: 0.3 });
+  });
+
+  it('write trees as nested splits', async () => {
+    const model = forest([tree([[3, 1], [3, 0], [0, 1]])], ['no', 'yes']);
+    const card = JSON.parse((await exportModel('trees', model, 'modelCard')).file.text);
+    assert.equal(card.estimator, 'DecisionTreeClassifier');
+    assert.equal(card.aggregation, undefined);
+    assert.deepEqual(card.trees[0], {
+      feature: 'x',
+      threshold: 0.5,
+      less_or_equal: { class: 'no', probabilities: [1, 0] },
+      greater: { class: 'yes', probabilities: [0, 1] },
+    });
+  });
+});
+
+describe('PMML documents', () => {
+  it('write a RegressionModel named after the estimator class', async () => {
+    const { file } = await exportModel('linear', linear, 'pmml');
+    assert.equal(file.fileName, 'model.pmml');
+    assert.equal(file.mimeType, 'application/xml');
+    assert.match(file.text, /<Header description="Ridge exported by n8n-nodes-sklearn">/);
+    assert.match(file.text, /<Timestamp>2024-01-02T03:04:05\+00:00<\/Timestamp>/);
+    assert.match(file.text, /<RegressionModel functionName="regression" algorithmName="Ridge">/);
+    assert.match(file.text, /<RegressionTable intercept="0.25">/);
+    assert.match(file.text, /<NumericPredictor name="size" exponent="1" coefficient="1.5"\/>/);
+    assert.match(file.text, /<MiningField name="price" usageType="target"\/>/);
+  });
+
+  it('escape XML characters of names', async () => {
+    const { file } = await exportModel('linear', linear, 'pmml');
+    const escaped = 'a&lt;b &amp; &quot;c&apos;';
+    assert.ok(file.text.includes(`<DataField name="${escaped}" optype="continuous" dataType="double"/>`));
+    assert.ok(file.text.includes(`<NumericPredictor name="${escaped}" exponent="1" coefficient="-2"/>`));
+    assert.ok(!file.text.includes('a<b'));
+  });
+
+  it('add the zero reference table of binary logistic regressions', async () => {
+    const model = { coefficients: [[0.5, -1]], intercept: [2], classes: ['no', 'yes'], feature_columns: ['x', 'y'] };
+    const { file } = await exportModel('logistic', model, 'pmml');
+    assert.match(file.text, /algorithmName="LogisticRegression" normalizationMethod="logit">/);
+    assert.match(file.text, /<RegressionTable intercept="2" targetCategory="yes">/);
+    assert.match(file.text, /<RegressionTable intercept="0" targetCategory="no"\/>/);
+    assert.match(file.text, /<DataField name="target" optype="categorical" dataType="string">\n +<Value value="no"\/>/);
+  });
+
+  it('average one TreeModel segment per tree of random forests', async () => {
+    const model = forest([tree([[1], [0], [2]]), tree([[3], [4], [5]])], null);
+    const { json, file } = await exportModel('trees', model, 'pmml');
+    assert.equal(json.estimator, 'RandomForestRegressor');
+    assert.match(file.text, /<MiningModel functionName="regression" algorithmName="RandomForestRegressor">/);
+    assert.match(file.text, /<Segmentation multipleModelMethod="average">/);
+    assert.equal(file.text.match(/<Segment id="\d+">/g).length, 2);
+    assert.equal(file.text.match(/<TreeModel functionName="regression" splitCharacteristic="binarySplit">/g).length, 2);
+    assert.match(file.text, /<Node id="2" score="5">\n +<SimplePredicate field="x" operator="greaterThan" value="0.5"/);
+  });
+
+  it('write a single TreeModel for decision trees', async () => {
+    const { file } = await exportModel('trees', forest([tree([[3, 1], [3, 0], [0, 1]])], ['no', 'yes']), 'pmml');
+    assert.ok(!file.text.includes('<MiningModel'));
+    assert.match(file.text, /<Node id="1" score="no">/);
+    assert.match(file.text, /<ScoreDistribution value="no" recordCount="3" probability="1"\/>/);
+  });
+});
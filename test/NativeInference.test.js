@@ -0,0 +1,81 @@
+/**
+ * Checks the native inference of nodes/shared/NativeInference.ts against the
+ * outputs of scikit-learn recorded in test/fixtures. Run `npm test`, which
+ * compiles the nodes first.
+ */
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+const { describe, it } = require('node:test');
+
+const {
+  predictLinear,
+  predictLogistic,
+  predictTrees,
+  transformMinMax,
+  transformStandard,
+} = require('../dist/nodes/shared/NativeInference');
+
+const TOLERANCE = 1e-9;
+
+const context = { getNode: () => ({ name: 'Native Inference Test' }) };
+
+function assertClose(actual, expected, label) {
+  if (Array.isArray(expected)) {
+    assert.equal(actual.length, expected.length, `${label}: length`);
+    expected.forEach((value, i) => assertClose(actual[i], value, `${label}[${i}]`));
+    return;
+  }
+  if (typeof expected !== 'number') {
+    assert.equal(actual, expected, label);
+    return;
+  }
+  const difference = Math.abs(actual - expected);
+  assert.ok(
+    difference <= TOLERANCE * Math.max(1, Math.abs(expected)),
+    `${label}: expected ${expected}, got ${actual}`,
+  );
+}
+
+function evaluate(testCase) {
+  const X = testCase.X.map((row) => row.map((value) => (value === null ? NaN : value)));
+  switch (testCase.kind) {
+    case 'linear':
+      return { predictions: predictLinear.call(context, testCase.model, X) };
+    case 'logistic':
+      return predictLogistic.call(context, testCase.model, X);
+    case 'standard':
+      return { transformed: transformStandard.call(context, testCase.model, X) };
+    case 'minMax':
+      return { transformed: transformMinMax.call(context, testCase.model, X, false) };
+    case 'minMaxInverse':
+      return { transformed: transformMinMax.call(context, testCase.model, X, true) };
+    case 'trees':
+      return predictTrees.call(context, testCase.model, X);
+    default:
+      throw new Error(`Unknown fixture kind '${testCase.kind}'`);
+  }
+}
+
+const fixtureDir = path.join(__dirname, 'fixtures');
+const fixtures = fs
+  .readdirSync(fixtureDir)
+  .filter((file) => file.endsWith('.json'))
+  .map((file) => JSON.parse(fs.readFileSync(path.join(fixtureDir, file), 'utf8')));
+
+assert.ok(fixtures.length > 0, 'No fixtures found, run test/fixtures/generate_native_fixtures.py');
+
+for (const fixture of fixtures) {
+  describe(`native inference matches scikit-learn ${fixture.sklearn_version}`, () => {
+    for (const testCase of fixture.cases) {
+      it(testCase.name, () => {
+        const actual = evaluate(testCase);
+        for (const key of ['predictions', 'probabilities', 'transformed']) {
+          if (testCase[key] !== undefined) {
+            assertClose(actual[key], testCase[key], key);
+          }
+        }
+      });
+    }
+  });
+}
@@ -0,0 +1,191 @@
+#!/usr/bin/env python3
+"""
+Writes the scikit-learn outputs checked by test/NativeInference.test.js.
+
+Fits small models, exports their parameters like the training operations of
+the nodes do, and records the predictions, probabilities and transforms of
+scikit-learn itself. Run it with every scikit-learn version to cover:
+
+    python3 test/fixtures/generate_native_fixtures.py
+"""
+
+import json
+import math
+import os
+import re
+
+import numpy as _numpy
+import sklearn
+from sklearn.ensemble import GradientBoostingClassifier, GradientBoostingRegressor, RandomForestClassifier, RandomForestRegressor
+from sklearn.linear_model import ElasticNet, Lasso, LinearRegression, LogisticRegression, Ridge
+from sklearn.preprocessing import MinMaxScaler, StandardScaler
+from sklearn.tree import DecisionTreeClassifier, DecisionTreeRegressor
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+NATIVE_INFERENCE = os.path.join(HERE, '..', '..', 'nodes', 'shared', 'NativeInference.ts')
+
+
+def tree_export_script():
+    source = open(NATIVE_INFERENCE).read()
+    tree_format = re.search(r"const TREE_EXPORT_FORMAT = '([^']+)';", source).group(1)
+    script = re.search(r'export const TREE_EXPORT_SCRIPT = `(.*?)`;', source, re.S).group(1)
+    return script.replace('${TREE_EXPORT_FORMAT}', tree_format)
+
+
+exec(tree_export_script())
+
+
+def rows(X):
+    return [[None if math.isnan(value) else value for value in row] for row in X.tolist()]
+
+
+rng = _numpy.random.RandomState(0)
+X = rng.normal(size=(60, 3)) * [1.0, 10.0, 0.1] + [0.0, 50.0, -2.0]
+X_test = rng.normal(size=(12, 3)) * [1.0, 10.0, 0.1] + [0.0, 50.0, -2.0]
+y_reg = X @ [1.5, -0.2, 4.0] + rng.normal(scale=0.3, size=60)
+y_bin = _numpy.where(X[:, 0] + 0.05 * (X[:, 1] - 50) > 0, 'yes', 'no')
+y_multi = _numpy.digitize(X[:, 0], [-0.5, 0.5])
+
+cases = []
+
+
+def linear_case(name, model):
+    model.fit(X, y_reg)
+    cases.append({
+        'name': name,
+        'kind': 'linear',
+        'model': {'coefficients': model.coef_.tolist(), 'intercept': float(model.intercept_)},
+        'X': rows(X_test),
+        'predictions': model.predict(X_test).tolist(),
+    })
+
+
+def logistic_case(name, y, solver='lbfgs'):
+    model = LogisticRegression(solver=solver, max_iter=1000).fit(X, y)
+    cases.append({
+        'name': name,
+        'kind': 'logistic',
+        'model': {
+            'coefficients': model.coef_.tolist(),
+            'intercept': model.intercept_.tolist(),
+            'classes': model.classes_.tolist(),
+            'solver': solver,
+            'multi_class': 'ovr' if solver == 'liblinear' else 'multinomial',
+        },
+        'X': rows(X_test),
+        'predictions': model.predict(X_test).tolist(),
+        'probabilities': model.predict_proba(X_test).tolist(),
+    })
+
+
+def standard_case(name, with_mean, with_std):
+    scaler = StandardScaler(with_mean=with_mean, with_std=with_std).fit(X)
+    cases.append({
+        'name': name,
+        'kind': 'standard',
+        'model': {
+            'mean': scaler.mean_.tolist() if scaler.mean_ is not None else None,
+            'scale': scaler.scale_.tolist() if scaler.scale_ is not None else None,
+            'feature_columns': ['a', 'b', 'c'],
+            'with_mean': with_mean,
+            'with_std': with_std,
+        },
+        'X': rows(X_test),
+        'transformed': scaler.transform(X_test).tolist(),
+    })
+
+
+def min_max_case(name, feature_range):
+    scaler = MinMaxScaler(feature_range=feature_range).fit(X)
+    model = {'scale': scaler.scale_.tolist(), 'min': scaler.min_.tolist()}
+    cases.append({
+        'name': name,
+        'kind': 'minMax',
+        'model': model,
+        'X': rows(X_test),
+        'transformed': scaler.transform(X_test).tolist(),
+    })
+    cases.append({
+        'name': f'{name} inverse',
+        'kind': 'minMaxInverse',
+        'model': model,
+        'X': rows(X_test),
+        'transformed': scaler.inverse_transform(X_test).tolist(),
+    })
+
+
+def tree_case(name, model, y, X_fit=X, X_eval=X_test):
+    model.fit(X_fit, y)
+    case = {
+        'name': name,
+        'kind': 'trees',
+        'model': {'tree_export': export_trees(model)},
+        'X': rows(X_eval),
+        'predictions': model.predict(X_eval).tolist(),
+    }
+    if hasattr(model, 'classes_'):
+        case['probabilities'] = model.predict_proba(X_eval).tolist()
+    cases.append(case)
+
+
+linear_case('linear regression', LinearRegression())
+linear_case('ridge', Ridge(alpha=2.0))
+linear_case('lasso', Lasso(alpha=0.05))
+linear_case('elastic net', ElasticNet(alpha=0.05, l1_ratio=0.3))
+
+logistic_case('logistic regression binary', y_bin)
+logistic_case('logistic regression multiclass', y_multi)
+logistic_case('logistic regression binary liblinear', y_bin, solver='liblinear')
+try:
+    # Liblinear fits multiclass models one-vs-rest before scikit-learn 1.8
+    logistic_case('logistic regression multiclass liblinear', y_multi, solver='liblinear')
+except ValueError:
+    pass
+
+standard_case('standard scaler', True, True)
+standard_case('standard scaler without mean', False, True)
+standard_case('standard scaler without std', True, False)
+
+min_max_case('minmax scaler', (0, 1))
+min_max_case('minmax scaler -1 to 1', (-1, 1))
+
+tree_case('decision tree classifier', DecisionTreeClassifier(max_depth=4, random_state=0), y_bin)
+tree_case('decision tree regressor', DecisionTreeRegressor(max_depth=4, random_state=0), y_reg)
+tree_case('random forest classifier', RandomForestClassifier(n_estimators=7, max_depth=3, random_state=0), y_multi)
+tree_case('random forest regressor', RandomForestRegressor(n_estimators=7, max_depth=3, random_state=0), y_reg)
+tree_case('gradient boosting regressor', GradientBoostingRegressor(n_estimators=15, max_depth=2, random_state=0), y_reg)
+tree_case('gradient boosting binary', GradientBoostingClassifier(n_estimators=15, max_depth=2, random_state=0), y_bin)
+tree_case('gradient boosting multiclass', GradientBoostingClassifier(n_estimators=10, max_depth=2, random_state=0), y_multi)
+
+# Balanced classes with one sample of each in every leaf give a raw score of
+# exactly 0, where scikit-learn versions differ on the predicted class.
+X_tie = _numpy.array([[0.0], [0.0], [1.0], [1.0]])
+tree_case(
+    'gradient boosting binary tie',
+    GradientBoostingClassifier(n_estimators=3, max_depth=1, random_state=0),
+    _numpy.array(['a', 'b', 'a', 'b']),
+    X_fit=X_tie,
+    X_eval=X_tie,
+)
+
+X_missing = X.copy()
+X_missing[::5, 0] = _numpy.nan
+X_test_missing = X_test.copy()
+X_test_missing[::3, 0] = _numpy.nan
+try:
+    # Trees of scikit-learn 1.3 and later learn where to send missing values
+    tree_case(
+        'decision tree classifier with missing values',
+        DecisionTreeClassifier(max_depth=4, random_state=0),
+        y_bin,
+        X_fit=X_missing,
+        X_eval=X_test_missing,
+    )
+except ValueError:
+    pass
+
+path = os.path.join(HERE, f'native-sklearn-{sklearn.__version__}.json')
+with open(path, 'w') as f:
+    json.dump({'sklearn_version': sklearn.__version__, 'cases': cases}, f, indent=1, allow_nan=False)
+    f.write('\n')
+print(f'Wrote {len(cases)} cases to {os.path.relpath(path)}')